@@ -1,222 +1,474 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
 import type { KeyboardEvent } from "react";
+import AttestPanel from "@/components/AttestPanel";
+import AuditLog from "@/components/AuditLog";
+import CardCheck from "@/components/CardCheck";
+import CourseEditor from "@/components/CourseEditor";
+import EventPanel from "@/components/EventPanel";
+import GpsPanel from "@/components/GpsPanel";
+import HoleEntry from "@/components/HoleEntry";
+import LivePanel from "@/components/LivePanel";
+import type { LiveStart } from "@/components/LivePanel";
+import RosterPanel from "@/components/RosterPanel";
+import RoundHistory from "@/components/RoundHistory";
+import ShareDialog from "@/components/ShareDialog";
+import ShotLog from "@/components/ShotLog";
+import SideGames from "@/components/SideGames";
+import TournamentPanel from "@/components/TournamentPanel";
+import { getRound, listRounds, newRoundId, saveRound } from "@/lib/archive";
+import type { ArchivedRound } from "@/lib/archive";
+import { createAttestation, unlockRecord } from "@/lib/attest";
+import type { Attestation, Signature, Unlock } from "@/lib/attest";
+import { checkCard } from "@/lib/cardcheck";
+import {
+  COURSE_CATALOG,
+  findCourse,
+  findTee,
+  loadCustomCourses,
+  ratedHoles,
+  saveCustomCourses,
+} from "@/lib/courses";
+import type { Course, Tee } from "@/lib/courses";
+import { parseCSV, snapshotToCSV } from "@/lib/csv";
+import { downloadBlob, downloadText } from "@/lib/download";
+import { addGroup, createEvent, findGroup, groupLabel, loadEvent, saveEvent, withActiveCard } from "@/lib/events";
+import type { GolfEvent } from "@/lib/events";
+import { browserLocation } from "@/lib/geo";
+import { computeDetailStats, emptyHoleStat, hasDetail, isGIR, pct } from "@/lib/holestats";
+import type { Fairway, HoleStat } from "@/lib/holestats";
+import {
+  ALLOWANCES,
+  MAX_HANDICAP_INDEX,
+  MIN_HANDICAP_INDEX,
+  STANDARD_SLOPE,
+  calcHandicap,
+  describeHandicap,
+  findAllowance,
+  formatIndex,
+  ratingForHoles,
+} from "@/lib/handicap";
+import { readableRounds, refreshIndexes } from "@/lib/handicapindex";
+import { FEATURES, LANGUAGES, LOCALES, findLanguage, formatNumber, optionLabel, translator } from "@/lib/i18n";
+import type { Message } from "@/lib/i18n";
+import { broadcastTransport, relayTransport, startLiveSession } from "@/lib/livesync";
+import type { LiveSession, Peer } from "@/lib/livesync";
+import { computeMatch, describeMatch, matchResult, statusLabel } from "@/lib/matchplay";
+import {
+  emptyPace,
+  finishHole,
+  formatClock,
+  formatDuration,
+  holeElapsed,
+  isRunning,
+  loadPace,
+  paceStatus,
+  parTarget,
+  pauseClock,
+  resetPace,
+  savePace,
+  startClock,
+  targetMinutes,
+} from "@/lib/pace";
+import type { Pace } from "@/lib/pace";
+import { scorecardPdf } from "@/lib/pdf";
+import { DEFAULT_PREFS, loadPrefs, savePrefs } from "@/lib/prefs";
+import type { Prefs } from "@/lib/prefs";
+import { registerServiceWorker } from "@/lib/pwa";
+import { createGolfer, initialsFor, loadRoster, saveRoster } from "@/lib/roster";
+import type { Golfer } from "@/lib/roster";
+import {
+  DEFAULT_TEAMS,
+  MANUAL_COURSE,
+  MAX_HOLES,
+  MAX_PLAYERS,
+  SCHEMA_VERSION,
+  blankTeamScores,
+  clearRound,
+  createPlayers,
+  cycleHoles,
+  defaultPars,
+  defaultSI,
+  markPickup,
+  playOrder,
+} from "@/lib/scorecard";
+import type { Player, Snapshot } from "@/lib/scorecard";
+import { parseSnapshot, parseSnapshotJSON } from "@/lib/schema";
+import { SHARE_PARAM, VIEW_PARAM, decodeShareCode, encodeShareCode } from "@/lib/sharecode";
+import { formatStrokesGained, roundStrokesGained } from "@/lib/shots";
+import type { Shot } from "@/lib/shots";
+import {
+  CUSTOM_POINTS_ID,
+  DEFAULT_MAX_SCORE,
+  POINTS_LABELS,
+  POINTS_TABLES,
+  SCORE_CAPS,
+  STANDARD_POINTS,
+  adjustedScore,
+  allocateStrokes,
+  findPointsTable,
+  findScoreCap,
+  holeCap,
+  resolvePointsTable,
+  stablefordPoints,
+} from "@/lib/scoring";
+import { DEFAULT_SIDE_GAMES } from "@/lib/sidegames";
+import type { SideGames as SideGamesConfig } from "@/lib/sidegames";
+import {
+  TEAM_FORMATS,
+  TEAM_NAMES,
+  computeTeams,
+  describeTeamHandicap,
+  findTeamFormat,
+} from "@/lib/teams";
+import type { TeamFormat } from "@/lib/teams";
+import { clearUndo, emptyHistory, loadUndo, logNote, recordEdit, redoEdit, saveUndo, undoEdit } from "@/lib/undo";
+import type { Change, SettingField, UndoHistory } from "@/lib/undo";
+import { createTournament, loadTournament, saveTournament } from "@/lib/tournament";
+import type { Tournament, TournamentCard } from "@/lib/tournament";
+import { DISTANCE_UNITS, findDistanceUnit, toDisplay } from "@/lib/units";
 
-// Types
-type Player = {
-  name: string;
-  handicap: number; // 0-36
-  scores: number[]; // length = numHoles
-};
-
-type Snapshot = {
-  numPlayers: number;
-  numHoles: number;
-  players: Player[];
-  pars: number[];
-  si: number[];
-  useStableford: boolean;
-  course: string;
-};
-
-const MAX_PLAYERS = 4;
-const MAX_HOLES = 18;
 const STORAGE_KEY = "golf-card-v1";
-
-// Kamloops, BC courses (city and nearby). Adjust as needed.
-const KAMLOOPS_COURSES = [
-  "Custom",
-  "Kamloops Golf & Country Club",
-  "The Dunes at Kamloops",
-  "Rivershore Golf Links",
-  "Big Horn (Sun Rivers) Golf Club",
-  "Eaglepoint Golf Resort",
-  "Mount Paul Golf Course",
-  "Pineridge Golf Course",
-  "McArthur Island Golf Park",
-  "Tobiano (nearby)",
-];
-
-function defaultPars(n = MAX_HOLES) {
-  const arr = Array(n).fill(4);
-  // Typical pattern for 18 holes: mix of par 3/4/5. Keep simple defaults.
-  [2, 7, 11, 16].forEach((idx) => (arr[idx] = 3));
-  [4, 9, 13].forEach((idx) => (arr[idx] = 5));
-  return arr.slice(0, n);
-}
-
-function defaultSI(n = MAX_HOLES) {
-  // Stroke Index (1 hardest ... 18 easiest)
-  return Array.from({ length: n }, (_, i) => i + 1);
-}
-
-function createPlayers(count: number, holes: number): Player[] {
-  return Array.from({ length: count }, (_, i) => ({
-    name: `Player ${i + 1}`,
-    handicap: 0,
-    scores: Array(holes).fill(0),
-  }));
-}
+const ROUND_ID_KEY = "golf-round-id"; // archive id of the round on the card, if saved
+const DEVICE_LOCATION = browserLocation();
 
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
-function deepClone<T>(obj: T): T {
-  return JSON.parse(JSON.stringify(obj));
-}
-
-function encodeState(snapshot: Snapshot): string {
-  const json = JSON.stringify(snapshot);
-  // Encode to base64 in a URI-safe way
-  return btoa(unescape(encodeURIComponent(json)));
+function roundTenth(n: number) {
+  return Math.round(n * 10) / 10;
 }
 
-function decodeState(code: string): Snapshot | null {
-  try {
-    const json = decodeURIComponent(escape(atob(code)));
-    return JSON.parse(json);
-  } catch {
-    return null;
-  }
-}
-
-function strokesForHoleFromHandicap(handicap: number, si: number): number {
-  // Allocate one stroke to the hardest holes first
-  const base = Math.floor(handicap / 18);
-  const remainder = handicap % 18;
-  return base + (si <= remainder ? 1 : 0);
-}
-
-function stablefordPoints(gross: number, par: number, strokes: number) {
-  if (!gross || gross <= 0) return 0; // treat 0 as not played yet
-  const net = gross - strokes;
-  const diff = net - par; // negative is better than par
-  if (diff <= -3) return 5; // albatross or better
-  if (diff === -2) return 4; // eagle
-  if (diff === -1) return 3; // birdie
-  if (diff === 0) return 2; // par
-  if (diff === 1) return 1; // bogey
-  return 0; // double bogey or worse
+function deepClone<T>(obj: T): T {
+  return JSON.parse(JSON.stringify(obj));
 }
 
 export default function Home() {
   // Core state
   const [numPlayers, setNumPlayers] = useState(2);
   const [numHoles, setNumHoles] = useState(18);
+  const [startHole, setStartHole] = useState(1);
   const [players, setPlayers] = useState<Player[]>(createPlayers(2, 18));
   const [pars, setPars] = useState<number[]>(defaultPars(18));
   const [si, setSi] = useState<number[]>(defaultSI(18));
   const [useStableford, setUseStableford] = useState(false);
-  const [course, setCourse] = useState<string>(KAMLOOPS_COURSES[0]);
+  const [pointsTable, setPointsTable] = useState(POINTS_TABLES[0].id);
+  const [customPoints, setCustomPoints] = useState<number[]>(STANDARD_POINTS);
+  const [scoreCap, setScoreCap] = useState(SCORE_CAPS[0].id); // cap on hole scores for adjusted gross
+  const [maxScore, setMaxScore] = useState(DEFAULT_MAX_SCORE);
+  const [showCheck, setShowCheck] = useState(false);
+  const [matchPlay, setMatchPlay] = useState(false);
+  const [teamFormat, setTeamFormat] = useState<TeamFormat>("none");
+  const [teams, setTeams] = useState<number[]>(DEFAULT_TEAMS);
+  const [teamScores, setTeamScores] = useState<number[][]>(blankTeamScores(18));
+  const [sideGames, setSideGames] = useState<SideGamesConfig>(DEFAULT_SIDE_GAMES);
+  const [course, setCourse] = useState<string>(MANUAL_COURSE);
+  const [courseId, setCourseId] = useState("");
+  const [teeId, setTeeId] = useState("");
+  const [yards, setYards] = useState<number[]>([]);
+  const [rating, setRating] = useState(0);
+  const [slope, setSlope] = useState(STANDARD_SLOPE);
+  const [allowance, setAllowance] = useState(ALLOWANCES[0].id);
+
+  // Player and marker signatures; a signed card is locked until someone unlocks it with a reason
+  const [attestation, setAttestation] = useState<Attestation | null>(null);
+  const [unlocks, setUnlocks] = useState<Unlock[]>([]);
+  const [showAttest, setShowAttest] = useState(false);
+  const locked = attestation != null;
+
+  // Course catalog plus user-defined courses
+  const [customCourses, setCustomCourses] = useState<Course[]>([]);
+  const [editingCourse, setEditingCourse] = useState<string | null>(null); // custom course id, "" for new
+  const allCourses = useMemo(() => [...COURSE_CATALOG, ...customCourses], [customCourses]);
+  const selectedCourse = findCourse(allCourses, courseId);
+  const selectedTee = findTee(selectedCourse, teeId);
 
   // UI helpers
   const [currentHole, setCurrentHole] = useState(1);
 
-  // History for Undo/Redo
-  const [history, setHistory] = useState<Snapshot[]>([]);
-  const [redo, setRedo] = useState<Snapshot[]>([]);
+  // Round archive
+  const [roundId, setRoundId] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
 
-  // Timer / pace of play
-  const [timerRunning, setTimerRunning] = useState(false);
-  const [elapsed, setElapsed] = useState(0); // seconds
-  const startRef = useRef<number | null>(null);
-  const intervalRef = useRef<number | null>(null);
-  const [holeDurations, setHoleDurations] = useState<number[]>(Array(MAX_HOLES).fill(0));
+  // Saved golfers
+  const [roster, setRoster] = useState<Golfer[]>([]);
+  const [showRoster, setShowRoster] = useState(false);
+  const [savedRounds, setSavedRounds] = useState<ArchivedRound[]>([]); // for indexes kept from rounds
+
+  // Sharing: code shown in the share dialog, and read-only view of a shared card
+  const [shareCode, setShareCode] = useState<string | null>(null);
+  const [readOnly, setReadOnly] = useState(false);
+  const viewOnlyRef = useRef(false); // checked by the persist effect before state settles
+
+  // Event with several groups; the open card is the active group's
+  const [event, setEvent] = useState<GolfEvent | null>(null);
+  const [showEvent, setShowEvent] = useState(false);
+
+  // Multi-round tournament built from attached cards
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [showTournament, setShowTournament] = useState(false);
+
+  // Live session shared with other devices in the group
+  const [live, setLive] = useState<LiveSession | null>(null);
+  const [livePeers, setLivePeers] = useState<Peer[]>([]);
+  const [showLive, setShowLive] = useState(false);
+  const liveRef = useRef<LiveSession | null>(null); // read by the persist effect
+
+  // Set when a new build has been downloaded and is waiting to take over
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+
+  // Per-hole detail entry (putts, fairway, penalties, sand)
+  const [showDetail, setShowDetail] = useState(false);
+
+  // One hole at a time with big buttons, above the grid; the default on phones
+  const [holeView, setHoleView] = useState(false);
+
+  // Distances to the green for the current hole, from the course's coordinates
+  const [gps, setGps] = useState(false);
+
+  // Shot-by-shot entry for strokes gained
+  const [shotLog, setShotLog] = useState(false);
+
+  // Undo/Redo steps and the change log, saved apart from the card
+  const [edits, setEdits] = useState<UndoHistory>(emptyHistory);
+  const [showLog, setShowLog] = useState(false);
+
+  // Pace of play: tee time, targets and the hole clock, saved apart from the card
+  const [pace, setPace] = useState<Pace>(emptyPace);
+  const [now, setNow] = useState(0); // ticks while the clock runs
+  const [showTargets, setShowTargets] = useState(false);
+
+  // Interface language and distance units, saved on this device apart from the card
+  const [prefs, setPrefs] = useState<Prefs>(DEFAULT_PREFS);
+  const t = translator(prefs.language);
+  const locale = LOCALES[prefs.language];
+
+  // The mount effect runs once; a shared card decoded after it still loads through the latest applySnapshot
+  const applySnapshotRef = useRef(applySnapshot);
+  useEffect(() => {
+    applySnapshotRef.current = applySnapshot;
+  });
 
   // Load persisted or shared state on mount
   useEffect(() => {
+    const savedPrefs = loadPrefs();
+    setPrefs(savedPrefs);
+    setCustomCourses(loadCustomCourses());
+    setRoundId(localStorage.getItem(ROUND_ID_KEY) ?? "");
+    setRoster(loadRoster());
+    setEvent(loadEvent());
+    setTournament(loadTournament());
+    setPace(loadPace());
+    setNow(Date.now());
+    setHoleView(window.matchMedia("(max-width: 640px)").matches);
+    // Read before the persist effect writes the initial defaults
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const savedEdits = loadUndo();
+    const loadSaved = () => {
+      if (!raw) return;
+      setEdits(savedEdits);
+      // A card that fails validation is ignored and the defaults stay
+      const { snapshot } = parseSnapshotJSON(raw);
+      if (snapshot) applySnapshotRef.current(snapshot);
+    };
     const url = new URL(window.location.href);
-    const shared = url.searchParams.get("s");
-    if (shared) {
-      const snap = decodeState(shared);
-      if (snap) {
-        applySnapshot(snap, false);
-        return;
-      }
+    const shared = url.searchParams.get(SHARE_PARAM);
+    if (!shared) {
+      loadSaved();
+      return;
     }
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) {
-      try {
-        const snap: Snapshot = JSON.parse(raw);
-        applySnapshot(snap, false);
-      } catch {
-        // ignore
+    // A read-only link must never replace the recipient's own saved card
+    const viewOnly = url.searchParams.get(VIEW_PARAM) === "1";
+    viewOnlyRef.current = viewOnly;
+    setReadOnly(viewOnly);
+    const tr = translator(savedPrefs.language);
+    decodeShareCode(shared, tr).then(({ snapshot, errors }) => {
+      if (snapshot) {
+        applySnapshotRef.current(snapshot);
+        return;
       }
-    }
+      alert(tr("msg.sharedFailed", { errors: errors.join("\n") }));
+      viewOnlyRef.current = false;
+      setReadOnly(false);
+      loadSaved();
+    });
   }, []);
 
   // Persist on change
   useEffect(() => {
+    if (viewOnlyRef.current) return;
     const snap: Snapshot = {
+      version: SCHEMA_VERSION,
       numPlayers,
       numHoles,
+      startHole,
       players,
       pars,
       si,
       useStableford,
+      pointsTable,
+      customPoints,
+      scoreCap,
+      maxScore,
+      matchPlay,
+      teamFormat,
+      teams,
+      teamScores,
+      sideGames,
       course,
+      courseId,
+      teeId,
+      yards,
+      rating,
+      slope,
+      allowance,
+      attestation,
+      unlocks,
     };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(snap));
-  }, [numPlayers, numHoles, players, pars, si, useStableford, course]);
+    liveRef.current?.publish(snap);
+  }, [numPlayers, numHoles, startHole, players, pars, si, useStableford, pointsTable, customPoints, scoreCap, maxScore, matchPlay, teamFormat, teams, teamScores, sideGames, course, courseId, teeId, yards, rating, slope, allowance, attestation, unlocks]);
+
+  useEffect(() => {
+    live?.setHole(currentHole);
+  }, [live, currentHole]);
+
+  useEffect(() => () => liveRef.current?.close(), []);
+
+  useEffect(() => registerServiceWorker((apply) => setApplyUpdate(() => apply)), []);
+
+  useEffect(() => {
+    saveEvent(event);
+  }, [event]);
+
+  useEffect(() => {
+    saveTournament(tournament);
+  }, [tournament]);
+
+  useEffect(() => {
+    if (roundId) localStorage.setItem(ROUND_ID_KEY, roundId);
+    else localStorage.removeItem(ROUND_ID_KEY);
+  }, [roundId]);
+
+  useEffect(() => {
+    savePace(pace);
+  }, [pace]);
+
+  useEffect(() => {
+    savePrefs(prefs);
+    document.documentElement.lang = prefs.language;
+  }, [prefs]);
+
+  useEffect(() => {
+    if (viewOnlyRef.current) return;
+    saveUndo(edits);
+  }, [edits]);
 
   // Timer effect
+  const timerRunning = isRunning(pace);
   useEffect(() => {
-    if (timerRunning) {
-      if (startRef.current == null) startRef.current = Date.now();
-      intervalRef.current = window.setInterval(() => {
-        if (startRef.current != null) {
-          setElapsed(Math.floor((Date.now() - startRef.current) / 1000));
-        }
-      }, 1000);
-    }
-    return () => {
-      if (intervalRef.current != null) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
+    if (!timerRunning) return;
+    setNow(Date.now());
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
   }, [timerRunning]);
 
   function currentSnapshot(): Snapshot {
     return {
+      version: SCHEMA_VERSION,
       numPlayers,
       numHoles,
+      startHole,
       players,
       pars,
       si,
       useStableford,
+      pointsTable,
+      customPoints,
+      scoreCap,
+      maxScore,
+      matchPlay,
+      teamFormat,
+      teams,
+      teamScores,
+      sideGames,
       course,
+      courseId,
+      teeId,
+      yards,
+      rating,
+      slope,
+      allowance,
+      attestation,
+      unlocks,
     };
   }
 
-  function pushHistory() {
-    setHistory((h) => [...h, deepClone(currentSnapshot())]);
-    setRedo([]);
+  function record(change: Change, label: Message) {
+    setEdits((h) => recordEdit(h, { change, label, at: Date.now() }));
   }
 
-  function applySnapshot(s: Snapshot, push = true) {
-    if (push) pushHistory();
+  // For edits that touch several parts of the card: the whole card is kept
+  function pushHistory(label: Message) {
+    record({ kind: "card", from: deepClone(currentSnapshot()), to: null }, label);
+  }
+
+  function setSetting<T extends string | number | boolean>(field: SettingField, label: Message, from: T, to: T, set: (v: T) => void) {
+    record({ kind: "setting", field, from, to }, label);
+    set(to);
+  }
+
+  function applySnapshot(s: Snapshot, label?: Message, resetHole = true) {
+    if (label) pushHistory(label);
     setNumPlayers(clamp(s.numPlayers, 1, MAX_PLAYERS));
     setNumHoles(clamp(s.numHoles, 1, MAX_HOLES));
+    setStartHole(clamp(s.startHole, 1, s.numHoles));
     setPlayers(
       s.players.slice(0, MAX_PLAYERS).map((p, i) => ({
+        id: p.id,
         name: p.name || `Player ${i + 1}`,
-        handicap: clamp(Math.round(p.handicap || 0), 0, 54),
+        handicap: clamp(roundTenth(p.handicap || 0), MIN_HANDICAP_INDEX, MAX_HANDICAP_INDEX),
         scores: (p.scores || []).slice(0, MAX_HOLES).concat(Array(MAX_HOLES).fill(0)).slice(0, s.numHoles),
+        stats: p.stats?.slice(0, s.numHoles),
+        pickups: p.pickups?.slice(0, s.numHoles),
+        shots: p.shots?.slice(0, s.numHoles),
       }))
     );
     setPars((s.pars || defaultPars(MAX_HOLES)).slice(0, s.numHoles));
     setSi((s.si || defaultSI(MAX_HOLES)).slice(0, s.numHoles));
     setUseStableford(!!s.useStableford);
-    setCourse(s.course || KAMLOOPS_COURSES[0]);
-    setCurrentHole(1);
+    setPointsTable(findPointsTable(s.pointsTable).id);
+    setCustomPoints(resolvePointsTable(CUSTOM_POINTS_ID, s.customPoints ?? []));
+    setScoreCap(findScoreCap(s.scoreCap).id);
+    setMaxScore(clamp(Math.round(s.maxScore || DEFAULT_MAX_SCORE), 1, 20));
+    setMatchPlay(!!s.matchPlay);
+    setTeamFormat(findTeamFormat(s.teamFormat).id);
+    setTeams(DEFAULT_TEAMS.map((d, i) => clamp(Math.round(s.teams?.[i] ?? d), 0, MAX_PLAYERS - 1)));
+    setTeamScores(
+      blankTeamScores(s.numHoles).map((row, t) => (s.teamScores?.[t] || []).slice(0, s.numHoles).concat(row).slice(0, s.numHoles))
+    );
+    setSideGames({
+      skins: { ...DEFAULT_SIDE_GAMES.skins, ...s.sideGames?.skins },
+      nassau: { ...DEFAULT_SIDE_GAMES.nassau, ...s.sideGames?.nassau },
+      wolf: { ...DEFAULT_SIDE_GAMES.wolf, ...s.sideGames?.wolf },
+    });
+    setCourse(s.course || MANUAL_COURSE);
+    setCourseId(s.courseId);
+    setTeeId(s.teeId);
+    setYards((s.yards || []).slice(0, s.numHoles));
+    setRating(s.rating || 0);
+    setSlope(clamp(s.slope || STANDARD_SLOPE, 55, 155));
+    setAllowance(findAllowance(s.allowance).id);
+    setAttestation(s.attestation ?? null);
+    setUnlocks(s.unlocks ?? []);
+    if (resetHole) setCurrentHole(clamp(s.startHole, 1, s.numHoles));
   }
 
   function handlePlayersChange(n: number) {
     const next = clamp(n, 1, MAX_PLAYERS);
-    pushHistory();
+    pushHistory({ key: "audit.players", vars: { n: next } });
     setNumPlayers(next);
     setPlayers((ps) => {
       if (ps.length === next) return ps;
@@ -230,174 +482,595 @@ export default function Home() {
     });
   }
 
+  function changeStartHole(n: number) {
+    const next = clamp(Math.round(n) || 1, 1, numHoles);
+    record({ kind: "setting", field: "startHole", from: startHole, to: next }, { key: "controls.startHole" });
+    setStartHole(next);
+    setCurrentHole(next);
+  }
+
   function handleHolesChange(n: number) {
+    pushHistory({ key: "audit.holes", vars: { n: clamp(n, 1, MAX_HOLES) } });
+    resizeHoles(n);
+  }
+
+  function resizeHoles(n: number) {
     const next = clamp(n, 1, MAX_HOLES);
-    pushHistory();
+    // Past the end of the course, holes replay from hole 1
+    const loop = selectedTee?.holes;
     setNumHoles(next);
-    setPars((p) => p.slice(0, next).concat(defaultPars(MAX_HOLES).slice(p.length, next)));
-    setSi((x) => x.slice(0, next).concat(defaultSI(MAX_HOLES).slice(x.length, next)));
+    setStartHole((h) => clamp(h, 1, next));
+    setPars((p) => p.slice(0, next).concat((loop ? cycleHoles(loop.map((h) => h.par), next) : defaultPars(next)).slice(p.length)));
+    setSi((x) => x.slice(0, next).concat((loop ? cycleHoles(loop.map((h) => h.si), next) : defaultSI(next)).slice(x.length)));
+    setYards((y) => (y.length && loop ? y.slice(0, next).concat(cycleHoles(loop.map((h) => h.yards), next).slice(y.length)) : y.slice(0, next)));
+    setTeamScores((ts) => ts.map((row) => row.slice(0, next).concat(Array(Math.max(0, next - row.length)).fill(0))));
     setPlayers((ps) => ps.map((p) => ({
       ...p,
       scores: p.scores.slice(0, next).concat(Array(next - p.scores.slice(0, next).length).fill(0)),
+      stats: p.stats?.slice(0, next),
+      pickups: p.pickups?.slice(0, next),
+      shots: p.shots?.slice(0, next),
     })));
     setCurrentHole((h) => clamp(h, 1, next));
   }
 
+  function applyTee(tee: Tee) {
+    resizeHoles(tee.holes.length);
+    setTeeId(tee.id);
+    setPars(tee.holes.map((h) => h.par));
+    setSi(tee.holes.map((h) => h.si));
+    setYards(tee.holes.some((h) => h.yards > 0) ? tee.holes.map((h) => h.yards) : []);
+    setRating(tee.rating);
+    setSlope(tee.slope);
+  }
+
+  function selectCourse(c: Course | undefined) {
+    pushHistory({ key: "audit.course", vars: { name: c?.name ?? MANUAL_COURSE } });
+    if (!c) {
+      setCourseId("");
+      setTeeId("");
+      setCourse(MANUAL_COURSE);
+      setYards([]);
+      return;
+    }
+    setCourseId(c.id);
+    setCourse(c.name);
+    if (c.tees[0]) applyTee(c.tees[0]);
+  }
+
+  function selectTee(id: string) {
+    const tee = findTee(selectedCourse, id);
+    if (!tee) return;
+    pushHistory({ key: "audit.tee", vars: { name: tee.name } });
+    applyTee(tee);
+  }
+
+  function saveCourses(list: Course[]) {
+    setCustomCourses(list);
+    saveCustomCourses(list);
+  }
+
+  // One history step for the whole group's scores on a hole, then on to the next
+  function saveHole(scores: number[], pickups: boolean[]) {
+    const hi = currentHole - 1;
+    const to = scores.slice(0, numPlayers).map((v, pi) => (pickups[pi] ? 0 : clamp(Math.round(v), 0, 20)));
+    // Pick-ups aren't a typed undo step, so a save that changes one keeps the whole card
+    if (to.some((_, pi) => !!pickups[pi] !== !!players[pi].pickups?.[hi])) pushHistory({ key: "audit.holePickups", vars: { n: hi + 1 } });
+    else record({ kind: "holeScores", hole: hi, from: to.map((_, pi) => players[pi].scores[hi] || 0), to }, { key: "audit.hole", vars: { n: hi + 1 } });
+    setPlayers((ps) => {
+      const next = deepClone(ps);
+      to.forEach((v, pi) => {
+        if (!next[pi]) return;
+        next[pi].scores[hi] = v;
+        next[pi].pickups = markPickup(next[pi], hi, !!pickups[pi]);
+      });
+      return next;
+    });
+    moveHole(1);
+  }
+
   function setScore(pi: number, hi: number, val: number) {
-    pushHistory();
+    const to = clamp(Math.round(val), 0, 20);
+    const label: Message = { key: "audit.holePlayer", vars: { n: hi + 1, name: players[pi].name } };
+    if (players[pi].pickups?.[hi]) record({ kind: "pickup", player: pi, hole: hi, from: { score: 0, pickup: true }, to: { score: to, pickup: false } }, label);
+    else record({ kind: "score", player: pi, hole: hi, from: players[pi].scores[hi] || 0, to }, label);
+    setPlayers((ps) => {
+      const next = deepClone(ps);
+      next[pi].scores[hi] = to;
+      next[pi].pickups = markPickup(next[pi], hi, false);
+      return next;
+    });
+  }
+
+  // A pick-up clears the hole's score; no return unless the card has a cap
+  function togglePickup(pi: number, hi: number) {
+    const on = !players[pi].pickups?.[hi];
+    const from = { score: players[pi].scores[hi] || 0, pickup: !on };
+    record({ kind: "pickup", player: pi, hole: hi, from, to: { score: 0, pickup: on } }, { key: "audit.holePlayer", vars: { n: hi + 1, name: players[pi].name } });
+    setPlayers((ps) => {
+      const next = deepClone(ps);
+      next[pi].scores[hi] = 0;
+      next[pi].pickups = markPickup(next[pi], hi, on);
+      return next;
+    });
+  }
+
+  function setHoleStat(pi: number, hi: number, patch: Partial<HoleStat>) {
+    const from = players[pi].stats?.[hi] ?? emptyHoleStat();
+    record({ kind: "stat", player: pi, hole: hi, from, to: { ...from, ...patch } }, { key: "audit.holeStats", vars: { n: hi + 1, name: players[pi].name } });
     setPlayers((ps) => {
       const next = deepClone(ps);
-      next[pi].scores[hi] = clamp(Math.round(val), 0, 20);
+      const stats = next[pi].stats ?? [];
+      while (stats.length < numHoles) stats.push(emptyHoleStat());
+      stats[hi] = { ...stats[hi], ...patch };
+      next[pi].stats = stats;
+      return next;
+    });
+  }
+
+  function setShots(pi: number, hi: number, shots: Shot[]) {
+    record({ kind: "shots", player: pi, hole: hi, from: players[pi].shots?.[hi] ?? [], to: shots }, { key: "audit.holeShots", vars: { n: hi + 1, name: players[pi].name } });
+    setPlayers((ps) => {
+      const next = deepClone(ps);
+      const log = next[pi].shots ?? [];
+      while (log.length < numHoles) log.push([]);
+      log[hi] = shots;
+      next[pi].shots = log;
       return next;
     });
   }
 
   function setPar(hi: number, val: number) {
-    pushHistory();
+    const to = clamp(Math.round(val), 3, 6);
+    record({ kind: "par", hole: hi, from: pars[hi], to }, { key: "table.parFor", vars: { n: hi + 1 } });
     setPars((p) => {
       const next = p.slice();
-      next[hi] = clamp(Math.round(val), 3, 6);
+      next[hi] = to;
       return next;
     });
   }
 
   function setSI(hi: number, val: number) {
-    pushHistory();
+    const to = clamp(Math.round(val), 1, Math.max(18, numHoles));
+    record({ kind: "si", hole: hi, from: si[hi], to }, { key: "table.siFor", vars: { n: hi + 1 } });
     setSi((arr) => {
       const next = arr.slice();
-      next[hi] = clamp(Math.round(val), 1, numHoles);
+      next[hi] = to;
       return next;
     });
   }
 
   function setName(pi: number, name: string) {
-    pushHistory();
+    const to = name.slice(0, 20);
+    record({ kind: "name", player: pi, from: players[pi].name, to }, { key: "table.nameFor", vars: { n: pi + 1 } });
     setPlayers((ps) => {
       const next = deepClone(ps);
-      next[pi].name = name.slice(0, 20);
+      next[pi].name = to;
       return next;
     });
   }
 
   function setHandicap(pi: number, val: number) {
-    pushHistory();
+    const to = clamp(roundTenth(val), MIN_HANDICAP_INDEX, MAX_HANDICAP_INDEX);
+    record({ kind: "handicap", player: pi, from: players[pi].handicap, to }, { key: "audit.handicap", vars: { name: players[pi].name } });
     setPlayers((ps) => {
       const next = deepClone(ps);
-      next[pi].handicap = clamp(Math.round(val), 0, 54);
+      next[pi].handicap = to;
       return next;
     });
   }
 
-  function handleUndo() {
-    setHistory((h) => {
-      if (h.length === 0) return h;
-      const prev = h[h.length - 1];
-      setRedo((r) => [...r, deepClone(currentSnapshot())]);
-      applySnapshot(prev, false);
-      return h.slice(0, -1);
+  function setCustomPoint(i: number, val: number) {
+    const to = clamp(Math.round(val) || 0, -10, 10);
+    record({ kind: "customPoint", index: i, from: customPoints[i], to }, {
+      key: "audit.customPoints",
+      vars: { result: { group: "points", id: i, fallback: POINTS_LABELS[i] } },
     });
+    setCustomPoints((pts) => pts.map((p, j) => (j === i ? to : p)));
   }
 
-  function handleRedo() {
-    setRedo((r) => {
-      if (r.length === 0) return r;
-      const nxt = r[r.length - 1];
-      setHistory((h) => [...h, deepClone(currentSnapshot())]);
-      applySnapshot(nxt, false);
-      return r.slice(0, -1);
+  function toggleMatchPlay(on: boolean) {
+    pushHistory({ key: "audit.matchPlay", vars: { state: { key: on ? "audit.on" : "audit.off" } } });
+    setMatchPlay(on);
+    // Singles match play is played off full course handicap difference
+    if (on && allowance === ALLOWANCES[0].id) setAllowance("match");
+  }
+
+  function changeTeamFormat(id: string) {
+    const format = findTeamFormat(id);
+    pushHistory({ key: "audit.teamFormat", vars: { format: { group: "teamFormat", id: format.id, fallback: format.label } } });
+    setTeamFormat(format.id);
+    // Better ball uses individual handicaps at the four-ball allowance
+    if (format.id === "fourball" && allowance === ALLOWANCES[0].id) setAllowance("fourball-stroke");
+  }
+
+  function setTeam(pi: number, team: number) {
+    const to = clamp(team, 0, MAX_PLAYERS - 1);
+    record({ kind: "team", player: pi, from: teams[pi], to }, { key: "audit.team", vars: { name: players[pi].name } });
+    setTeams((t) => {
+      const next = t.slice();
+      next[pi] = to;
+      return next;
     });
   }
 
+  function setTeamScore(ti: number, hi: number, val: number) {
+    const to = clamp(Math.round(val), 0, 20);
+    record({ kind: "teamScore", team: ti, hole: hi, from: teamScores[ti][hi] || 0, to }, {
+      key: "audit.holePlayer",
+      vars: { n: hi + 1, name: { group: "team", id: ti, fallback: TEAM_NAMES[ti] } },
+    });
+    setTeamScores((ts) => {
+      const next = deepClone(ts);
+      next[ti][hi] = to;
+      return next;
+    });
+  }
+
+  function changeSideGames(next: SideGamesConfig) {
+    record({ kind: "sideGames", from: sideGames, to: next }, { key: "side.label" });
+    setSideGames(next);
+  }
+
+  function saveRosterList(list: Golfer[]) {
+    setRoster(list);
+    saveRoster(list);
+  }
+
+  // Golfers who keep their index from rounds pick up finished, reopened or deleted rounds
+  async function updateRosterIndexes() {
+    try {
+      const rounds = readableRounds(await listRounds());
+      setSavedRounds(rounds);
+      const next = refreshIndexes(roster, rounds, allCourses);
+      if (next !== roster) saveRosterList(next);
+    } catch {
+      setSavedRounds([]);
+    }
+  }
+
+  function toggleRoster() {
+    if (!showRoster) updateRosterIndexes();
+    setShowRoster(!showRoster);
+  }
+
+  function fillFromRoster(pi: number, g: Golfer | undefined) {
+    pushHistory(g ? { key: "audit.fromRoster", vars: { name: g.name, n: pi + 1 } } : { key: "audit.unlinked", vars: { n: pi + 1 } });
+    setPlayers((ps) => {
+      const next = deepClone(ps);
+      if (g) next[pi] = { ...next[pi], id: g.id, name: g.name, handicap: g.handicapIndex };
+      else delete next[pi].id;
+      return next;
+    });
+  }
+
+  // Put a roster golfer on the first row without a golfer or scores, adding a row if needed
+  function addFromRoster(g: Golfer) {
+    const free = players.slice(0, numPlayers).findIndex((p) => !p.id && p.scores.every((x) => !x));
+    if (free >= 0) {
+      fillFromRoster(free, g);
+      return;
+    }
+    if (numPlayers >= MAX_PLAYERS) {
+      alert(t("msg.cardFull", { n: MAX_PLAYERS }));
+      return;
+    }
+    pushHistory({ key: "audit.addedFromRoster", vars: { name: g.name } });
+    setNumPlayers(numPlayers + 1);
+    setPlayers((ps) => [
+      ...ps.slice(0, numPlayers),
+      { id: g.id, name: g.name, handicap: g.handicapIndex, scores: Array(numHoles).fill(0) },
+    ]);
+  }
+
+  // Save an ad-hoc row as a new roster golfer and link it
+  function addRowToRoster(pi: number) {
+    const p = players[pi];
+    const g = { ...createGolfer(p.name, p.handicap), preferredTee: selectedTee?.name ?? "" };
+    saveRosterList([...roster, g]);
+    fillFromRoster(pi, g);
+  }
+
+  // Whole-card steps may change the hole count, so they go back to the start hole
+  function handleUndo() {
+    const step = undoEdit(edits, deepClone(currentSnapshot()));
+    if (!step) return;
+    setEdits(step.history);
+    applySnapshot(step.snapshot, undefined, step.edit.change.kind === "card");
+  }
+
+  function handleRedo() {
+    const step = redoEdit(edits, deepClone(currentSnapshot()));
+    if (!step) return;
+    setEdits(step.history);
+    applySnapshot(step.snapshot, undefined, step.edit.change.kind === "card");
+  }
+
+  // Replacing a signed card needs a recorded unlock first, like any other change to it
   function resetAll() {
-    pushHistory();
+    if (locked) return;
+    pushHistory({ key: "audit.reset" });
     setNumPlayers(2);
     setNumHoles(18);
+    setStartHole(1);
     setPlayers(createPlayers(2, 18));
     setPars(defaultPars(18));
     setSi(defaultSI(18));
     setUseStableford(false);
-    setCourse(KAMLOOPS_COURSES[0]);
+    setPointsTable(POINTS_TABLES[0].id);
+    setCustomPoints(STANDARD_POINTS);
+    setScoreCap(SCORE_CAPS[0].id);
+    setMaxScore(DEFAULT_MAX_SCORE);
+    setMatchPlay(false);
+    setTeamFormat("none");
+    setTeams(DEFAULT_TEAMS);
+    setTeamScores(blankTeamScores(18));
+    setSideGames(DEFAULT_SIDE_GAMES);
+    setCourse(MANUAL_COURSE);
+    setCourseId("");
+    setTeeId("");
+    setYards([]);
+    setRating(0);
+    setSlope(STANDARD_SLOPE);
+    setAllowance(ALLOWANCES[0].id);
+    setAttestation(null);
+    setUnlocks([]);
     setCurrentHole(1);
-    setHoleDurations(Array(MAX_HOLES).fill(0));
+    setPace((p) => resetPace(p));
+    setRoundId("");
+  }
+
+  // Problems are listed before a card leaves the device; going ahead anyway is the scorer's call
+  function confirmCard(action: string): boolean {
+    if (cardProblems.length === 0) return true;
+    setShowCheck(true);
+    return confirm(t("msg.cardProblems", { n: cardProblems.length, action }));
+  }
+
+  async function finishRound() {
+    if (!confirmCard(t("msg.finishAction"))) return;
+    const id = roundId || newRoundId();
+    // Finishing a reopened round again keeps the day it was played
+    const previous = roundId ? await getRound(roundId).catch(() => undefined) : undefined;
+    const round: ArchivedRound = {
+      id,
+      date: previous?.date ?? new Date().toISOString(),
+      course,
+      snapshot: deepClone(currentSnapshot()),
+      holeDurations: Array.from({ length: numHoles }, (_, h) => (h === currentHole - 1 ? holeElapsed(pace, h, Date.now()) : pace.durations[h])),
+      results: players.slice(0, numPlayers).map((p, i) => ({
+        playerId: p.id,
+        name: p.name,
+        gross: totals[i]?.gross ?? 0,
+        net: totals[i]?.net ?? 0,
+        points: totals[i]?.points ?? 0,
+      })),
+    };
+    try {
+      await saveRound(round);
+      setRoundId(id);
+      updateRosterIndexes();
+      alert(roundId ? t("msg.roundUpdated") : t("msg.roundSaved"));
+    } catch {
+      alert(t("msg.roundSaveFailed"));
+    }
+  }
+
+  // Archived rounds keep the schema they were saved with
+  function archivedSnapshot(r: ArchivedRound): Snapshot | null {
+    const { snapshot, errors } = parseSnapshot(r.snapshot);
+    if (!snapshot) alert(t("msg.roundOpenFailed", { errors: errors.join("\n") }));
+    return snapshot;
+  }
+
+  function openRound(r: ArchivedRound) {
+    if (locked) return;
+    const snap = archivedSnapshot(r);
+    if (!snap) return;
+    applySnapshot(snap, { key: "audit.opened", vars: { course: r.course, date: r.date.slice(0, 10) } });
+    setPace((p) => resetPace(p, "", r.holeDurations));
+    setRoundId(r.id);
+    setShowHistory(false);
+  }
+
+  // Same group and course, blank scores
+  function duplicateRound(r: ArchivedRound) {
+    if (locked) return;
+    const snap = archivedSnapshot(r);
+    if (!snap) return;
+    applySnapshot(clearRound(snap), { key: "audit.copied", vars: { course: r.course, date: r.date.slice(0, 10) } });
+    setPace((p) => resetPace(p));
+    setRoundId("");
+    setShowHistory(false);
   }
 
   function exportCSV() {
-    const headers = ["Hole", ...Array.from({ length: numHoles }, (_, i) => `${i + 1}`), "Total"];
-    const parRow = ["Par", ...pars.slice(0, numHoles).map(String), pars.slice(0, numHoles).reduce((a, b) => a + b, 0).toString()];
-    const rows = [headers.join(","), parRow.join(",")];
-    players.slice(0, numPlayers).forEach((p) => {
-      const total = p.scores.slice(0, numHoles).reduce((a, b) => a + (b || 0), 0);
-      rows.push([p.name, ...p.scores.slice(0, numHoles).map((x) => (x || 0).toString()), total.toString()].join(","));
-    });
-    const csv = rows.join("\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `golf-scorecard-${course.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.csv`;
-    link.click();
-    URL.revokeObjectURL(url);
+    const results = totals.map((t) => ({ net: t.net, points: t.points }));
+    const csv = snapshotToCSV(currentSnapshot(), selectedTee?.name ?? "", results);
+    downloadText(`golf-scorecard-${course.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.csv`, csv, "text/csv;charset=utf-8;");
+  }
+
+  function exportJSON() {
+    const json = JSON.stringify(currentSnapshot(), null, 2);
+    downloadText(`golf-scorecard-${course.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.json`, json, "application/json");
   }
 
-  function importJSON(file: File) {
+  function importFile(file: File) {
+    if (locked) return;
     const reader = new FileReader();
     reader.onload = () => {
-      try {
-        const snap: Snapshot = JSON.parse(String(reader.result));
-        applySnapshot(snap);
-      } catch {
-        alert("Invalid JSON file");
+      const text = String(reader.result);
+      if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+        const { snapshot, errors } = parseCSV(text);
+        if (!snapshot) {
+          alert(t("msg.csvFailed", { errors: errors.join("\n") }));
+          return;
+        }
+        applySnapshot(snapshot, { key: "audit.imported", vars: { name: file.name } });
+        if (errors.length) alert(t("msg.importProblems", { n: errors.length, errors: errors.join("\n") }));
+        return;
       }
+      const { snapshot, errors } = parseSnapshotJSON(text);
+      if (!snapshot) {
+        alert(t("msg.jsonFailed", { errors: errors.join("\n") }));
+        return;
+      }
+      applySnapshot(snapshot, { key: "audit.imported", vars: { name: file.name } });
     };
     reader.readAsText(file);
   }
 
   function shareLink() {
-    const code = encodeState(currentSnapshot());
+    if (!readOnly && !confirmCard(t("msg.shareAction"))) return;
+    encodeShareCode(currentSnapshot()).then(setShareCode, () => alert(t("msg.shareFailed")));
+  }
+
+  // Leave a read-only shared card and keep editing it as your own
+  function makeEditableCopy() {
+    viewOnlyRef.current = false;
+    setReadOnly(false);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(currentSnapshot()));
+    setRoundId("");
     const url = new URL(window.location.href);
-    url.searchParams.set("s", code);
-    const final = url.toString();
-    navigator.clipboard?.writeText(final).then(
-      () => alert("Shareable link copied to clipboard"),
-      () => alert("Shareable link: " + final)
-    );
+    url.searchParams.delete(SHARE_PARAM);
+    url.searchParams.delete(VIEW_PARAM);
+    window.history.replaceState(null, "", url.toString());
   }
 
-  function toggleTimer() {
-    setTimerRunning((r) => !r);
-    if (!timerRunning) {
-      startRef.current = Date.now();
-      setElapsed(0);
-    } else {
-      if (startRef.current != null) {
-        const secs = Math.floor((Date.now() - startRef.current) / 1000);
-        setHoleDurations((d) => {
-          const next = d.slice();
-          next[clamp(currentHole - 1, 0, MAX_HOLES - 1)] += secs;
-          return next;
-        });
-      }
-      startRef.current = null;
+  function startLive({ host, code, kind, relayUrl, name }: LiveStart) {
+    liveRef.current?.close();
+    const session = startLiveSession({
+      code,
+      host,
+      name,
+      transport: kind === "tabs" ? broadcastTransport(code) : relayTransport(relayUrl, code),
+      initial: currentSnapshot(),
+      onSnapshot: (snap) => {
+        // Undo only covers this device's edits since the last remote change
+        setEdits(clearUndo);
+        applySnapshot(snap, undefined, false);
+      },
+      onPeers: setLivePeers,
+    });
+    liveRef.current = session;
+    setLive(session);
+    setLivePeers([]);
+    if (!host) setRoundId("");
+  }
+
+  function leaveLive() {
+    liveRef.current?.close();
+    liveRef.current = null;
+    setLive(null);
+    setLivePeers([]);
+  }
+
+  function startEvent(name: string) {
+    setEvent(createEvent(name, currentSnapshot(), t));
+  }
+
+  // Keeps the open card in sync when the panel moves its start hole
+  function changeEvent(next: GolfEvent) {
+    const active = findGroup(next, next.activeGroup);
+    if (active && active.snapshot.startHole !== startHole) {
+      setStartHole(active.snapshot.startHole);
+      setCurrentHole(active.snapshot.startHole);
     }
+    setEvent(next);
   }
 
+  function addEventGroup() {
+    if (!event) return;
+    const card = currentSnapshot();
+    changeEvent(addGroup(withActiveCard(event, card), card, t));
+  }
+
+  function openGroup(id: string) {
+    if (!event) return;
+    if (live) {
+      if (!confirm(t("msg.leaveLive"))) return;
+      leaveLive();
+    }
+    const next = { ...withActiveCard(event, currentSnapshot()), activeGroup: id };
+    const group = findGroup(next, id);
+    if (!group) return;
+    setEvent(next);
+    // Undo history, the change log and the archive entry belong to the card being closed
+    setEdits(emptyHistory());
+    setRoundId("");
+    setPace((p) => resetPace(p, group.teeTime));
+    applySnapshot(group.snapshot);
+  }
+
+  function removeGroup(id: string) {
+    if (!event) return;
+    const group = findGroup(event, id);
+    if (!group || !confirm(t("msg.removeGroup", { name: group.name }))) return;
+    setEvent({ ...event, groups: event.groups.filter((g) => g.id !== id) });
+  }
+
+  function endEvent() {
+    if (!confirm(t("msg.endEvent"))) return;
+    setEvent(null);
+  }
+
+  function endTournament() {
+    if (!confirm(t("msg.endTournament"))) return;
+    setTournament(null);
+  }
+
+  function toggleTimer() {
+    const at = Date.now();
+    setNow(at);
+    setPace((p) => (isRunning(p) ? pauseClock(p, currentHole - 1, at) : startClock(p, at)));
+  }
+
+  // Steps through holes in play order, so a shotgun group goes 18 -> 1
   function moveHole(delta: number) {
-    setCurrentHole((h) => {
-      const next = clamp(h + delta, 1, numHoles);
-      if (timerRunning && startRef.current != null && next !== h) {
-        const secs = Math.floor((Date.now() - startRef.current) / 1000);
-        setHoleDurations((d) => {
-          const arr = d.slice();
-          arr[h - 1] += secs;
-          return arr;
-        });
-        startRef.current = Date.now();
-        setElapsed(0);
-      }
-      return next;
+    const pos = clamp(holeOrder.indexOf(currentHole - 1) + delta, 0, numHoles - 1);
+    const next = holeOrder[pos] + 1;
+    if (next === currentHole) return;
+    // The clock stamps the hole being left and keeps running on the next
+    setPace((p) => finishHole(p, currentHole - 1, Date.now()));
+    setCurrentHole(next);
+  }
+
+  function setHoleTarget(hole: number, minutes: number) {
+    setPace((p) => {
+      const targets = Array.from({ length: Math.max(p.targets.length, hole + 1) }, (_, h) => p.targets[h] || 0);
+      targets[hole] = clamp(Math.round(minutes) || 0, 0, 60);
+      return { ...p, targets };
     });
   }
 
+  // Undo history is dropped so neither signing nor unlocking can be undone; the change log keeps both
+  function attestCard(player: Signature, marker: Signature) {
+    setEdits((h) => logNote(clearUndo(h), { key: "audit.signed", vars: { player: player.name, marker: marker.name } }));
+    setAttestation(createAttestation(player, marker));
+  }
+
+  function unlockCard(reason: string) {
+    if (!attestation) return;
+    setEdits((h) => logNote(clearUndo(h), { key: "audit.unlocked", vars: { reason: reason.trim() } }));
+    setUnlocks((u) => [...u, unlockRecord(attestation, reason)]);
+    setAttestation(null);
+  }
+
+  async function downloadPdf() {
+    try {
+      const blob = await scorecardPdf({
+        snapshot: currentSnapshot(),
+        teeName: selectedTee?.name ?? "",
+        date: new Date(attestation?.at ?? Date.now()),
+        handicaps,
+        strokes: strokeAllocation,
+      }, t, locale);
+      downloadBlob(`golf-scorecard-${course.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.pdf`, blob);
+    } catch {
+      alert(t("msg.pdfFailed"));
+    }
+  }
+
   function printCard() {
     window.print();
   }
@@ -409,25 +1082,50 @@ export default function Home() {
   }
 
   // Totals and derived
+  const parTotal = pars.slice(0, numHoles).reduce((a, b) => a + b, 0);
+  const holesRated = ratedHoles({ courseId, teeId, numHoles }, allCourses);
+  const handicaps = useMemo(() => {
+    const percent = findAllowance(allowance).percent;
+    const holesRating = rating ? ratingForHoles(rating, holesRated, numHoles) : parTotal;
+    return players.slice(0, numPlayers).map((p) => calcHandicap(p.handicap, slope, holesRating, parTotal, percent, numHoles));
+  }, [players, numPlayers, slope, rating, holesRated, numHoles, parTotal, allowance]);
+  const stablefordTable = useMemo(() => resolvePointsTable(pointsTable, customPoints), [pointsTable, customPoints]);
+  const strokeAllocation = useMemo(
+    () => handicaps.map((c) => allocateStrokes(c.playing, si, numHoles)),
+    [handicaps, si, numHoles]
+  );
+
   const totals = useMemo(() => {
     const outIdx = Math.min(9, numHoles);
-    return players.slice(0, numPlayers).map((p) => {
+    return players.slice(0, numPlayers).map((p, pi) => {
+      const strokes = strokeAllocation[pi];
       const grossOut = p.scores.slice(0, outIdx).reduce((a, b) => a + (b || 0), 0);
       const grossIn = p.scores.slice(outIdx, numHoles).reduce((a, b) => a + (b || 0), 0);
       const gross = grossOut + grossIn;
 
-      // Net using handicap with SI allocation
+      // Net using playing handicap with SI allocation
       let net = 0;
       for (let h = 0; h < numHoles; h++) {
-        const strokes = strokesForHoleFromHandicap(p.handicap, si[h]);
         const g = p.scores[h] || 0;
-        if (g > 0) net += g - strokes;
+        if (g > 0) net += g - strokes[h];
+      }
+
+      // A pick-up is a no return in stroke play; adjusted gross scores it at the cap
+      const noReturn = !!p.pickups?.slice(0, numHoles).some(Boolean);
+      let adjusted: number | null = 0;
+      for (let h = 0; h < numHoles; h++) {
+        const g = p.scores[h] || 0;
+        const pickedUp = !!p.pickups?.[h];
+        if (!g && !pickedUp) continue;
+        const score = adjustedScore(g, pickedUp, holeCap(scoreCap, maxScore, pars[h], strokes[h]));
+        adjusted = adjusted == null || score == null ? null : adjusted + score;
       }
 
-      // Stableford
+      // Stableford: a pick-up scores nothing
       let points = 0;
       for (let h = 0; h < numHoles; h++) {
-        points += stablefordPoints(p.scores[h] || 0, pars[h], strokesForHoleFromHandicap(p.handicap, si[h]));
+        if (p.pickups?.[h]) continue;
+        points += stablefordPoints(p.scores[h] || 0, pars[h], strokes[h], stablefordTable);
       }
 
       // Birdie/Eagle etc counts
@@ -442,9 +1140,59 @@ export default function Home() {
         else if (diff === 1) bogeys++;
       }
 
-      return { grossOut, grossIn, gross, net, points, birdies, eagles, parsC, bogeys };
+      return { grossOut, grossIn, gross, net, noReturn, adjusted, points, birdies, eagles, parsC, bogeys };
     });
-  }, [players, numPlayers, numHoles, pars, si]);
+  }, [players, numPlayers, numHoles, pars, strokeAllocation, stablefordTable, scoreCap, maxScore]);
+
+  const match = useMemo(() => {
+    if (!matchPlay || numPlayers < 2 || handicaps.length < 2) return null;
+    return computeMatch(
+      [players[0].scores, players[1].scores],
+      [handicaps[0].playing, handicaps[1].playing],
+      si,
+      numHoles,
+      playOrder(numHoles, startHole),
+      [players[0].pickups, players[1].pickups]
+    );
+  }, [matchPlay, numPlayers, players, handicaps, si, numHoles, startHole]);
+
+  const teamFormatInfo = findTeamFormat(teamFormat);
+  const teamResults = useMemo(() => {
+    const members = players.slice(0, numPlayers).map((p, i) => ({
+      index: i,
+      scores: p.scores,
+      courseHandicap: handicaps[i]?.course ?? 0,
+      playingHandicap: handicaps[i]?.playing ?? 0,
+    }));
+    return computeTeams(teamFormat, teams, members, teamScores, pars, si, numHoles, useStableford, stablefordTable);
+  }, [teamFormat, teams, players, numPlayers, handicaps, teamScores, pars, si, numHoles, useStableford, stablefordTable]);
+
+  const gamePlayers = useMemo(() => {
+    return players.slice(0, numPlayers).map((p, i) => ({
+      name: p.name,
+      scores: p.scores,
+      strokes: strokeAllocation[i] ?? [],
+      pickups: p.pickups,
+    }));
+  }, [players, numPlayers, strokeAllocation]);
+
+  const detailStats = useMemo(() => {
+    return players.slice(0, numPlayers).map((p) => (p.stats?.some(hasDetail) ? computeDetailStats(p.scores, pars, p.stats, numHoles) : null));
+  }, [players, numPlayers, pars, numHoles]);
+
+  const strokesGained = useMemo(() => {
+    return players.slice(0, numPlayers).map((p) => roundStrokesGained(p, pars, numHoles));
+  }, [players, numPlayers, pars, numHoles]);
+
+  const holeOrder = useMemo(() => playOrder(numHoles, startHole), [numHoles, startHole]);
+  // The tee set's data for a card hole; rounds past 18 replay the course
+  const courseHole = (hole: number) => selectedTee?.holes[(hole - 1) % selectedTee.holes.length];
+  const nextHole = holeOrder[holeOrder.indexOf(currentHole - 1) + 1];
+  // Out, In, Total, Net and Adj columns
+  const totalCols = (numHoles > 9 ? 4 : 3) + (scoreCap !== "none" ? 1 : 0);
+
+  const holeTargets = targetMinutes(pace, pars, numHoles);
+  const paceInfo = paceStatus(pace, pars, numHoles, currentHole, now);
 
   const avgPerHole = useMemo(() => {
     return Array.from({ length: numHoles }, (_, h) => {
@@ -454,6 +1202,18 @@ export default function Home() {
     });
   }, [players, numPlayers, numHoles]);
 
+  // Yardage totals in the chosen unit, converted from the yard sum
+  const distance = (ys: number[]) => formatNumber(prefs.language, toDisplay(ys.reduce((a, b) => a + (b || 0), 0), prefs.units));
+
+  // The event as the panel and group tabs show it, with the open card folded in
+  const eventView = event && withActiveCard(event, currentSnapshot());
+  const cardProblems = readOnly ? [] : checkCard(currentSnapshot(), t);
+
+  // Cards the tournament panel can attach: every event group, or just the open card
+  const tournamentSources: TournamentCard[] = eventView
+    ? eventView.groups.map((g) => ({ id: g.id, label: `${eventView.name} · ${groupLabel(eventView, g, t)}`, snapshot: g.snapshot }))
+    : [{ id: roundId || "open-card", label: "Open card", snapshot: currentSnapshot() }];
+
   // Keyboard navigation among inputs
   function onScoreKeyDown(e: KeyboardEvent<HTMLInputElement>, pi: number, hi: number) {
     const key = e.key;
@@ -463,22 +1223,25 @@ export default function Home() {
       el?.focus();
       el?.select();
     };
+    // Columns are in play order, so step by column position rather than hole number
+    const col = holeOrder.indexOf(hi);
     if (key === "ArrowRight" || (key === "Enter" && !e.shiftKey)) {
       e.preventDefault();
-      const nh = hi + 1;
-      if (nh < numHoles) move(pi, nh);
-      else if (pi + 1 < numPlayers) move(pi + 1, 0);
+      if (col + 1 < numHoles) move(pi, holeOrder[col + 1]);
+      else if (pi + 1 < numPlayers) move(pi + 1, holeOrder[0]);
     } else if (key === "ArrowLeft" || (key === "Enter" && e.shiftKey)) {
       e.preventDefault();
-      const ph = hi - 1;
-      if (ph >= 0) move(pi, ph);
-      else if (pi - 1 >= 0) move(pi - 1, numHoles - 1);
+      if (col > 0) move(pi, holeOrder[col - 1]);
+      else if (pi - 1 >= 0) move(pi - 1, holeOrder[numHoles - 1]);
     } else if (key === "ArrowDown") {
       e.preventDefault();
       if (pi + 1 < numPlayers) move(pi + 1, hi);
     } else if (key === "ArrowUp") {
       e.preventDefault();
       if (pi - 1 >= 0) move(pi - 1, hi);
+    } else if (key === "p" || key === "P") {
+      e.preventDefault();
+      togglePickup(pi, hi);
     }
   }
 
@@ -486,195 +1249,786 @@ export default function Home() {
     <div className="wrapper">
       <header className="toolbar" role="banner">
         <div className="brand">
-          <h1>Golf Scorecard</h1>
-          <span className="subtitle">Universal, up to 4 players · 18 holes</span>
+          <h1>{t("app.title")}</h1>
+          <span className="subtitle">{t("app.subtitle", { players: MAX_PLAYERS, holes: MAX_HOLES })}</span>
         </div>
-        <div className="toolbar-actions" role="group" aria-label="Primary actions">
-          <button className="btn" onClick={resetAll} title="Reset">Reset</button>
-          <button className="btn" onClick={handleUndo} title="Undo" disabled={history.length === 0}>Undo</button>
-          <button className="btn" onClick={handleRedo} title="Redo" disabled={redo.length === 0}>Redo</button>
-          <button className="btn" onClick={exportCSV} title="Export CSV">Export</button>
-          <label className="btn file-input" title="Import JSON">
-            Import
-            <input type="file" accept="application/json" onChange={(e) => {
-              const f = e.target.files?.[0];
-              if (f) importJSON(f);
-            }} />
-          </label>
-          <button className="btn" onClick={shareLink} title="Copy shareable link">Share</button>
-          <button className="btn" onClick={printCard} title="Print">Print</button>
-          <button className="btn" onClick={toggleTheme} title="Toggle theme">Theme</button>
-        </div>
-      </header>
-
-      <section className="controls" aria-label="Configuration">
-        <div className="control">
-          <label htmlFor="course">Course</label>
-          <select id="course" value={course} onChange={(e) => { pushHistory(); setCourse(e.target.value); }}>
-            {KAMLOOPS_COURSES.map((c) => (
-              <option key={c} value={c}>{c}</option>
+        <div className="toolbar-actions" role="group" aria-label={t("toolbar.actions")}>
+          {!readOnly && (
+            <>
+              <button className="btn" onClick={resetAll} title={t("toolbar.reset")} disabled={locked}>{t("toolbar.reset")}</button>
+              <button className="btn" onClick={finishRound} title={t("toolbar.finishTitle")}>{t("toolbar.finish")}</button>
+              <button className="btn" onClick={() => setShowHistory((v) => !v)} title={t("toolbar.historyTitle")}>{t("toolbar.history")}</button>
+              <button className="btn" onClick={toggleRoster} title={t("toolbar.rosterTitle")}>{t("toolbar.roster")}</button>
+              <button className="btn" onClick={() => setShowEvent((v) => !v)} title={t("toolbar.eventTitle")}>{t("toolbar.event")}</button>
+              <button className="btn" onClick={() => setShowTournament((v) => !v)} title={t("toolbar.tournamentTitle")}>{t("toolbar.tournament")}</button>
+              <button className={live ? "btn live-on" : "btn"} onClick={() => setShowLive((v) => !v)} title={t("toolbar.liveTitle")}>{t("toolbar.live")}</button>
+              <button className={locked ? "btn locked-on" : "btn"} onClick={() => setShowAttest((v) => !v)} title={t("toolbar.signTitle")}>
+                {locked ? t("toolbar.signed") : t("toolbar.sign")}
+              </button>
+              <button className="btn" onClick={handleUndo} title={t("toolbar.undo")} disabled={edits.undo.length === 0 || locked}>{t("toolbar.undo")}</button>
+              <button className="btn" onClick={handleRedo} title={t("toolbar.redo")} disabled={edits.redo.length === 0 || locked}>{t("toolbar.redo")}</button>
+              <button className="btn" onClick={() => setShowLog((v) => !v)} title={t("toolbar.logTitle")}>{t("toolbar.log")}</button>
+              <button className={cardProblems.length ? "btn warn-on" : "btn"} onClick={() => setShowCheck((v) => !v)} title={t("toolbar.checkTitle")}>
+                {t("toolbar.check")}{cardProblems.length ? ` (${cardProblems.length})` : ""}
+              </button>
+            </>
+          )}
+          <button className="btn" onClick={exportCSV} title={t("toolbar.exportCsv")}>{t("toolbar.exportCsv")}</button>
+          <button className="btn" onClick={exportJSON} title={t("toolbar.exportJsonTitle")}>{t("toolbar.exportJson")}</button>
+          {!readOnly && (
+            <label className={locked ? "btn file-input disabled" : "btn file-input"} title={t("toolbar.importTitle")}>
+              {t("toolbar.import")}
+              <input type="file" accept="application/json,.json,text/csv,.csv" disabled={locked} onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) importFile(f);
+                e.target.value = "";
+              }} />
+            </label>
+          )}
+          <button className="btn" onClick={shareLink} title={t("toolbar.shareTitle")}>{t("toolbar.share")}</button>
+          <button className="btn" onClick={printCard} title={t("toolbar.print")}>{t("toolbar.print")}</button>
+          <button className="btn" onClick={toggleTheme} title={t("toolbar.themeTitle")}>{t("toolbar.theme")}</button>
+          <select aria-label={t("prefs.language")} value={prefs.language} onChange={(e) => setPrefs((p) => ({ ...p, language: findLanguage(e.target.value) }))}>
+            {LANGUAGES.map((l) => (
+              <option key={l.id} value={l.id}>{l.label}</option>
+            ))}
+          </select>
+          <select aria-label={t("prefs.units")} value={prefs.units} onChange={(e) => setPrefs((p) => ({ ...p, units: findDistanceUnit(e.target.value).id }))}>
+            {DISTANCE_UNITS.map((u) => (
+              <option key={u.id} value={u.id}>{optionLabel(t, "units", u.id, u.label)}</option>
             ))}
           </select>
         </div>
-        <div className="control">
-          <label htmlFor="players">Players</label>
-          <input id="players" type="number" min={1} max={MAX_PLAYERS} value={numPlayers} onChange={(e) => handlePlayersChange(Number(e.target.value))} />
-        </div>
-        <div className="control">
-          <label htmlFor="holes">Holes</label>
-          <input id="holes" type="number" min={1} max={MAX_HOLES} value={numHoles} onChange={(e) => handleHolesChange(Number(e.target.value))} />
-        </div>
-        <div className="control">
-          <label className="checkbox">
-            <input type="checkbox" checked={useStableford} onChange={(e) => { pushHistory(); setUseStableford(e.target.checked); }} />
-            Stableford points
-          </label>
-        </div>
-        <div className="control hole-nav">
-          <button className="btn ghost" onClick={() => moveHole(-1)} disabled={currentHole <= 1}>Prev</button>
-          <span>Hole {currentHole}</span>
-          <button className="btn ghost" onClick={() => moveHole(1)} disabled={currentHole >= numHoles}>Next</button>
-        </div>
-        <div className="control timer">
-          <button className="btn" onClick={toggleTimer}>{timerRunning ? "Pause" : "Start"} Timer</button>
-          <span aria-live="polite" className="mono">{Math.floor(elapsed / 60)}:{String(elapsed % 60).padStart(2, "0")}</span>
-        </div>
-      </section>
-
-      <div className="table-wrapper">
-        <table className="golf" role="table">
-          <thead>
-            <tr>
-              <th className="sticky">Player</th>
-              {Array.from({ length: numHoles }, (_, i) => (
-                <th key={`h${i}`} className={i + 1 === currentHole ? "highlight" : undefined}>H{i + 1}</th>
+      </header>
+
+      {applyUpdate && (
+        <p className="update-banner" role="status">
+          {t("banner.update")}
+          <span className="editor-row">
+            <button className="btn" onClick={applyUpdate}>{t("banner.updateNow")}</button>
+            <button className="btn ghost" onClick={() => setApplyUpdate(null)}>{t("banner.later")}</button>
+          </span>
+        </p>
+      )}
+
+      {readOnly && (
+        <p className="read-only-banner" role="status">
+          {t("banner.readOnly")}
+          <button className="btn" onClick={makeEditableCopy}>{t("banner.editCopy")}</button>
+        </p>
+      )}
+
+      {locked && !readOnly && (
+        <p className="locked-banner" role="status">
+          {t("banner.locked", { player: attestation.player.name, marker: attestation.marker.name })}
+          <button className="btn" onClick={() => setShowAttest(true)}>{t("banner.unlock")}</button>
+        </p>
+      )}
+
+      {live && (
+        <p className="live-bar" role="status" aria-live="polite">
+          <span className="live-dot" aria-hidden="true" />
+          <strong>{t("live.code", { code: live.code })}</strong>
+          <span className="chip">{t("live.you")}{live.host ? ` ${t("live.host")}` : ""} · {t("table.hole", { n: currentHole })}</span>
+          {livePeers.map((p) => (
+            <span key={p.id} className="chip">{p.name || t("live.guest")}{p.host ? ` ${t("live.host")}` : ""} · {t("table.hole", { n: p.hole })}</span>
+          ))}
+          {livePeers.length === 0 && <span className="muted">{t("live.waiting")}</span>}
+        </p>
+      )}
+
+      {paceInfo.alert && !readOnly && (
+        <p className="pace-alert" role="alert">
+          {t("pace.alert", { time: formatDuration(paceInfo.behind) })}
+          {paceInfo.projectedFinish != null && <> {t("pace.alertFinish", { time: formatClock(paceInfo.projectedFinish, locale) })}</>}
+        </p>
+      )}
+
+      {showLive && !readOnly && (
+        <LivePanel active={live} onStart={startLive} onLeave={leaveLive} onClose={() => setShowLive(false)} t={t} />
+      )}
+
+      {shareCode != null && <ShareDialog code={shareCode} onClose={() => setShareCode(null)} t={t} />}
+
+      {showAttest && !readOnly && (
+        <AttestPanel
+          players={players.slice(0, numPlayers).map((p) => p.name)}
+          attestation={attestation}
+          unlocks={unlocks}
+          onAttest={attestCard}
+          onUnlock={unlockCard}
+          onPdf={downloadPdf}
+          onClose={() => setShowAttest(false)}
+          locale={locale}
+          t={t}
+        />
+      )}
+
+      {showLog && !readOnly && <AuditLog log={edits.log} onClose={() => setShowLog(false)} locale={locale} t={t} />}
+
+      {showCheck && !readOnly && <CardCheck problems={cardProblems} onClose={() => setShowCheck(false)} t={t} />}
+
+      {showEvent && (
+        <EventPanel
+          event={eventView}
+          onCreate={startEvent}
+          onChange={changeEvent}
+          onAddGroup={addEventGroup}
+          onOpenGroup={openGroup}
+          onRemoveGroup={removeGroup}
+          onEnd={endEvent}
+          onClose={() => setShowEvent(false)}
+          t={t}
+        />
+      )}
+
+      {showTournament && (
+        <TournamentPanel
+          tournament={tournament}
+          sources={tournamentSources}
+          courses={allCourses}
+          onCreate={(name) => setTournament(createTournament(name, t))}
+          onChange={setTournament}
+          onEnd={endTournament}
+          onClose={() => setShowTournament(false)}
+          locale={locale}
+          t={t}
+        />
+      )}
+
+      {!readOnly && eventView && eventView.groups.length > 1 && (
+        <nav className="group-tabs" aria-label={t("event.groups")}>
+          <strong>{eventView.name}</strong>
+          {eventView.groups.map((g) => (
+            <button key={g.id} className={g.id === eventView.activeGroup ? "btn group-tab active" : "btn ghost group-tab"}
+              aria-current={g.id === eventView.activeGroup ? "true" : undefined} onClick={() => g.id !== eventView.activeGroup && openGroup(g.id)}>
+              {groupLabel(eventView, g, t)}
+            </button>
+          ))}
+        </nav>
+      )}
+
+      {showHistory && (
+        <RoundHistory
+          currentId={roundId}
+          locked={locked}
+          onOpen={openRound}
+          onDuplicate={duplicateRound}
+          onClose={() => setShowHistory(false)}
+          locale={locale}
+          t={t}
+        />
+      )}
+
+      <fieldset className="read-only-fence" disabled={readOnly || locked}>
+        <section className="controls" aria-label={t("controls.label")}>
+          <div className="control">
+            <label htmlFor="course">{t("controls.course")}</label>
+            <select id="course" value={courseId} onChange={(e) => selectCourse(findCourse(allCourses, e.target.value))}>
+              <option value="">{t("controls.manualCourse", { name: MANUAL_COURSE })}</option>
+              <optgroup label={t("controls.catalogRegion")}>
+                {COURSE_CATALOG.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </optgroup>
+              {customCourses.length > 0 && (
+                <optgroup label={t("controls.myCourses")}>
+                  {customCourses.map((c) => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <button className="btn ghost" onClick={() => setEditingCourse(selectedCourse?.custom ? selectedCourse.id : "")} title={t("controls.editCoursesTitle")}>
+              {t("controls.editCourses")}
+            </button>
+          </div>
+          {selectedCourse && (
+            <div className="control">
+              <label htmlFor="tee">{t("controls.tee")}</label>
+              <select id="tee" value={teeId} onChange={(e) => selectTee(e.target.value)}>
+                {selectedCourse.tees.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name} · {formatNumber(prefs.language, t.rating, 1)}/{t.slope}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {!selectedCourse && (
+            <div className="control">
+              <label htmlFor="rating">{t("controls.ratingSlope")}</label>
+              <input id="rating" type="number" step={0.1} min={0} value={rating || ""} placeholder={String(parTotal)}
+                onChange={(e) => setSetting("rating", { key: "audit.rating" }, rating, roundTenth(Number(e.target.value)), setRating)} />
+              <input aria-label={t("controls.slope")} type="number" min={55} max={155} value={slope}
+                onChange={(e) => setSetting("slope", { key: "controls.slope" }, slope, clamp(Math.round(Number(e.target.value)), 55, 155), setSlope)} />
+            </div>
+          )}
+          <div className="control">
+            <label htmlFor="allowance">{t("controls.allowance")}</label>
+            <select id="allowance" value={allowance} onChange={(e) => setSetting("allowance", { key: "controls.allowance" }, allowance, e.target.value, setAllowance)}>
+              {ALLOWANCES.map((a) => (
+                <option key={a.id} value={a.id}>{optionLabel(t, "allowance", a.id, a.label)}</option>
               ))}
-              <th>Out</th>
-              {numHoles > 9 && <th>In</th>}
-              <th>Total</th>
-              <th>Net</th>
-              {useStableford && <th>Pts</th>}
-            </tr>
-            <tr className="subhead">
-              <th className="sticky">Par / SI</th>
-              {Array.from({ length: numHoles }, (_, i) => (
-                <th key={`p${i}`} className={i + 1 === currentHole ? "highlight" : undefined}>
-                  <div className="par-si">
-                    <input aria-label={`Par for hole ${i + 1}`} type="number" min={3} max={6} value={pars[i]}
-                      onChange={(e) => setPar(i, Number(e.target.value))} />
-                    <input aria-label={`Stroke index for hole ${i + 1}`} type="number" min={1} max={numHoles} value={si[i]}
-                      onChange={(e) => setSI(i, Number(e.target.value))} />
-                  </div>
-                </th>
+            </select>
+          </div>
+          <div className="control">
+            <label htmlFor="players">{t("controls.players")}</label>
+            <input id="players" type="number" min={1} max={MAX_PLAYERS} value={numPlayers} onChange={(e) => handlePlayersChange(Number(e.target.value))} />
+          </div>
+          <div className="control">
+            <label htmlFor="holes">{t("controls.holes")}</label>
+            <input id="holes" type="number" min={1} max={MAX_HOLES} value={numHoles} onChange={(e) => handleHolesChange(Number(e.target.value))} />
+          </div>
+          <div className="control">
+            <label htmlFor="start-hole" title={t("controls.startHoleTitle")}>{t("controls.startHole")}</label>
+            <input id="start-hole" type="number" min={1} max={numHoles} value={startHole} onChange={(e) => changeStartHole(Number(e.target.value))} />
+          </div>
+          <div className="control">
+            <label className="checkbox">
+              <input type="checkbox" checked={useStableford} onChange={(e) => setSetting("useStableford", { key: "controls.stableford" }, useStableford, e.target.checked, setUseStableford)} />
+              {t("controls.stableford")}
+            </label>
+            {useStableford && (
+              <select aria-label={t("controls.pointsTable")} value={pointsTable} onChange={(e) => setSetting("pointsTable", { key: "controls.pointsTable" }, pointsTable, e.target.value, setPointsTable)}>
+                {POINTS_TABLES.map((pt) => (
+                  <option key={pt.id} value={pt.id}>{optionLabel(t, "pointsTable", pt.id, pt.label)}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          {useStableford && pointsTable === CUSTOM_POINTS_ID && (
+            <div className="control custom-points">
+              {POINTS_LABELS.map((label, i) => (
+                <label key={label} title={t("controls.pointsFor", { result: optionLabel(t, "points", i, label).toLowerCase() })}>
+                  {optionLabel(t, "points", i, label)}
+                  <input type="number" step={1} min={-10} max={10} value={customPoints[i]} onChange={(e) => setCustomPoint(i, Number(e.target.value))} />
+                </label>
               ))}
-              <th className="muted">—</th>
-              {numHoles > 9 && <th className="muted">—</th>}
-              <th className="muted">—</th>
-              <th className="muted">—</th>
-              {useStableford && <th className="muted">—</th>}
-            </tr>
-          </thead>
-          <tbody>
-            {players.slice(0, numPlayers).map((p, pi) => (
-              <tr key={pi}>
-                <th className="sticky player-cell">
-                  <input className="player-name" value={p.name} onChange={(e) => setName(pi, e.target.value)} aria-label={`Name for player ${pi + 1}`} />
-                  <div className="handicap">
-                    <label>Hcp</label>
-                    <input type="number" min={0} max={54} value={p.handicap} onChange={(e) => setHandicap(pi, Number(e.target.value))} aria-label={`Handicap for ${p.name}`} />
-                  </div>
-                </th>
-                {Array.from({ length: numHoles }, (_, hi) => (
-                  <td key={hi} className={hi + 1 === currentHole ? "highlight" : undefined}>
-                    <input
-                      id={`score-p${pi}-h${hi}`}
-                      inputMode="numeric"
-                      pattern="[0-9]*"
-                      aria-label={`Score for ${p.name} on hole ${hi + 1}`}
-                      type="number"
-                      min={0}
-                      max={20}
-                      value={p.scores[hi] || 0}
-                      onKeyDown={(e) => onScoreKeyDown(e, pi, hi)}
-                      onChange={(e) => setScore(pi, hi, Number(e.target.value))}
-                    />
-                  </td>
+            </div>
+          )}
+          <div className="control">
+            <label htmlFor="score-cap" title={t("controls.scoreCapTitle")}>{t("controls.scoreCap")}</label>
+            <select id="score-cap" value={scoreCap} onChange={(e) => setSetting("scoreCap", { key: "controls.scoreCap" }, scoreCap, e.target.value, setScoreCap)}>
+              {SCORE_CAPS.map((c) => (
+                <option key={c.id} value={c.id}>{optionLabel(t, "scoreCap", c.id, c.label)}</option>
+              ))}
+            </select>
+            {scoreCap === "max" && (
+              <input aria-label={t("controls.maxScore")} type="number" min={1} max={20} value={maxScore}
+                onChange={(e) => setSetting("maxScore", { key: "controls.maxScore" }, maxScore, clamp(Math.round(Number(e.target.value)) || 1, 1, 20), setMaxScore)} />
+            )}
+          </div>
+          <div className="control">
+            <label htmlFor="team-format">{t("controls.format")}</label>
+            <select id="team-format" value={teamFormat} onChange={(e) => changeTeamFormat(e.target.value)}>
+              {TEAM_FORMATS.map((f) => (
+                <option key={f.id} value={f.id}>{optionLabel(t, "teamFormat", f.id, f.label)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="control">
+            <label className="checkbox" title={numPlayers < 2 ? t("controls.matchNeedsTwo") : t("controls.matchTitle")}>
+              <input type="checkbox" checked={matchPlay} disabled={numPlayers < 2} onChange={(e) => toggleMatchPlay(e.target.checked)} />
+              {t("controls.matchPlay")}
+            </label>
+          </div>
+          <div className="control">
+            <label className="checkbox">
+              <input type="checkbox" checked={showDetail} onChange={(e) => setShowDetail(e.target.checked)} />
+              {t("controls.holeDetails")}
+            </label>
+          </div>
+          <div className="control">
+            <label className="checkbox" title={t("controls.holeViewTitle")}>
+              <input type="checkbox" checked={holeView} onChange={(e) => setHoleView(e.target.checked)} />
+              {t("controls.holeView")}
+            </label>
+          </div>
+          <div className="control">
+            <label className="checkbox" title={t("controls.gpsTitle")}>
+              <input type="checkbox" checked={gps} onChange={(e) => setGps(e.target.checked)} />
+              {t("controls.gps")}
+            </label>
+          </div>
+          <div className="control">
+            <label className="checkbox" title={t("controls.shotsTitle")}>
+              <input type="checkbox" checked={shotLog} onChange={(e) => setShotLog(e.target.checked)} />
+              {t("controls.shots")}
+            </label>
+          </div>
+          <div className="control hole-nav">
+            <button className="btn ghost" onClick={() => moveHole(-1)} disabled={currentHole - 1 === holeOrder[0]}>{t("controls.prev")}</button>
+            <span>{t("controls.hole", { n: currentHole })}</span>
+            <button className="btn ghost" onClick={() => moveHole(1)} disabled={currentHole - 1 === holeOrder[numHoles - 1]}>{t("controls.next")}</button>
+          </div>
+          <div className="control timer">
+            <button className="btn" onClick={toggleTimer}>{timerRunning ? t("controls.pauseTimer") : t("controls.startTimer")}</button>
+            <span aria-live="polite" className="mono">{formatDuration(holeElapsed(pace, currentHole - 1, now))}</span>
+          </div>
+        </section>
+
+        {showRoster && (
+          <RosterPanel
+            roster={roster}
+            inRound={players.slice(0, numPlayers).flatMap((p) => (p.id ? [p.id] : []))}
+            teeNames={selectedCourse?.tees.map((t) => t.name) ?? []}
+            rounds={savedRounds}
+            courses={allCourses}
+            onChange={saveRosterList}
+            onAdd={addFromRoster}
+            onClose={() => setShowRoster(false)}
+            locale={locale}
+            t={t}
+          />
+        )}
+
+        {editingCourse != null && (
+          <CourseEditor
+            courses={customCourses}
+            initialId={editingCourse}
+            units={prefs.units}
+            location={DEVICE_LOCATION}
+            onChange={saveCourses}
+            onUse={(c) => {
+              selectCourse(c);
+              setEditingCourse(null);
+            }}
+            onClose={() => setEditingCourse(null)}
+            t={t}
+          />
+        )}
+
+        {gps && !readOnly && (
+          <GpsPanel
+            provider={DEVICE_LOCATION}
+            hole={currentHole}
+            green={courseHole(currentHole)?.green}
+            nextTee={nextHole != null ? courseHole(nextHole + 1)?.tee : undefined}
+            units={prefs.units}
+            autoAdvance={prefs.autoAdvance}
+            onAutoAdvanceChange={(on) => setPrefs((p) => ({ ...p, autoAdvance: on }))}
+            onNextTee={() => moveHole(1)}
+            t={t}
+          />
+        )}
+
+        {shotLog && !readOnly && (
+          <ShotLog
+            players={players.slice(0, numPlayers)}
+            hole={currentHole}
+            pars={pars}
+            numHoles={numHoles}
+            yards={yards[currentHole - 1] || 0}
+            units={prefs.units}
+            locked={locked}
+            roundId={roundId}
+            onChange={(pi, shots) => setShots(pi, currentHole - 1, shots)}
+            onSetScore={(pi, score) => setScore(pi, currentHole - 1, score)}
+            t={t}
+          />
+        )}
+
+        {holeView && !readOnly && !locked && (
+          <HoleEntry
+            key={currentHole}
+            hole={currentHole}
+            par={pars[currentHole - 1]}
+            si={si[currentHole - 1]}
+            yards={yards[currentHole - 1] || 0}
+            units={prefs.units}
+            players={players.slice(0, numPlayers).map((p, pi) => ({
+              name: p.name,
+              score: p.scores[currentHole - 1] || 0,
+              strokes: strokeAllocation[pi]?.[currentHole - 1] ?? 0,
+              pickedUp: !!p.pickups?.[currentHole - 1],
+            }))}
+            last={currentHole - 1 === holeOrder[numHoles - 1]}
+            onSave={saveHole}
+            onPrev={() => moveHole(-1)}
+            onNext={() => moveHole(1)}
+            t={t}
+          />
+        )}
+
+        <div className="table-wrapper">
+          <table className="golf" role="table">
+            <thead>
+              <tr>
+                <th className="sticky">{t("table.player")}</th>
+                {holeOrder.map((i) => (
+                  <th key={`h${i}`} className={i + 1 === currentHole ? "highlight" : undefined}>{t("table.hole", { n: i + 1 })}</th>
                 ))}
-                <td className="mono">{totals[pi]?.grossOut ?? 0}</td>
-                {numHoles > 9 && <td className="mono">{totals[pi]?.grossIn ?? 0}</td>}
-                <td className="mono strong">{totals[pi]?.gross ?? 0}</td>
-                <td className="mono">{totals[pi]?.net ?? 0}</td>
-                {useStableford && <td className="mono">{totals[pi]?.points ?? 0}</td>}
+                <th>{t("table.out")}</th>
+                {numHoles > 9 && <th>{numHoles > 18 ? t("table.inRange", { n: numHoles }) : t("table.in")}</th>}
+                <th>{t("table.total")}</th>
+                <th>{t("table.net")}</th>
+                {scoreCap !== "none" && <th title={optionLabel(t, "scoreCap", scoreCap, findScoreCap(scoreCap).label)}>{t("table.adjusted")}</th>}
+                {useStableford && <th>{t("table.points")}</th>}
               </tr>
-            ))}
+              <tr className="subhead">
+                <th className="sticky">{t("table.parSi")}</th>
+                {holeOrder.map((i) => (
+                  <th key={`p${i}`} className={i + 1 === currentHole ? "highlight" : undefined}>
+                    <div className="par-si">
+                      <input aria-label={t("table.parFor", { n: i + 1 })} type="number" min={3} max={6} value={pars[i]}
+                        onChange={(e) => setPar(i, Number(e.target.value))} />
+                      <input aria-label={t("table.siFor", { n: i + 1 })} type="number" min={1} max={Math.max(18, numHoles)} value={si[i]}
+                        onChange={(e) => setSI(i, Number(e.target.value))} />
+                    </div>
+                  </th>
+                ))}
+                <th className="muted">—</th>
+                {numHoles > 9 && <th className="muted">—</th>}
+                <th className="muted">—</th>
+                <th className="muted">—</th>
+                {scoreCap !== "none" && <th className="muted">—</th>}
+                {useStableford && <th className="muted">—</th>}
+              </tr>
+              {yards.length > 0 && (
+                <tr className="subhead">
+                  <th className="sticky">{optionLabel(t, "units", prefs.units, findDistanceUnit(prefs.units).label)}{selectedTee ? ` (${selectedTee.name})` : ""}</th>
+                  {holeOrder.map((i) => (
+                    <th key={`y${i}`} className={i + 1 === currentHole ? "highlight" : undefined}>{yards[i] ? toDisplay(yards[i], prefs.units) : ""}</th>
+                  ))}
+                  <th className="mono">{distance(yards.slice(0, Math.min(9, numHoles)))}</th>
+                  {numHoles > 9 && <th className="mono">{distance(yards.slice(9, numHoles))}</th>}
+                  <th className="mono">{distance(yards.slice(0, numHoles))}</th>
+                  <th className="muted">—</th>
+                  {scoreCap !== "none" && <th className="muted">—</th>}
+                  {useStableford && <th className="muted">—</th>}
+                </tr>
+              )}
+            </thead>
+            <tbody>
+              {players.slice(0, numPlayers).map((p, pi) => (
+                <Fragment key={pi}>
+                  <tr>
+                    <th className="sticky player-cell">
+                      <input className="player-name" value={p.name} onChange={(e) => setName(pi, e.target.value)} aria-label={t("table.nameFor", { n: pi + 1 })} />
+                      {(roster.length > 0 || !p.id) && (
+                        <div className="roster-pick">
+                          <select aria-label={t("table.rosterFor", { n: pi + 1 })} value={p.id ?? ""}
+                            onChange={(e) => fillFromRoster(pi, roster.find((g) => g.id === e.target.value))}>
+                            <option value="">{p.id ? t("table.unlink") : t("table.fromRoster")}</option>
+                            {roster.map((g) => (
+                              <option key={g.id} value={g.id}>
+                                {g.name}{g.preferredTee ? ` (${g.preferredTee})` : ""}
+                              </option>
+                            ))}
+                          </select>
+                          {!p.id && <button className="btn ghost" onClick={() => addRowToRoster(pi)} title={t("table.saveGolferTitle")}>{t("table.saveGolfer")}</button>}
+                        </div>
+                      )}
+                      <div className="handicap">
+                        <label title={t("table.handicapIndex")}>{t("table.hi")}</label>
+                        <input type="number" min={MIN_HANDICAP_INDEX} max={MAX_HANDICAP_INDEX} step={0.1} value={p.handicap} title={t("table.plusTitle")} onChange={(e) => setHandicap(pi, Number(e.target.value))} aria-label={t("table.handicapFor", { name: p.name })} />
+                        {handicaps[pi] && (
+                          <span className="mono" title={describeHandicap(handicaps[pi])}>
+                            {t("table.courseAndPlaying", { course: formatIndex(handicaps[pi].course), playing: formatIndex(handicaps[pi].playing) })}
+                          </span>
+                        )}
+                      </div>
+                      {teamFormat !== "none" && (
+                        <select className="team-pick" aria-label={t("table.teamFor", { name: p.name })} value={teams[pi] ?? 0}
+                          onChange={(e) => setTeam(pi, Number(e.target.value))}>
+                          {TEAM_NAMES.slice(0, numPlayers).map((name, ti) => (
+                            <option key={name} value={ti}>{optionLabel(t, "team", ti, name)}</option>
+                          ))}
+                        </select>
+                      )}
+                    </th>
+                    {holeOrder.map((hi) => (
+                      <td key={hi} className={[hi + 1 === currentHole && "highlight", p.pickups?.[hi] && "picked-up"].filter(Boolean).join(" ") || undefined}>
+                        {match?.receiver === pi && match.allocation[hi] > 0 && (
+                          <span className="stroke-dot" title={t("table.receivesStroke")} aria-hidden="true">•</span>
+                        )}
+                        <input
+                          id={`score-p${pi}-h${hi}`}
+                          inputMode="numeric"
+                          pattern="[0-9]*"
+                          aria-label={t(p.pickups?.[hi] ? "table.scoreForPickedUp" : "table.scoreFor", { name: p.name, n: hi + 1 })}
+                          title={t("table.pickupHint")}
+                          type="number"
+                          min={0}
+                          max={20}
+                          value={p.pickups?.[hi] ? "" : p.scores[hi] || 0}
+                          placeholder={p.pickups?.[hi] ? t("table.pickup") : undefined}
+                          onKeyDown={(e) => onScoreKeyDown(e, pi, hi)}
+                          onChange={(e) => setScore(pi, hi, Number(e.target.value))}
+                        />
+                      </td>
+                    ))}
+                    <td className="mono">{totals[pi]?.grossOut ?? 0}</td>
+                    {numHoles > 9 && <td className="mono">{totals[pi]?.grossIn ?? 0}</td>}
+                    <td className="mono strong" title={totals[pi]?.noReturn ? t("table.noReturnTitle") : undefined}>
+                      {totals[pi]?.noReturn ? t("table.noReturn") : totals[pi]?.gross ?? 0}
+                    </td>
+                    <td className="mono">{totals[pi]?.noReturn ? t("table.noReturn") : totals[pi]?.net ?? 0}</td>
+                    {scoreCap !== "none" && <td className="mono">{totals[pi]?.adjusted ?? t("table.noReturn")}</td>}
+                    {useStableford && <td className="mono">{totals[pi]?.points ?? 0}</td>}
+                  </tr>
+                  {showDetail && (
+                    <tr className="detail-row">
+                      <th className="sticky muted">{t("table.detail")}</th>
+                      {holeOrder.map((hi) => {
+                        const st = p.stats?.[hi] ?? emptyHoleStat();
+                        const gir = isGIR(p.scores[hi] || 0, pars[hi], st.putts);
+                        return (
+                          <td key={hi} className={hi + 1 === currentHole ? "highlight" : undefined}>
+                            <div className="hole-detail">
+                              <input type="number" min={0} max={10} aria-label={t("table.puttsFor", { name: p.name, n: hi + 1 })}
+                                value={st.putts ?? ""} placeholder={t("table.putts")}
+                                onChange={(e) => setHoleStat(pi, hi, { putts: e.target.value === "" ? null : clamp(Math.round(Number(e.target.value)), 0, 10) })} />
+                              {pars[hi] >= 4 ? (
+                                <select aria-label={t("table.fairwayFor", { name: p.name, n: hi + 1 })} value={st.fairway}
+                                  onChange={(e) => setHoleStat(pi, hi, { fairway: e.target.value as Fairway })}>
+                                  <option value="">{t("table.fairway")}</option>
+                                  <option value="hit">{t("table.fairwayHit")}</option>
+                                  <option value="left">{t("table.fairwayLeft")}</option>
+                                  <option value="right">{t("table.fairwayRight")}</option>
+                                </select>
+                              ) : (
+                                <span className="muted">—</span>
+                              )}
+                              <input type="number" min={0} max={10} aria-label={t("table.penaltiesFor", { name: p.name, n: hi + 1 })}
+                                value={st.penalties || ""} placeholder={t("table.penalties")}
+                                onChange={(e) => setHoleStat(pi, hi, { penalties: clamp(Math.round(Number(e.target.value)), 0, 10) })} />
+                              <input type="number" min={0} max={10} aria-label={t("table.sandFor", { name: p.name, n: hi + 1 })}
+                                value={st.sand || ""} placeholder={t("table.sand")}
+                                onChange={(e) => setHoleStat(pi, hi, { sand: clamp(Math.round(Number(e.target.value)), 0, 10) })} />
+                              {gir != null && <span className={gir ? "gir hit" : "gir"}>{gir ? t("table.gir") : t("table.noGir")}</span>}
+                            </div>
+                          </td>
+                        );
+                      })}
+                      <td colSpan={totalCols} className="muted">—</td>
+                      {useStableford && <td className="muted">—</td>}
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+
+              {/* Match play rows: hole winner and running status */}
+              {match && (
+                <>
+                  <tr className="match-row">
+                    <th className="sticky">{t("table.match")}</th>
+                    {holeOrder.map((hi) => {
+                      const mh = match.holes[hi];
+                      return (
+                        <td key={`m${hi}`} className={hi + 1 === currentHole ? "highlight" : undefined}>
+                          {mh ? (mh.winner == null ? "½" : initialsFor(players[mh.winner].name)) : ""}
+                        </td>
+                      );
+                    })}
+                    <td colSpan={totalCols} className="mono strong">
+                      {match.up === 0 ? matchResult(match, t) : `${initialsFor(players[match.up > 0 ? 0 : 1].name)} ${matchResult(match, t)}`}
+                    </td>
+                    {useStableford && <td className="muted">—</td>}
+                  </tr>
+                  <tr className="match-row">
+                    <th className="sticky">{t("table.status")}</th>
+                    {holeOrder.map((hi) => {
+                      const mh = match.holes[hi];
+                      return (
+                        <td key={`ms${hi}`} className={hi + 1 === currentHole ? "highlight mono" : "mono"}>
+                          {mh
+                            ? mh.up === 0
+                              ? statusLabel(0, mh.remaining, t)
+                              : `${initialsFor(players[mh.up > 0 ? 0 : 1].name)} ${statusLabel(mh.up, mh.remaining, t)}`
+                            : ""}
+                        </td>
+                      );
+                    })}
+                    <td colSpan={totalCols} className="muted">{match.closed ? t("table.final") : t("table.thru", { n: match.played })}</td>
+                    {useStableford && <td className="muted">—</td>}
+                  </tr>
+                </>
+              )}
 
-            {/* Averages row */}
-            <tr className="summary">
-              <th className="sticky">Avg / hole</th>
-              {avgPerHole.map((v, i) => (
-                <td key={`avg${i}`} className={i + 1 === currentHole ? "highlight" : undefined}>{v || ""}</td>
+              {/* Team rows: better ball is derived, shared-ball formats take one score per hole */}
+              {teamResults.map((team) => (
+                <tr key={`team${team.team}`} className="team-row">
+                  <th className="sticky">
+                    {optionLabel(t, "team", team.team, team.name)}
+                    <span className="muted"> {team.members.map((i) => initialsFor(players[i].name)).join(" & ")}</span>
+                    {teamFormatInfo.sharedBall && (
+                      <div className="muted mono" title={describeTeamHandicap(teamFormat, team.members.length)}>{t("table.teamHandicap", { n: team.handicap })}</div>
+                    )}
+                  </th>
+                  {holeOrder.map((hi) => (
+                    <td key={hi} className={hi + 1 === currentHole ? "highlight" : undefined}>
+                      {teamFormatInfo.sharedBall ? (
+                        <input
+                          aria-label={t("table.teamScoreFor", { team: optionLabel(t, "team", team.team, team.name), n: hi + 1 })}
+                          inputMode="numeric"
+                          type="number"
+                          min={0}
+                          max={20}
+                          value={teamScores[team.team]?.[hi] || 0}
+                          onChange={(e) => setTeamScore(team.team, hi, Number(e.target.value))}
+                        />
+                      ) : (
+                        <span className="mono" title={team.counted[hi] != null ? t("table.ballOf", { name: players[team.counted[hi]].name }) : undefined}>
+                          {team.counted[hi] != null ? team.holes[hi] : ""}
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="muted">—</td>
+                  {numHoles > 9 && <td className="muted">—</td>}
+                  <td className="mono strong">{team.gross}</td>
+                  <td className="mono">{team.net}</td>
+                  {scoreCap !== "none" && <td className="muted">—</td>}
+                  {useStableford && <td className="mono">{team.points}</td>}
+                </tr>
               ))}
-              <td colSpan={numHoles > 9 ? 4 : 3} className="muted">—</td>
-              {useStableford && <td className="muted">—</td>}
-            </tr>
-          </tbody>
-        </table>
-      </div>
-
-      <section className="badges" aria-label="Player stats">
-        {players.slice(0, numPlayers).map((p, i) => (
-          <div key={i} className="card">
-            <div className="card-title">{p.name}</div>
+
+              {/* Averages row */}
+              <tr className="summary">
+                <th className="sticky">{t("table.average")}</th>
+                {holeOrder.map((i) => (
+                  <td key={`avg${i}`} className={i + 1 === currentHole ? "highlight" : undefined}>{avgPerHole[i] ? formatNumber(prefs.language, avgPerHole[i], 1) : ""}</td>
+                ))}
+                <td colSpan={totalCols} className="muted">—</td>
+                {useStableford && <td className="muted">—</td>}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <section className="badges" aria-label={t("stats.players")}>
+          {players.slice(0, numPlayers).map((p, i) => {
+            const d = detailStats[i];
+            return (
+              <div key={i} className="card">
+                <div className="card-title">{p.name}</div>
+                <div className="card-body">
+                  {handicaps[i] && (
+                    <div className="stat"><span>{t("stats.playingHandicap")}</span><strong>{handicaps[i].playing}</strong></div>
+                  )}
+                  {handicaps[i] && <div className="calc muted mono">{describeHandicap(handicaps[i])}</div>}
+                  {match && i < 2 && (
+                    <div className="stat">
+                      <span>{match.receiver === i ? t("stats.matchReceives", { n: match.strokesGiven }) : t("stats.match")}</span>
+                      <strong>{describeMatch(match, i as 0 | 1, t)}</strong>
+                    </div>
+                  )}
+                  <div className="stat"><span>{t("stats.birdies")}</span><strong>{totals[i]?.birdies ?? 0}</strong></div>
+                  <div className="stat"><span>{t("stats.eagles")}</span><strong>{totals[i]?.eagles ?? 0}</strong></div>
+                  <div className="stat"><span>{t("stats.pars")}</span><strong>{totals[i]?.parsC ?? 0}</strong></div>
+                  <div className="stat"><span>{t("stats.bogeys")}</span><strong>{totals[i]?.bogeys ?? 0}</strong></div>
+                  {useStableford && <div className="stat"><span>{t("stats.points")}</span><strong>{totals[i]?.points ?? 0}</strong></div>}
+                  {d && (
+                    <>
+                      <div className="stat"><span>{t("stats.fairways")}</span><strong>{pct(d.fairways, d.fairwayChances)} <small className="muted">{d.fairways}/{d.fairwayChances}</small></strong></div>
+                      <div className="stat"><span>{t("stats.greens")}</span><strong>{pct(d.gir, d.girChances)} <small className="muted">{d.gir}/{d.girChances}</small></strong></div>
+                      <div className="stat"><span>{t("stats.putts")}</span><strong>{d.putts} <small className="muted">{t("stats.perHole", { n: d.puttHoles ? formatNumber(prefs.language, d.putts / d.puttHoles, 1) : "—" })}</small></strong></div>
+                      <div className="stat"><span>{t("stats.scrambling")}</span><strong>{pct(d.scrambles, d.scrambleChances)}</strong></div>
+                      <div className="stat"><span>{t("stats.sandSaves")}</span><strong>{pct(d.sandSaves, d.sandChances)} <small className="muted">{d.sandSaves}/{d.sandChances}</small></strong></div>
+                      <div className="stat"><span>{t("stats.penalties")}</span><strong>{d.penalties}</strong></div>
+                    </>
+                  )}
+                  {strokesGained[i] && (
+                    <div className="stat"><span>{t("stats.strokesGained")}</span><strong className="mono">{formatStrokesGained(strokesGained[i].total)}</strong></div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </section>
+
+        {teamResults.length > 0 && (
+          <section className="badges" aria-label={t("stats.teams")}>
+            {teamResults.map((team) => (
+              <div key={team.team} className="card">
+                <div className="card-title">{optionLabel(t, "team", team.team, team.name)} · {optionLabel(t, "teamFormat", teamFormatInfo.id, teamFormatInfo.label)}</div>
+                <div className="card-body">
+                  <div className="muted">{team.members.map((i) => players[i].name).join(" & ")}</div>
+                  {teamFormatInfo.sharedBall && (
+                    <div className="stat"><span>{t("stats.teamHandicap", { how: describeTeamHandicap(teamFormat, team.members.length) })}</span><strong>{team.handicap}</strong></div>
+                  )}
+                  <div className="stat"><span>{t("stats.gross")}</span><strong>{team.gross}</strong></div>
+                  <div className="stat"><span>{t("stats.net")}</span><strong>{team.net}</strong></div>
+                  {useStableford && <div className="stat"><span>{t("stats.points")}</span><strong>{team.points}</strong></div>}
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
+        <SideGames
+          config={sideGames}
+          players={gamePlayers}
+          numHoles={numHoles}
+          holeOrder={holeOrder}
+          currentHole={currentHole}
+          onChange={changeSideGames}
+          t={t}
+        />
+
+        <section className="pace" aria-label={t("pace.label")}>
+          <div className="card">
+            <div className="card-title">{t("pace.title")}</div>
             <div className="card-body">
-              <div className="stat"><span>Birdies</span><strong>{totals[i]?.birdies ?? 0}</strong></div>
-              <div className="stat"><span>Eagles</span><strong>{totals[i]?.eagles ?? 0}</strong></div>
-              <div className="stat"><span>Pars</span><strong>{totals[i]?.parsC ?? 0}</strong></div>
-              <div className="stat"><span>Bogeys</span><strong>{totals[i]?.bogeys ?? 0}</strong></div>
-              {useStableford && <div className="stat"><span>Points</span><strong>{totals[i]?.points ?? 0}</strong></div>}
-            </div>
-          </div>
-        ))}
-      </section>
-
-      <section className="pace" aria-label="Pace of play">
-        <div className="card">
-          <div className="card-title">Pace</div>
-          <div className="card-body">
-            <div className="stat"><span>Timer</span><strong>{Math.floor(elapsed / 60)}:{String(elapsed % 60).padStart(2, "0")}</strong></div>
-            <div className="hole-times">
-              {holeDurations.slice(0, numHoles).map((sec, i) => (
-                <div key={i} className="chip">H{i + 1}: {Math.floor(sec / 60)}:{String(sec % 60).padStart(2, "0")}</div>
-              ))}
+              <div className="editor-row">
+                <label>
+                  {t("pace.teeTime")}
+                  <input type="time" value={pace.teeTime} onChange={(e) => setPace((p) => ({ ...p, teeTime: e.target.value }))} />
+                </label>
+                <label title={t("pace.alertAfterTitle")}>
+                  {t("pace.alertAfter")}
+                  <input type="number" min={1} max={60} value={pace.alertMinutes}
+                    onChange={(e) => setPace((p) => ({ ...p, alertMinutes: clamp(Math.round(Number(e.target.value)) || 1, 1, 60) }))} />
+                  {t("pace.minutes")}
+                </label>
+              </div>
+              <div className="stat"><span>{t("pace.thisHole")}</span><strong className="mono">{formatDuration(holeElapsed(pace, currentHole - 1, now))} / {holeTargets[currentHole - 1]}:00</strong></div>
+              <div className="stat">
+                <span>{paceInfo.behind > 0 ? t("pace.behind") : t("pace.ahead")}</span>
+                <strong className={paceInfo.alert ? "mono pace-behind" : "mono"}>
+                  {pace.startedAt == null ? "—" : formatDuration(paceInfo.behind)}
+                </strong>
+              </div>
+              <div className="stat"><span>{t("pace.targetRound")}</span><strong className="mono">{formatDuration(holeTargets.reduce((a, b) => a + b, 0) * 60)}</strong></div>
+              {paceInfo.scheduledFinish != null && (
+                <div className="stat"><span>{t("pace.scheduledFinish")}</span><strong className="mono">{formatClock(paceInfo.scheduledFinish, locale)}</strong></div>
+              )}
+              {paceInfo.projectedFinish != null && (
+                <div className="stat"><span>{t("pace.projectedFinish")}</span><strong className="mono">{formatClock(paceInfo.projectedFinish, locale)}</strong></div>
+              )}
+              <div className="hole-times">
+                {holeOrder.map((h) => (
+                  <div key={h} className={pace.holeEnds[h] ? "chip" : "chip muted"}
+                    title={pace.holeEnds[h] ? t("pace.finishedAt", { time: formatClock(pace.holeEnds[h], locale) }) : t("pace.notFinished")}>
+                    {t("table.hole", { n: h + 1 })}: {formatDuration(h === currentHole - 1 ? holeElapsed(pace, h, now) : pace.durations[h])}
+                    <span className="muted"> / {t("pace.targetMinutes", { n: holeTargets[h] })}</span>
+                  </div>
+                ))}
+              </div>
+              <button className="btn ghost" onClick={() => setShowTargets((v) => !v)}>{showTargets ? t("pace.hideTargets") : t("pace.editTargets")}</button>
+              {showTargets && (
+                <div className="editor-row pace-targets">
+                  {holeOrder.map((h) => (
+                    <label key={h} title={t("pace.parDefault", { par: pars[h], n: parTarget(pars[h]) })}>
+                      {t("table.hole", { n: h + 1 })}
+                      <input type="number" min={1} max={60} value={holeTargets[h]} onChange={(e) => setHoleTarget(h, Number(e.target.value))} />
+                    </label>
+                  ))}
+                  <button className="btn ghost" onClick={() => setPace((p) => ({ ...p, targets: [] }))}>{t("pace.parDefaults")}</button>
+                </div>
+              )}
             </div>
           </div>
-        </div>
-      </section>
+        </section>
+      </fieldset>
 
       <footer className="footer" role="contentinfo">
         <details>
-          <summary>Features</summary>
+          <summary>{t("footer.features")}</summary>
           <ul>
-            <li>Up to 4 players, 18 holes</li>
-            <li>Editable player names</li>
-            <li>Per-player handicap with SI allocation</li>
-            <li>Editable par and stroke index per hole</li>
-            <li>Gross, Out/Back, Total, Net totals</li>
-            <li>Stableford points (toggle)</li>
-            <li>Birdie/Eagle/Par/Bogey counters</li>
-            <li>Average per hole row</li>
-            <li>Current hole highlight + navigation</li>
-            <li>Keyboard navigation across inputs</li>
-            <li>Local storage autosave</li>
-            <li>Share via URL</li>
-            <li>Export CSV</li>
-            <li>Import JSON</li>
-            <li>Undo/Redo</li>
-            <li>Reset/clear</li>
-            <li>Pace timer and per-hole durations</li>
-            <li>Print-friendly layout</li>
-            <li>Sticky headers and first column</li>
-            <li>Dark theme toggle</li>
-            <li>Course selector for Kamloops, BC</li>
+            {FEATURES[prefs.language].map((f) => (
+              <li key={f}>{f}</li>
+            ))}
           </ul>
         </details>
       </footer>
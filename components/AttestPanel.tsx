@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import SignaturePad from "@/components/SignaturePad";
+import { isSigned } from "@/lib/attest";
+import type { Attestation, Signature, Unlock } from "@/lib/attest";
+import type { Translate } from "@/lib/i18n";
+
+type Props = {
+  players: string[]; // names on the card
+  attestation: Attestation | null;
+  unlocks: Unlock[];
+  onAttest: (player: Signature, marker: Signature) => void;
+  onUnlock: (reason: string) => void;
+  onPdf: () => void;
+  onClose: () => void;
+  locale: string;
+  t: Translate;
+};
+
+export default function AttestPanel({ players, attestation, unlocks, onAttest, onUnlock, onPdf, onClose, locale, t }: Props) {
+  const [player, setPlayer] = useState<Signature>({ name: players[0] ?? "", strokes: [] });
+  const [marker, setMarker] = useState<Signature>({ name: players[1] ?? "", strokes: [] });
+  const [reason, setReason] = useState("");
+
+  return (
+    <section className="card attest" aria-label={t("attest.label")}>
+      <div className="card-title editor-title">
+        <span>{t(attestation ? "attest.signedTitle" : "attest.label")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        {attestation ? (
+          <>
+            <p>
+              {t("attest.signedBy", {
+                player: attestation.player.name,
+                marker: attestation.marker.name,
+                date: new Date(attestation.at).toLocaleString(locale),
+              })}
+            </p>
+            <div className="editor-row">
+              <button className="btn" onClick={onPdf}>{t("attest.pdf")}</button>
+            </div>
+            <p className="muted">{t("attest.unlockHelp")}</p>
+            <div className="editor-row">
+              <input aria-label={t("attest.reason")} placeholder={t("attest.reasonPlaceholder")} value={reason}
+                onChange={(e) => setReason(e.target.value)} />
+              <button className="btn ghost" onClick={() => onUnlock(reason)} disabled={!reason.trim()}>{t("attest.unlock")}</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="muted">{t("attest.intro")}</p>
+            <div className="editor-row">
+              <label>
+                {t("attest.player")}
+                <select value={player.name} onChange={(e) => setPlayer({ ...player, name: e.target.value })}>
+                  {players.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                {t("attest.marker")}
+                <input list="attest-markers" value={marker.name} onChange={(e) => setMarker({ ...marker, name: e.target.value.slice(0, 40) })} />
+              </label>
+              <datalist id="attest-markers">
+                {players.filter((name) => name !== player.name).map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="signatures">
+              <SignaturePad label={t("attest.player")} strokes={player.strokes} onChange={(strokes) => setPlayer({ ...player, strokes })} t={t} />
+              <SignaturePad label={t("attest.marker")} strokes={marker.strokes} onChange={(strokes) => setMarker({ ...marker, strokes })} t={t} />
+            </div>
+            <div className="editor-row">
+              <button className="btn" onClick={() => onAttest(player, marker)} disabled={!isSigned(player) || !isSigned(marker)}>
+                {t("attest.sign")}
+              </button>
+              <button className="btn ghost" onClick={onPdf}>{t("attest.unsignedPdf")}</button>
+            </div>
+          </>
+        )}
+        {unlocks.length > 0 && (
+          <ul className="muted unlock-log">
+            {unlocks.map((u) => (
+              <li key={u.at}>{t("attest.unlocked", { date: new Date(u.at).toLocaleString(locale), reason: u.reason })}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
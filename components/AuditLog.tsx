@@ -0,0 +1,40 @@
+"use client";
+
+import { formatMessage } from "@/lib/i18n";
+import type { Translate } from "@/lib/i18n";
+import type { AuditEntry } from "@/lib/undo";
+
+type Props = {
+  log: AuditEntry[];
+  onClose: () => void;
+  locale: string;
+  t: Translate;
+};
+
+// Every change to the card on this device, newest first, for settling disputes
+export default function AuditLog({ log, onClose, locale, t }: Props) {
+  return (
+    <section className="card audit" aria-label={t("audit.label")}>
+      <div className="card-title editor-title">
+        <span>{t("audit.label")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        {log.length === 0 ? (
+          <p className="muted">{t("audit.empty")}</p>
+        ) : (
+          <ol className="audit-list" reversed>
+            {log.slice().reverse().map((entry, i) => (
+              <li key={log.length - i}>
+                <time className="mono muted" dateTime={new Date(entry.at).toISOString()}>
+                  {new Date(entry.at).toLocaleTimeString(locale, { hour: "2-digit", minute: "2-digit" })}
+                </time>{" "}
+                {formatMessage(t, entry.text)}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </section>
+  );
+}
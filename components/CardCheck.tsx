@@ -0,0 +1,31 @@
+"use client";
+
+import type { Translate } from "@/lib/i18n";
+
+type Props = {
+  problems: string[];
+  onClose: () => void;
+  t: Translate;
+};
+
+export default function CardCheck({ problems, onClose, t }: Props) {
+  return (
+    <section className="card card-check" aria-label={t("check.label")}>
+      <div className="card-title editor-title">
+        <span>{t("check.label")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        {problems.length === 0 ? (
+          <p className="muted">{t("check.ok")}</p>
+        ) : (
+          <ul className="card-problems">
+            {problems.map((p) => (
+              <li key={p}>{p}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,322 @@
+"use client";
+
+import { useState } from "react";
+import {
+  blankCourse,
+  blankTee,
+  parseCourses,
+  slugify,
+  teeYards,
+  validateCourse,
+} from "@/lib/courses";
+import type { Course, Tee } from "@/lib/courses";
+import { downloadText } from "@/lib/download";
+import { currentFix, formatLatLng, parseLatLngText } from "@/lib/geo";
+import type { LatLng, LocationProvider } from "@/lib/geo";
+import { optionLabel } from "@/lib/i18n";
+import type { Translate } from "@/lib/i18n";
+import { findDistanceUnit, fromDisplay, toDisplay } from "@/lib/units";
+import type { DistanceUnit } from "@/lib/units";
+
+type GpsPoint = "tee" | "front" | "centre" | "back";
+
+const GPS_POINTS: { id: GpsPoint; label: string }[] = [
+  { id: "tee", label: "Tee" },
+  { id: "front", label: "Green front" },
+  { id: "centre", label: "Green centre" },
+  { id: "back", label: "Green back" },
+];
+
+type Props = {
+  courses: Course[]; // saved custom courses
+  initialId?: string;
+  units: DistanceUnit; // distances are edited in these and saved in yards
+  location: LocationProvider; // for marking tees and greens while standing on them
+  onChange: (courses: Course[]) => void;
+  onUse: (course: Course) => void;
+  onClose: () => void;
+  t: Translate;
+};
+
+function clone(c: Course): Course {
+  return JSON.parse(JSON.stringify(c));
+}
+
+export default function CourseEditor({ courses, initialId, units, location, onChange, onUse, onClose, t }: Props) {
+  const [draft, setDraft] = useState<Course>(() => {
+    const existing = courses.find((c) => c.id === initialId);
+    return existing ? clone(existing) : blankCourse();
+  });
+  const [teeIdx, setTeeIdx] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [gpsHole, setGpsHole] = useState(0);
+
+  const tee = draft.tees[teeIdx] ?? draft.tees[0];
+  const isSaved = courses.some((c) => c.id === draft.id);
+  const unit = findDistanceUnit(units);
+
+  function edit(fn: (c: Course) => void) {
+    setDraft((d) => {
+      const next = clone(d);
+      fn(next);
+      return next;
+    });
+    setErrors([]);
+  }
+
+  function editTee(fn: (t: Tee) => void) {
+    edit((c) => fn(c.tees[teeIdx]));
+  }
+
+  function editHole(hi: number, field: "par" | "si" | "yards", val: number) {
+    editTee((t) => {
+      t.holes[hi][field] = field === "yards" ? fromDisplay(val, units) : Math.round(val);
+    });
+  }
+
+  // The tee box belongs to this tee set; one green serves every tee set
+  function setPoint(hi: number, point: GpsPoint, p: LatLng | undefined) {
+    if (point !== "centre" && point !== "tee" && p && !tee?.holes[hi]?.green) {
+      setErrors([t("editor.greenFirst", { n: hi + 1 })]);
+      return;
+    }
+    edit((c) => {
+      if (point === "tee") {
+        c.tees[teeIdx].holes[hi].tee = p;
+        return;
+      }
+      c.tees.forEach((t) => {
+        const h = t.holes[hi];
+        if (!h) return;
+        if (point === "centre") h.green = p ? { ...h.green, centre: p } : undefined;
+        else if (h.green) h.green[point] = p;
+      });
+    });
+  }
+
+  function typePoint(hi: number, point: GpsPoint, text: string) {
+    const p = parseLatLngText(text);
+    if (text.trim() && !p) {
+      setErrors([t("editor.notLatLng", { n: hi + 1, text: text.trim() })]);
+      return;
+    }
+    setPoint(hi, point, p);
+  }
+
+  function markHere(hi: number, point: GpsPoint) {
+    currentFix(location).then(
+      (f) => setPoint(hi, point, { lat: f.lat, lng: f.lng }),
+      () => setErrors([t("editor.noFix")])
+    );
+  }
+
+  function setHoleCount(n: number) {
+    const count = Math.max(1, Math.min(18, Math.round(n) || 1));
+    editTee((t) => {
+      t.holes = t.holes.slice(0, count).concat(blankTee(count).holes.slice(t.holes.length));
+    });
+  }
+
+  function addTee() {
+    edit((c) => {
+      const t = blankTee(tee?.holes.length ?? 18, `Tee ${c.tees.length + 1}`);
+      // Copy par, SI and greens from the current tee; only yardage and the tee box usually differ
+      t.holes = t.holes.map((h, i) => ({ ...h, par: tee?.holes[i]?.par ?? h.par, si: tee?.holes[i]?.si ?? h.si, green: tee?.holes[i]?.green }));
+      t.id = `${t.id}-${Date.now().toString(36)}`;
+      c.tees.push(t);
+    });
+    setTeeIdx(draft.tees.length);
+  }
+
+  function removeTee() {
+    if (draft.tees.length <= 1) return;
+    edit((c) => {
+      c.tees.splice(teeIdx, 1);
+    });
+    setTeeIdx(0);
+  }
+
+  function openCourse(id: string) {
+    const c = courses.find((x) => x.id === id);
+    setDraft(c ? clone(c) : blankCourse());
+    setTeeIdx(0);
+    setErrors([]);
+  }
+
+  function save(): Course | null {
+    const problems = validateCourse(draft);
+    if (problems.length) {
+      setErrors(problems);
+      return null;
+    }
+    const saved = { ...draft, custom: true };
+    onChange(isSaved ? courses.map((c) => (c.id === saved.id ? saved : c)) : [...courses, saved]);
+    return saved;
+  }
+
+  function remove() {
+    if (!isSaved || !confirm(t("editor.confirmDelete", { name: draft.name }))) return;
+    onChange(courses.filter((c) => c.id !== draft.id));
+    openCourse("");
+  }
+
+  function exportCourses(list: Course[], name: string) {
+    downloadText(`${slugify(name) || "courses"}.json`, JSON.stringify(list, null, 2), "application/json");
+  }
+
+  function importFile(file: File) {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const imported = parseCourses(String(reader.result));
+        const ids = new Set(imported.map((c) => c.id));
+        onChange([...courses.filter((c) => !ids.has(c.id)), ...imported]);
+        setDraft(clone(imported[0]));
+        setTeeIdx(0);
+        setErrors([]);
+      } catch (err) {
+        setErrors([(err as Error).message]);
+      }
+    };
+    reader.readAsText(file);
+  }
+
+  return (
+    <section className="card editor" aria-label={t("editor.label")}>
+      <div className="card-title editor-title">
+        <span>{t("editor.label")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        <div className="editor-row">
+          <select aria-label={t("editor.saved")} value={isSaved ? draft.id : ""} onChange={(e) => openCourse(e.target.value)}>
+            <option value="">{t("editor.new")}</option>
+            {courses.map((c) => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+          <label className="btn file-input" title={t("editor.importTitle")}>
+            {t("editor.import")}
+            <input type="file" accept="application/json" onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) importFile(f);
+              e.target.value = "";
+            }} />
+          </label>
+          <button className="btn" onClick={() => exportCourses([draft], draft.name)}>{t("editor.export")}</button>
+          <button className="btn" onClick={() => exportCourses(courses, "my-courses")} disabled={courses.length === 0}>{t("editor.exportAll")}</button>
+        </div>
+
+        <div className="editor-row">
+          <label>
+            {t("editor.name")}
+            <input value={draft.name} onChange={(e) => edit((c) => { c.name = e.target.value.slice(0, 60); })} />
+          </label>
+          <label>
+            {t("editor.location")}
+            <input value={draft.location ?? ""} onChange={(e) => edit((c) => { c.location = e.target.value.slice(0, 60); })} />
+          </label>
+        </div>
+
+        <div className="editor-row" role="group" aria-label={t("editor.tees")}>
+          {draft.tees.map((x, i) => (
+            <button key={x.id} className={i === teeIdx ? "btn" : "btn ghost"} onClick={() => setTeeIdx(i)}>{x.name || t("editor.unnamed")}</button>
+          ))}
+          <button className="btn ghost" onClick={addTee}>{t("editor.addTee")}</button>
+          <button className="btn ghost" onClick={removeTee} disabled={draft.tees.length <= 1}>{t("editor.removeTee")}</button>
+        </div>
+
+        {tee && (
+          <>
+            <div className="editor-row">
+              <label>
+                {t("editor.tee")}
+                <input value={tee.name} onChange={(e) => editTee((t) => { t.name = e.target.value.slice(0, 20); })} />
+              </label>
+              <label>
+                {t("editor.rating")}
+                <input type="number" step={0.1} value={tee.rating} onChange={(e) => editTee((t) => { t.rating = Number(e.target.value); })} />
+              </label>
+              <label>
+                {t("editor.slope")}
+                <input type="number" min={55} max={155} value={tee.slope} onChange={(e) => editTee((t) => { t.slope = Math.round(Number(e.target.value)); })} />
+              </label>
+              <label>
+                {t("editor.holes")}
+                <input type="number" min={1} max={18} value={tee.holes.length} onChange={(e) => setHoleCount(Number(e.target.value))} />
+              </label>
+              <span className="muted">{toDisplay(teeYards(tee), units)} {t(units === "m" ? "units.mShort" : "units.ydShort")}</span>
+            </div>
+
+            <div className="table-wrapper">
+              <table className="golf">
+                <thead>
+                  <tr>
+                    <th className="sticky">{t("editor.hole")}</th>
+                    {tee.holes.map((_, i) => <th key={i}>{i + 1}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {(["par", "si", "yards"] as const).map((field) => (
+                    <tr key={field}>
+                      <th className="sticky">{field === "si" ? t("editor.si") : field === "par" ? t("editor.par") : optionLabel(t, "units", units, unit.label)}</th>
+                      {tee.holes.map((h, hi) => (
+                        <td key={hi}>
+                          <input
+                            type="number"
+                            aria-label={t(field === "par" ? "table.parFor" : field === "si" ? "table.siFor" : "editor.distanceFor", { n: hi + 1 })}
+                            min={field === "par" ? 3 : field === "si" ? 1 : 0}
+                            max={field === "par" ? 6 : field === "si" ? tee.holes.length : 999}
+                            value={field === "yards" ? toDisplay(h.yards, units) : h[field]}
+                            onChange={(e) => editHole(hi, field, Number(e.target.value))}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="editor-row" role="group" aria-label={t("editor.gps")}>
+              <label>
+                {t("editor.gpsFor")}
+                <select value={Math.min(gpsHole, tee.holes.length - 1)} onChange={(e) => setGpsHole(Number(e.target.value))}>
+                  {tee.holes.map((_, i) => <option key={i} value={i}>{i + 1}</option>)}
+                </select>
+              </label>
+              {GPS_POINTS.map(({ id, label }) => {
+                const hi = Math.min(gpsHole, tee.holes.length - 1);
+                const h = tee.holes[hi];
+                const value = formatLatLng(id === "tee" ? h.tee : h.green?.[id]);
+                return (
+                  <label key={id}>
+                    {optionLabel(t, "gpsPoint", id, label)}
+                    <input key={`${teeIdx}-${hi}-${value}`} className="gps-point" defaultValue={value} placeholder="lat, lng"
+                      onBlur={(e) => e.target.value !== value && typePoint(hi, id, e.target.value)} />
+                    <button className="btn ghost" onClick={() => markHere(hi, id)} title={t("editor.hereTitle")}>{t("editor.here")}</button>
+                  </label>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="editor-errors" role="alert">
+            {errors.map((e, i) => <li key={i}>{e}</li>)}
+          </ul>
+        )}
+
+        <div className="editor-row">
+          <button className="btn" onClick={save}>{t("editor.save")}</button>
+          <button className="btn" onClick={() => {
+            const saved = save();
+            if (saved) onUse(saved);
+          }}>{t("editor.saveUse")}</button>
+          <button className="btn ghost" onClick={remove} disabled={!isSaved}>{t("editor.delete")}</button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { groupLabel, setStartMode, totalPlayers } from "@/lib/events";
+import type { EventGroup, GolfEvent, StartMode } from "@/lib/events";
+import type { Translate } from "@/lib/i18n";
+
+type Props = {
+  event: GolfEvent | null; // with the open card folded in
+  onCreate: (name: string) => void;
+  onChange: (event: GolfEvent) => void;
+  onAddGroup: () => void;
+  onOpenGroup: (id: string) => void;
+  onRemoveGroup: (id: string) => void;
+  onEnd: () => void;
+  onClose: () => void;
+  t: Translate;
+};
+
+export default function EventPanel({ event, onCreate, onChange, onAddGroup, onOpenGroup, onRemoveGroup, onEnd, onClose, t }: Props) {
+  const [name, setName] = useState("");
+
+  function updateGroup(id: string, patch: Partial<EventGroup>) {
+    if (!event) return;
+    onChange({ ...event, groups: event.groups.map((g) => (g.id === id ? { ...g, ...patch } : g)) });
+  }
+
+  function setStartHole(g: EventGroup, hole: number) {
+    const startHole = Math.max(1, Math.min(g.snapshot.numHoles, Math.round(hole) || 1));
+    updateGroup(g.id, { snapshot: { ...g.snapshot, startHole } });
+  }
+
+  return (
+    <section className="card event" aria-label={t("event.label")}>
+      <div className="card-title editor-title">
+        <span>{t("event.label")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        {!event ? (
+          <>
+            <p className="muted">{t("event.intro")}</p>
+            <div className="editor-row">
+              <input aria-label={t("event.name")} placeholder={t("event.namePlaceholder")} value={name} onChange={(e) => setName(e.target.value)} />
+              <button className="btn" onClick={() => onCreate(name)}>{t("event.create")}</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="editor-row">
+              <input aria-label={t("event.name")} value={event.name} onChange={(e) => onChange({ ...event, name: e.target.value.slice(0, 60) })} />
+              <input type="date" aria-label={t("event.date")} value={event.date} onChange={(e) => onChange({ ...event, date: e.target.value })} />
+              <select aria-label={t("event.start")} value={event.start} onChange={(e) => onChange(setStartMode(event, e.target.value as StartMode))}>
+                <option value="tee-times">{t("event.teeTimes")}</option>
+                <option value="shotgun">{t("event.shotgun")}</option>
+              </select>
+              {event.start === "shotgun" && (
+                <button className="btn ghost" onClick={() => onChange(setStartMode(event, "shotgun"))} title={t("event.reassignTitle")}>
+                  {t("event.reassign")}
+                </button>
+              )}
+              <span className="muted">{t("event.summary", { groups: event.groups.length, players: totalPlayers(event) })}</span>
+            </div>
+            <ul className="history-list">
+              {event.groups.map((g) => (
+                <li key={g.id} className={g.id === event.activeGroup ? "history-item highlight" : "history-item"}>
+                  <div className="editor-row">
+                    <input aria-label={t("event.groupName")} className="group-name" value={g.name}
+                      onChange={(e) => updateGroup(g.id, { name: e.target.value.slice(0, 20) })} />
+                    {event.start === "tee-times" ? (
+                      <input type="time" aria-label={t("event.teeTimeFor", { name: g.name })} value={g.teeTime}
+                        onChange={(e) => updateGroup(g.id, { teeTime: e.target.value })} />
+                    ) : (
+                      <label>
+                        {t("event.hole")}
+                        <input type="number" min={1} max={g.snapshot.numHoles} value={g.snapshot.startHole}
+                          onChange={(e) => setStartHole(g, Number(e.target.value))} />
+                      </label>
+                    )}
+                    <span className="muted">
+                      {groupLabel(event, g, t)} · {g.snapshot.players.slice(0, g.snapshot.numPlayers).map((p) => p.name).join(", ")}
+                    </span>
+                  </div>
+                  <div className="editor-row">
+                    <button className="btn" onClick={() => onOpenGroup(g.id)} disabled={g.id === event.activeGroup}>
+                      {g.id === event.activeGroup ? t("event.open") : t("event.openCard")}
+                    </button>
+                    <button className="btn ghost" onClick={() => onRemoveGroup(g.id)} disabled={g.id === event.activeGroup}>{t("event.remove")}</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="editor-row">
+              <button className="btn" onClick={onAddGroup}>{t("event.addGroup")}</button>
+              <button className="btn ghost" onClick={onEnd}>{t("event.end")}</button>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { greenDistances, onTee } from "@/lib/geo";
+import type { Fix, Green, LatLng, LocationError, LocationProvider } from "@/lib/geo";
+import type { Translate } from "@/lib/i18n";
+import { fromMetres } from "@/lib/units";
+import type { DistanceUnit } from "@/lib/units";
+
+type Props = {
+  provider: LocationProvider;
+  hole: number; // 1-based, the hole being played
+  green?: Green;
+  nextTee?: LatLng; // tee of the next hole in play order
+  units: DistanceUnit;
+  autoAdvance: boolean;
+  onAutoAdvanceChange: (on: boolean) => void;
+  onNextTee: () => void;
+  t: Translate;
+};
+
+// Live distances to the current green; optionally moves on when the group reaches the next tee
+export default function GpsPanel({ provider, hole, green, nextTee, units, autoAdvance, onAutoAdvanceChange, onNextTee, t }: Props) {
+  const [fix, setFix] = useState<Fix | null>(null);
+  const [error, setError] = useState<LocationError | null>(null);
+  // Hole already left by walking onto the next tee, so stepping back to it by hand sticks
+  const advancedFrom = useRef(0);
+
+  useEffect(
+    () =>
+      provider.watch(
+        (f) => {
+          setFix(f);
+          setError(null);
+        },
+        setError
+      ),
+    [provider]
+  );
+
+  useEffect(() => {
+    if (!fix || !autoAdvance || !nextTee || advancedFrom.current === hole || !onTee(fix, nextTee)) return;
+    advancedFrom.current = hole;
+    onNextTee();
+  }, [fix, autoAdvance, nextTee, hole, onNextTee]);
+
+  const unit = t(units === "m" ? "units.mShort" : "units.ydShort");
+  const show = (metres: number | null) => (metres == null ? "—" : `${fromMetres(metres, units)} ${unit}`);
+  const d = fix && green ? greenDistances(fix, green) : null;
+
+  return (
+    <section className="card gps" aria-label={t("gps.label")}>
+      <div className="card-title">{t("gps.title", { n: hole })}</div>
+      <div className="card-body">
+        {error ? (
+          <p className="muted" role="alert">{t(`gps.${error}`)}</p>
+        ) : !green ? (
+          <p className="muted">{t("gps.noGreen")}</p>
+        ) : !d ? (
+          <p className="muted">{t("gps.waiting")}</p>
+        ) : (
+          <div className="gps-distances" aria-live="polite">
+            <div><span className="muted">{t("gps.front")}</span><strong className="mono">{show(d.front)}</strong></div>
+            <div className="gps-centre"><span className="muted">{t("gps.centre")}</span><strong className="mono">{show(d.centre)}</strong></div>
+            <div><span className="muted">{t("gps.back")}</span><strong className="mono">{show(d.back)}</strong></div>
+          </div>
+        )}
+        {fix && !error && (
+          <div className="muted">{t("gps.accuracy", { n: fromMetres(fix.accuracy, units), unit })}</div>
+        )}
+        <label className="checkbox" title={t("gps.autoAdvanceTitle")}>
+          <input type="checkbox" checked={autoAdvance} onChange={(e) => onAutoAdvanceChange(e.target.checked)} />
+          {t("gps.autoAdvance")}
+        </label>
+      </div>
+    </section>
+  );
+}
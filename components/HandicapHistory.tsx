@@ -0,0 +1,77 @@
+"use client";
+
+import { formatIndex } from "@/lib/handicap";
+import { RECORD_SIZE, describeRevision } from "@/lib/handicapindex";
+import type { HandicapRecord, ScoreRecord } from "@/lib/handicapindex";
+import type { Translate } from "@/lib/i18n";
+
+type Props = {
+  name: string;
+  record: HandicapRecord;
+  locale: string;
+  t: Translate;
+};
+
+function holesLabel(r: ScoreRecord): string {
+  return r.scores.map((s) => s.holes).join(" + ");
+}
+
+// A golfer's scoring record: the latest 20 differentials, the ones counting and the caps
+export default function HandicapHistory({ name, record, locale, t }: Props) {
+  const { records, current, pendingNine } = record;
+  const first = Math.max(0, records.length - RECORD_SIZE);
+  const latest = records.slice(first).map((r, i) => ({ r, at: i + first })).reverse();
+  const counted = new Set(current?.counted ?? []);
+
+  return (
+    <div className="handicap-history" aria-label={t("record.label", { name })}>
+      <div className="stat">
+        <span>{t("record.fromRounds")}</span>
+        <strong className="mono">{describeRevision(current, t)}</strong>
+      </div>
+      {current?.index != null && (
+        <div className="muted">
+          {t("record.best", { n: current.counted.length, total: Math.min(records.length, RECORD_SIZE) })}
+          {current.calculated != null && current.cap && t("record.beforeCap", { index: formatIndex(current.calculated), cap: t(`record.${current.cap}Cap`) })}
+          {current.low != null && t("record.low", { index: formatIndex(current.low) })}
+        </div>
+      )}
+      {records.length < 3 && <p className="muted">{t("record.needScores")}</p>}
+      {pendingNine && (
+        <p className="muted">
+          {t("record.pendingNine", { course: pendingNine.course, date: new Date(pendingNine.date).toLocaleDateString(locale) })}
+        </p>
+      )}
+      {latest.length > 0 && (
+        <div className="table-wrapper">
+          <table className="golf">
+            <thead>
+              <tr>
+                <th>{t("record.date")}</th>
+                <th>{t("record.course")}</th>
+                <th>{t("record.holes")}</th>
+                <th>{t("record.adjGross")}</th>
+                <th>{t("controls.ratingSlope")}</th>
+                <th>{t("record.differential")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {latest.map(({ r, at }) => (
+                <tr key={at} className={counted.has(at) ? "counted" : undefined}>
+                  <td>{new Date(r.date).toLocaleDateString(locale)}</td>
+                  <td>{r.scores.map((s) => s.course).join(" + ")}</td>
+                  <td>{holesLabel(r)}</td>
+                  <td>{r.scores.map((s) => s.adjustedGross).join(" + ")}</td>
+                  <td>{r.scores.map((s) => `${Math.round(s.rating * 10) / 10} / ${s.slope}`).join(" + ")}</td>
+                  <td className="mono">{r.differential.toFixed(1)}{counted.has(at) && " *"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {first > 0 && <p className="muted">{t("record.older", { n: first, total: RECORD_SIZE })}</p>}
+      {first === 0 && latest.length > 0 && <p className="muted">{t("record.counts")}</p>}
+    </div>
+  );
+}
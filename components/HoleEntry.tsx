@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import type { MessageKey, Translate } from "@/lib/i18n";
+import { toDisplay } from "@/lib/units";
+import type { DistanceUnit } from "@/lib/units";
+
+export type HoleEntryPlayer = {
+  name: string;
+  score: number; // 0 = not entered yet
+  strokes: number; // handicap strokes received on this hole, negative for plus handicaps
+  pickedUp: boolean;
+};
+
+type Props = {
+  hole: number; // 1-based
+  par: number;
+  si: number;
+  yards: number; // 0 when the course has no yardage
+  units: DistanceUnit;
+  players: HoleEntryPlayer[];
+  last: boolean; // final hole in play order
+  onSave: (scores: number[], pickups: boolean[]) => void;
+  onPrev: () => void;
+  onNext: () => void;
+  t: Translate;
+};
+
+const TO_PAR: { label: MessageKey; diff: number }[] = [
+  { label: "holeEntry.birdie", diff: -1 },
+  { label: "holeEntry.par", diff: 0 },
+  { label: "holeEntry.bogey", diff: 1 },
+  { label: "holeEntry.double", diff: 2 },
+];
+
+const MAX_SCORE = 20;
+
+// Big-button entry for one hole; nothing is written to the card until Save
+export default function HoleEntry({ hole, par, si, yards, units, players, last, onSave, onPrev, onNext, t }: Props) {
+  const [draft, setDraft] = useState(() => players.map((p) => p.score || par));
+  const [pickups, setPickups] = useState(() => players.map((p) => p.pickedUp));
+
+  // Entering a score takes back a pick-up
+  const set = (pi: number, score: number) => {
+    setDraft((d) => d.map((s, i) => (i === pi ? Math.max(1, Math.min(MAX_SCORE, score)) : s)));
+    setPickups((u) => u.map((x, i) => (i === pi ? false : x)));
+  };
+  const togglePickup = (pi: number) => setPickups((u) => u.map((x, i) => (i === pi ? !x : x)));
+
+  return (
+    <section className="card hole-entry" aria-label={t("holeEntry.label", { n: hole })}>
+      <div className="card-title editor-title">
+        <button className="btn ghost" onClick={onPrev} aria-label={t("holeEntry.previous")}>‹</button>
+        <span>
+          {t("holeEntry.heading", { n: hole, par, si })}
+          {yards > 0 && ` · ${toDisplay(yards, units)} ${t(units === "m" ? "units.mShort" : "units.ydShort")}`}
+        </span>
+        <button className="btn ghost" onClick={onNext} aria-label={t("holeEntry.next")}>›</button>
+      </div>
+      <div className="card-body">
+        {players.map((p, pi) => (
+          <div key={pi} className="hole-entry-player">
+            <div className="hole-entry-name">
+              <strong>{p.name}</strong>
+              {p.strokes !== 0 && !pickups[pi] && (
+                <span className="muted">
+                  {p.strokes > 0 ? t("holeEntry.gets", { n: p.strokes }) : t("holeEntry.gives", { n: -p.strokes })} · {t("holeEntry.net", { n: draft[pi] - p.strokes })}
+                </span>
+              )}
+            </div>
+            <div className="hole-entry-score">
+              <button className="btn big" onClick={() => set(pi, draft[pi] - 1)} aria-label={t("holeEntry.less", { name: p.name })}>−</button>
+              <output className="mono" aria-live="polite">{pickups[pi] ? t("table.pickup") : draft[pi]}</output>
+              <button className="btn big" onClick={() => set(pi, draft[pi] + 1)} aria-label={t("holeEntry.more", { name: p.name })}>+</button>
+            </div>
+            <div className="hole-entry-quick" role="group" aria-label={t("holeEntry.quick", { name: p.name })}>
+              {TO_PAR.map((q) => (
+                <button key={q.label} className={!pickups[pi] && draft[pi] === par + q.diff ? "btn active" : "btn ghost"} onClick={() => set(pi, par + q.diff)}>
+                  {t(q.label)}
+                </button>
+              ))}
+              <button className={pickups[pi] ? "btn active" : "btn ghost"} onClick={() => togglePickup(pi)} aria-pressed={pickups[pi]}>
+                {t("holeEntry.pickUp")}
+              </button>
+            </div>
+          </div>
+        ))}
+        <button className="btn big" onClick={() => onSave(draft, pickups)}>{last ? t("holeEntry.save") : t("holeEntry.saveNext")}</button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import type { Translate } from "@/lib/i18n";
+import { DEFAULT_RELAY_URL, newSessionCode, normalizeSessionCode } from "@/lib/livesync";
+import type { TransportKind } from "@/lib/livesync";
+
+export type LiveStart = {
+  host: boolean;
+  code: string;
+  kind: TransportKind;
+  relayUrl: string;
+  name: string;
+};
+
+type Props = {
+  active: { code: string; host: boolean } | null;
+  onStart: (start: LiveStart) => void;
+  onLeave: () => void;
+  onClose: () => void;
+  t: Translate;
+};
+
+export default function LivePanel({ active, onStart, onLeave, onClose, t }: Props) {
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [kind, setKind] = useState<TransportKind>("relay");
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+
+  const start = (host: boolean) =>
+    onStart({ host, code: host ? newSessionCode() : code, kind, relayUrl, name: name.trim().slice(0, 20) || t("live.guest") });
+
+  return (
+    <section className="card live" aria-label={t("live.label")}>
+      <div className="card-title editor-title">
+        <span>{t("live.label")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        {active ? (
+          <>
+            <p>
+              {t("live.session")} <strong className="mono live-code">{active.code}</strong>
+              {t(active.host ? "live.shareIt" : "live.joined")}
+            </p>
+            <p className="muted">{t("live.merge")}</p>
+            <div className="editor-row">
+              <button className="btn" onClick={onLeave}>{t(active.host ? "live.end" : "live.leave")}</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="editor-row">
+              <label>
+                {t("live.name")}
+                <input value={name} placeholder={t("live.guest")} onChange={(e) => setName(e.target.value)} />
+              </label>
+              <label>
+                {t("live.via")}
+                <select value={kind} onChange={(e) => setKind(e.target.value as TransportKind)}>
+                  <option value="relay">{t("live.relayServer")}</option>
+                  <option value="tabs">{t("live.tabs")}</option>
+                </select>
+              </label>
+              {kind === "relay" && (
+                <label>
+                  {t("live.relay")}
+                  <input className="live-relay" value={relayUrl} onChange={(e) => setRelayUrl(e.target.value.trim())} />
+                </label>
+              )}
+            </div>
+            <div className="editor-row">
+              <button className="btn" onClick={() => start(true)} disabled={kind === "relay" && !relayUrl}>{t("live.hostSession")}</button>
+              <span className="muted">{t("live.or")}</span>
+              <input className="mono live-code" aria-label={t("live.session")} placeholder="CODE" value={code}
+                onChange={(e) => setCode(normalizeSessionCode(e.target.value))} />
+              <button className="btn" onClick={() => start(false)} disabled={code.length !== 6 || (kind === "relay" && !relayUrl)}>{t("live.join")}</button>
+            </div>
+            <p className="muted">{t("live.replaces")}</p>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
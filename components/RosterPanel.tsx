@@ -0,0 +1,108 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import HandicapHistory from "@/components/HandicapHistory";
+import type { ArchivedRound } from "@/lib/archive";
+import type { Course } from "@/lib/courses";
+import { MAX_HANDICAP_INDEX, MIN_HANDICAP_INDEX } from "@/lib/handicap";
+import { handicapRecord } from "@/lib/handicapindex";
+import type { Translate } from "@/lib/i18n";
+import { createGolfer, initialsFor } from "@/lib/roster";
+import type { Golfer } from "@/lib/roster";
+
+type Props = {
+  roster: Golfer[];
+  inRound: string[]; // golfer ids already on the card
+  teeNames: string[]; // tees of the selected course, offered as preferred tee
+  rounds: ArchivedRound[]; // saved rounds, for indexes kept from rounds
+  courses: Course[]; // to look up how many holes each round's rating covers
+  onChange: (roster: Golfer[]) => void;
+  onAdd: (golfer: Golfer) => void;
+  onClose: () => void;
+  locale: string;
+  t: Translate;
+};
+
+export default function RosterPanel({ roster, inRound, teeNames, rounds, courses, onChange, onAdd, onClose, locale, t }: Props) {
+  const [newName, setNewName] = useState("");
+  const [historyId, setHistoryId] = useState("");
+
+  function update(id: string, patch: Partial<Golfer>) {
+    onChange(roster.map((g) => (g.id === id ? { ...g, ...patch } : g)));
+  }
+
+  function add() {
+    const name = newName.trim().slice(0, 20);
+    if (!name) return;
+    onChange([...roster, createGolfer(name)]);
+    setNewName("");
+  }
+
+  // Switching on takes the calculated index straight away, once there is one
+  function setAutoIndex(g: Golfer, on: boolean) {
+    const index = on ? handicapRecord(rounds, g, courses).current?.index : null;
+    update(g.id, index == null ? { autoIndex: on } : { autoIndex: on, handicapIndex: index });
+  }
+
+  function remove(g: Golfer) {
+    if (!confirm(t("roster.confirmRemove", { name: g.name }))) return;
+    onChange(roster.filter((x) => x.id !== g.id));
+  }
+
+  return (
+    <section className="card roster" aria-label={t("roster.label")}>
+      <div className="card-title editor-title">
+        <span>{t("roster.title")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        <datalist id="roster-tees">
+          {teeNames.map((tee) => <option key={tee} value={tee} />)}
+        </datalist>
+        {roster.length === 0 && <p className="muted">{t("roster.empty")}</p>}
+        {roster.map((g) => (
+          <Fragment key={g.id}>
+            <div className="editor-row">
+              <input aria-label={t("roster.name")} value={g.name}
+                onChange={(e) => {
+                  const name = e.target.value.slice(0, 20);
+                  // Keep initials in sync unless they were customised
+                  update(g.id, { name, initials: g.initials === initialsFor(g.name) ? initialsFor(name) : g.initials });
+                }} />
+              <input aria-label={t("roster.initialsFor", { name: g.name })} className="initials" value={g.initials}
+                onChange={(e) => update(g.id, { initials: e.target.value.slice(0, 3).toUpperCase() })} />
+              <label>
+                {t("roster.hi")}
+                <input type="number" min={MIN_HANDICAP_INDEX} max={MAX_HANDICAP_INDEX} step={0.1} value={g.handicapIndex} readOnly={g.autoIndex}
+                  onChange={(e) => update(g.id, { handicapIndex: Math.max(MIN_HANDICAP_INDEX, Math.min(MAX_HANDICAP_INDEX, Math.round(Number(e.target.value) * 10) / 10)) })} />
+              </label>
+              <label className="checkbox" title={t("roster.autoIndexTitle")}>
+                <input type="checkbox" checked={g.autoIndex} onChange={(e) => setAutoIndex(g, e.target.checked)} />
+                {t("roster.autoIndex")}
+              </label>
+              <button className="btn ghost" onClick={() => setHistoryId(historyId === g.id ? "" : g.id)}>
+                {historyId === g.id ? t("roster.hideScores") : t("roster.scores")}
+              </button>
+              <label>
+                {t("roster.tee")}
+                <input list="roster-tees" className="tee-pref" value={g.preferredTee}
+                  onChange={(e) => update(g.id, { preferredTee: e.target.value.slice(0, 20) })} />
+              </label>
+              <button className="btn" onClick={() => onAdd(g)} disabled={inRound.includes(g.id)}>
+                {inRound.includes(g.id) ? t("roster.onCard") : t("roster.addToRound")}
+              </button>
+              <button className="btn ghost" onClick={() => remove(g)}>{t("roster.remove")}</button>
+            </div>
+            {historyId === g.id && <HandicapHistory name={g.name} record={handicapRecord(rounds, g, courses)} locale={locale} t={t} />}
+          </Fragment>
+        ))}
+        <div className="editor-row">
+          <input aria-label={t("roster.newName")} placeholder={t("roster.newPlaceholder")} value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") add(); }} />
+          <button className="btn" onClick={add} disabled={!newName.trim()}>{t("roster.add")}</button>
+        </div>
+      </div>
+    </section>
+  );
+}
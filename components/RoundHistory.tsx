@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { deleteRound, listRounds, matchesQuery } from "@/lib/archive";
+import type { ArchivedRound } from "@/lib/archive";
+import type { Translate } from "@/lib/i18n";
+
+type Props = {
+  currentId: string;
+  locked: boolean; // the open card is signed; it has to be unlocked before another replaces it
+  onOpen: (round: ArchivedRound) => void;
+  onDuplicate: (round: ArchivedRound) => void;
+  onClose: () => void;
+  locale: string;
+  t: Translate;
+};
+
+export default function RoundHistory({ currentId, locked, onOpen, onDuplicate, onClose, locale, t }: Props) {
+  const [rounds, setRounds] = useState<ArchivedRound[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    listRounds().then(setRounds, (err) => setError(String(err)));
+  }, []);
+
+  async function remove(round: ArchivedRound) {
+    if (!confirm(t("history.confirmDelete", { course: round.course, date: new Date(round.date).toLocaleDateString(locale) }))) return;
+    try {
+      await deleteRound(round.id);
+      setRounds((rs) => rs?.filter((r) => r.id !== round.id) ?? null);
+    } catch (err) {
+      setError(String(err));
+    }
+  }
+
+  const visible = (rounds ?? []).filter((r) => matchesQuery(r, query));
+
+  return (
+    <section className="card history" aria-label={t("history.label")}>
+      <div className="card-title editor-title">
+        <span>{t("history.label")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        <input
+          className="history-search"
+          type="search"
+          placeholder={t("history.search")}
+          aria-label={t("history.searchLabel")}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        {error && <p className="editor-errors" role="alert">{error}</p>}
+        {rounds == null && !error && <p className="muted">{t("history.loading")}</p>}
+        {rounds != null && visible.length === 0 && (
+          <p className="muted">{rounds.length === 0 ? t("history.empty") : t("history.noMatch")}</p>
+        )}
+        <ul className="history-list">
+          {visible.map((r) => (
+            <li key={r.id} className={r.id === currentId ? "history-item highlight" : "history-item"}>
+              <div>
+                <strong>{r.course}</strong>
+                <span className="muted"> · {new Date(r.date).toLocaleDateString(locale)} · {t("history.holes", { n: r.snapshot.numHoles })}</span>
+                <div className="mono">
+                  {r.results.map((p) => `${p.name} ${p.gross}/${p.net}${r.snapshot.useStableford ? ` (${t("history.points", { n: p.points })})` : ""}`).join(" · ")}
+                </div>
+              </div>
+              <div className="editor-row">
+                <button className="btn" onClick={() => onOpen(r)} disabled={locked}>{t("history.open")}</button>
+                <button className="btn ghost" onClick={() => onDuplicate(r)} disabled={locked} title={t("history.duplicateTitle")}>{t("history.duplicate")}</button>
+                <button className="btn ghost" onClick={() => remove(r)}>{t("history.delete")}</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+}
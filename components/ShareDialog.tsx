@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import type { Translate } from "@/lib/i18n";
+import { shareUrl } from "@/lib/sharecode";
+
+type Props = {
+  code: string;
+  onClose: () => void;
+  t: Translate;
+};
+
+export default function ShareDialog({ code, onClose, t }: Props) {
+  const [viewOnly, setViewOnly] = useState(true);
+  const [qr, setQr] = useState("");
+  const [tooLarge, setTooLarge] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const url = shareUrl(code, viewOnly);
+
+  // Generated locally, so it works on the course without signal
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toString(url, { type: "svg", errorCorrectionLevel: "L", margin: 2 }).then(
+      (svg) => {
+        if (cancelled) return;
+        setQr(svg);
+        setTooLarge(false);
+      },
+      () => {
+        if (cancelled) return;
+        setQr("");
+        setTooLarge(true);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  function copy() {
+    navigator.clipboard?.writeText(url).then(
+      () => setCopied(true),
+      () => setCopied(false)
+    );
+  }
+
+  return (
+    <section className="card share" aria-label={t("share.label")}>
+      <div className="card-title editor-title">
+        <span>{t("share.label")}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        <label className="checkbox">
+          <input type="checkbox" checked={viewOnly} onChange={(e) => { setViewOnly(e.target.checked); setCopied(false); }} />
+          {t("share.readOnly")}
+        </label>
+        {qr && <div className="share-qr" role="img" aria-label={t("share.qr")} dangerouslySetInnerHTML={{ __html: qr }} />}
+        {tooLarge && <p className="editor-errors" role="alert">{t("share.tooLarge")}</p>}
+        <div className="editor-row">
+          <input className="share-url mono" readOnly value={url} aria-label={t("share.link")} onFocus={(e) => e.target.select()} />
+          <button className="btn" onClick={copy}>{t(copied ? "share.copied" : "share.copy")}</button>
+        </div>
+        <p className="muted">{t("share.length", { n: url.length })}</p>
+      </div>
+    </section>
+  );
+}
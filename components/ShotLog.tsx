@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { listRounds } from "@/lib/archive";
+import { optionLabel } from "@/lib/i18n";
+import type { Translate } from "@/lib/i18n";
+import { parseSnapshot } from "@/lib/schema";
+import type { Player, Snapshot } from "@/lib/scorecard";
+import {
+  LIES,
+  SG_CATEGORIES,
+  averageStrokesGained,
+  findLie,
+  formatStrokesGained,
+  roundStrokesGained,
+  shotLogProblem,
+  shotStrokes,
+} from "@/lib/shots";
+import type { Shot, StrokesGained } from "@/lib/shots";
+import { feetFromDisplay, feetToDisplay, fromDisplay, toDisplay } from "@/lib/units";
+import type { DistanceUnit } from "@/lib/units";
+
+type Props = {
+  players: Player[];
+  hole: number; // 1-based
+  pars: number[];
+  numHoles: number;
+  yards: number; // this hole from the tee set, 0 when unknown
+  units: DistanceUnit;
+  locked: boolean;
+  roundId: string; // the open card's archive id, "" until it's first finished
+  onChange: (player: number, shots: Shot[]) => void;
+  onSetScore: (player: number, score: number) => void;
+  t: Translate;
+};
+
+// The next shot starts where the last one was most likely played from
+function nextShot(shots: Shot[], yards: number): Shot {
+  const last = shots[shots.length - 1];
+  if (!last) return { lie: "tee", distance: yards, penalty: false };
+  return { lie: last.lie === "tee" ? "fairway" : last.lie, distance: 0, penalty: false };
+}
+
+// Saved rounds of the same golfer: roster id when both cards have one, otherwise the name
+function archivedStrokesGained(archived: Snapshot[], player: Player): StrokesGained[] {
+  return archived.flatMap((s) => {
+    const p = s.players.slice(0, s.numPlayers).find((x) => (player.id && x.id ? x.id === player.id : x.name === player.name));
+    const sg = p && roundStrokesGained(p, s.pars, s.numHoles);
+    return sg ? [sg] : [];
+  });
+}
+
+// Shot-by-shot entry for one player on the current hole, with strokes gained for the round and history
+export default function ShotLog({ players, hole, pars, numHoles, yards, units, locked, roundId, onChange, onSetScore, t }: Props) {
+  const [selected, setSelected] = useState(0);
+  const [archived, setArchived] = useState<{ id: string; snapshot: Snapshot }[]>([]);
+
+  useEffect(() => {
+    listRounds().then(
+      (rounds) =>
+        setArchived(rounds.flatMap((r) => {
+          const { snapshot } = parseSnapshot(r.snapshot);
+          return snapshot ? [{ id: r.id, snapshot }] : [];
+        })),
+      () => setArchived([])
+    );
+  }, []);
+
+  const pi = Math.min(selected, players.length - 1);
+  const player = players[pi];
+  if (!player) return null;
+
+  const hi = hole - 1;
+  const shots = player.shots?.[hi] ?? [];
+  const gross = player.scores[hi] || 0;
+  const pickedUp = !!player.pickups?.[hi];
+  const strokes = shotStrokes(shots);
+  const problem = shotLogProblem(shots, gross, pickedUp);
+  const round = roundStrokesGained(player, pars, numHoles);
+  // A reopened round is already counted in the round column
+  const past = archivedStrokesGained(archived.filter((a) => a.id !== roundId).map((a) => a.snapshot), player);
+  const history = averageStrokesGained(past);
+
+  const unit = (lie: Shot["lie"]) =>
+    t(lie === "green" ? (units === "m" ? "units.mShort" : "units.ftShort") : units === "m" ? "units.mShort" : "units.ydShort");
+  const show = (s: Shot) => (s.lie === "green" ? feetToDisplay(s.distance, units) : toDisplay(s.distance, units));
+  const store = (lie: Shot["lie"], v: number) => {
+    const value = Math.max(0, v || 0);
+    return lie === "green" ? feetFromDisplay(value, units) : fromDisplay(value, units);
+  };
+
+  function update(n: number, patch: Partial<Shot>) {
+    onChange(pi, shots.map((s, i) => (i === n ? { ...s, ...patch } : s)));
+  }
+
+  // Moving on or off the green keeps the distance as shown, in the other scale
+  function changeLie(n: number, lie: Shot["lie"]) {
+    const s = shots[n];
+    const crossing = (s.lie === "green") !== (lie === "green");
+    update(n, { lie, ...(crossing ? { distance: store(lie, show(s)) } : {}) });
+  }
+
+  const sgTable = (label: string, sg: StrokesGained) => (
+    <div className="shots-sg">
+      <div className="muted">{label}</div>
+      {SG_CATEGORIES.map(({ id, label: fallback }) => (
+        <div key={id} className="stat">
+          <span>{optionLabel(t, "sg", id, fallback)}</span>
+          <strong className="mono">{formatStrokesGained(sg[id])}</strong>
+        </div>
+      ))}
+      <div className="stat"><span>{t("shots.total")}</span><strong className="mono">{formatStrokesGained(sg.total)}</strong></div>
+    </div>
+  );
+
+  return (
+    <section className="card shots" aria-label={t("shots.label")}>
+      <div className="card-title">{t("shots.title", { n: hole })}</div>
+      <div className="card-body">
+        <div className="editor-row">
+          <label>
+            {t("shots.player")}
+            <select value={pi} onChange={(e) => setSelected(Number(e.target.value))}>
+              {players.map((p, i) => <option key={i} value={i}>{p.name}</option>)}
+            </select>
+          </label>
+        </div>
+
+        {shots.length === 0 ? (
+          <p className="muted">{t("shots.empty")}</p>
+        ) : (
+          <ol className="shot-list">
+            {shots.map((s, n) => (
+              <li key={n}>
+                <span className="muted">{t("shots.shot", { n: n + 1 })}</span>
+                <select aria-label={t("shots.lie")} value={s.lie} disabled={locked} onChange={(e) => changeLie(n, findLie(e.target.value))}>
+                  {LIES.map((l) => <option key={l.id} value={l.id}>{optionLabel(t, "lie", l.id, l.label)}</option>)}
+                </select>
+                <label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={s.lie === "green" && units === "m" ? 0.1 : 1}
+                    aria-label={t("shots.distance", { unit: unit(s.lie) })}
+                    value={show(s)}
+                    disabled={locked}
+                    onChange={(e) => update(n, { distance: store(s.lie, Number(e.target.value)) })}
+                  />
+                  {unit(s.lie)}
+                </label>
+                <label className="checkbox">
+                  <input type="checkbox" checked={s.penalty} disabled={locked} onChange={(e) => update(n, { penalty: e.target.checked })} />
+                  {t("shots.penalty")}
+                </label>
+                <button className="btn ghost" disabled={locked} onClick={() => onChange(pi, shots.filter((_, i) => i !== n))}>{t("shots.remove")}</button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {problem && (
+          <p className="shots-problem" role="alert">
+            {gross ? t("shots.mismatch", { n: strokes, gross }) : t("shots.noScore", { n: strokes })}{" "}
+            {!locked && strokes <= 20 && (
+              <button className="btn ghost" onClick={() => onSetScore(pi, strokes)}>{t("shots.useLog", { n: strokes })}</button>
+            )}
+          </p>
+        )}
+
+        <div className="editor-row">
+          <button className="btn" disabled={locked} onClick={() => onChange(pi, [...shots, nextShot(shots, yards)])}>{t("shots.add")}</button>
+        </div>
+
+        {round ? sgTable(t("shots.round", { n: round.holes }), round) : <p className="muted">{t("shots.none")}</p>}
+        {history && sgTable(t("shots.archived", { n: past.length }), history)}
+      </div>
+    </section>
+  );
+}
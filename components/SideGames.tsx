@@ -0,0 +1,241 @@
+"use client";
+
+import { useMemo } from "react";
+import type { Translate } from "@/lib/i18n";
+import {
+  LONE_WOLF,
+  computeNassau,
+  computeSkins,
+  computeWolf,
+  formatMoney,
+} from "@/lib/sidegames";
+import type { GamePlayer, NassauBet, SideGames as SideGamesConfig } from "@/lib/sidegames";
+
+type Props = {
+  config: SideGamesConfig;
+  players: GamePlayer[];
+  numHoles: number;
+  holeOrder: number[]; // hole indexes in the order played
+  currentHole: number;
+  onChange: (config: SideGamesConfig) => void;
+  t: Translate;
+};
+
+function betStatus(bet: NassauBet, a: string, b: string, t: Translate): string {
+  if (bet.thru === 0) return t("side.notStarted");
+  const left = bet.holes.length - bet.thru;
+  const lead = bet.up === 0 ? t("side.allSquare") : t("side.leads", { name: bet.up > 0 ? a : b, n: Math.abs(bet.up) });
+  return left === 0 ? t("side.final", { lead }) : t("side.thru", { lead, n: bet.holes[bet.thru - 1] + 1 });
+}
+
+export default function SideGames({ config, players, numHoles, holeOrder, currentHole, onChange, t }: Props) {
+  const { skins, nassau, wolf } = config;
+
+  const skinsResult = useMemo(() => computeSkins(skins, players, numHoles, holeOrder), [skins, players, numHoles, holeOrder]);
+  const nassauResult = useMemo(() => computeNassau(nassau, players, numHoles, holeOrder), [nassau, players, numHoles, holeOrder]);
+  const wolfResult = useMemo(() => computeWolf(wolf, players, numHoles, holeOrder), [wolf, players, numHoles, holeOrder]);
+
+  const anyEnabled = skins.enabled || nassau.enabled || wolf.enabled;
+  const settlement = players.map((_, i) => {
+    const s = skins.enabled ? skinsResult.money[i] : 0;
+    const n = nassau.enabled ? nassauResult.money[i] : 0;
+    const w = wolf.enabled ? wolfResult.money[i] : 0;
+    return { skins: s, nassau: n, wolf: w, total: s + n + w };
+  });
+
+  function patch<K extends keyof SideGamesConfig>(game: K, p: Partial<SideGamesConfig[K]>) {
+    onChange({ ...config, [game]: { ...config[game], ...p } });
+  }
+
+  function setPick(h: number, value: string) {
+    const picks = wolf.picks.slice(0, numHoles);
+    while (picks.length < numHoles) picks.push(null);
+    picks[h] = value === "" ? null : Number(value);
+    patch("wolf", { picks });
+  }
+
+  function setOrder(pos: number, row: number) {
+    // Swap so every player keeps exactly one slot
+    const order = wolf.order.slice();
+    const other = order.indexOf(row);
+    if (other >= 0) order[other] = order[pos];
+    order[pos] = row;
+    patch("wolf", { order });
+  }
+
+  const stake = (value: number, onValue: (n: number) => void) => (
+    <label>
+      $
+      <input type="number" min={0} step={0.5} value={value} aria-label={t("side.stake")}
+        onChange={(e) => onValue(Math.max(0, Number(e.target.value) || 0))} />
+    </label>
+  );
+
+  const netToggle = (net: boolean, onValue: (net: boolean) => void) => (
+    <select value={net ? "net" : "gross"} aria-label={t("side.grossOrNet")} onChange={(e) => onValue(e.target.value === "net")}>
+      <option value="gross">{t("side.gross")}</option>
+      <option value="net">{t("side.net")}</option>
+    </select>
+  );
+
+  return (
+    <section className="card side-games" aria-label={t("side.label")}>
+      <div className="card-title">{t("side.label")}</div>
+      <div className="card-body">
+        {/* Skins */}
+        <div className="editor-row">
+          <label className="checkbox">
+            <input type="checkbox" checked={skins.enabled} onChange={(e) => patch("skins", { enabled: e.target.checked })} />
+            <strong>{t("side.skins")}</strong>
+          </label>
+          {skins.enabled && (
+            <>
+              {netToggle(skins.net, (net) => patch("skins", { net }))}
+              {stake(skins.stake, (v) => patch("skins", { stake: v }))}
+              <label className="checkbox">
+                <input type="checkbox" checked={skins.carryover} onChange={(e) => patch("skins", { carryover: e.target.checked })} />
+                {t("side.carryovers")}
+              </label>
+            </>
+          )}
+        </div>
+        {skins.enabled && (
+          <div className="hole-times">
+            {skinsResult.holes.map((sh, h) => sh && (
+              <span key={h} className="chip">
+                {t("side.skinHole", {
+                  n: h + 1,
+                  result: sh.winner == null ? t(skins.carryover ? "side.carry" : "side.tie") : `${players[sh.winner].name}${sh.skins > 1 ? ` ×${sh.skins}` : ""}`,
+                })}
+              </span>
+            ))}
+            {skinsResult.carried > 0 && <span className="chip">{t("side.carried", { n: skinsResult.carried })}</span>}
+          </div>
+        )}
+
+        {/* Nassau */}
+        <div className="editor-row">
+          <label className="checkbox">
+            <input type="checkbox" checked={nassau.enabled} onChange={(e) => patch("nassau", { enabled: e.target.checked })} />
+            <strong>{t("side.nassau")}</strong>
+          </label>
+          {nassau.enabled && (
+            <>
+              {netToggle(nassau.net, (net) => patch("nassau", { net }))}
+              {stake(nassau.stake, (v) => patch("nassau", { stake: v }))}
+              <label className="checkbox">
+                <input type="checkbox" checked={nassau.presses} onChange={(e) => patch("nassau", { presses: e.target.checked })} />
+                {t("side.autoPress")}
+              </label>
+              <input type="number" min={1} max={9} value={nassau.pressDown} aria-label={t("side.pressDown")} disabled={!nassau.presses}
+                onChange={(e) => patch("nassau", { pressDown: Math.max(1, Math.min(9, Math.round(Number(e.target.value)))) })} />
+              <span className="muted">{t("side.down")}</span>
+            </>
+          )}
+        </div>
+        {nassau.enabled && nassauResult.pairs.map((pair) => (
+          <div key={`${pair.a}-${pair.b}`} className="nassau-pair">
+            <span className="muted">{t("side.versus", { a: players[pair.a].name, b: players[pair.b].name })}</span>
+            <div className="hole-times">
+              {pair.bets.map((bet, i) => (
+                <span key={i} className="chip">
+                  {t(`side.${bet.kind}`, { n: bet.holes[0] + 1 })}: {betStatus(bet, players[pair.a].name, players[pair.b].name, t)}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {/* Wolf */}
+        <div className="editor-row">
+          <label className="checkbox" title={players.length < 3 ? t("side.wolfNeedsThree") : undefined}>
+            <input type="checkbox" checked={wolf.enabled} disabled={players.length < 3} onChange={(e) => patch("wolf", { enabled: e.target.checked })} />
+            <strong>{t("side.wolf")}</strong>
+          </label>
+          {wolf.enabled && (
+            <>
+              {netToggle(wolf.net, (net) => patch("wolf", { net }))}
+              {stake(wolf.stake, (v) => patch("wolf", { stake: v }))}
+              <span className="muted">{t("side.order")}</span>
+              {wolf.order.filter((i) => i < players.length).map((row, pos) => (
+                <select key={pos} value={row} aria-label={t("side.orderFor", { n: pos + 1 })} onChange={(e) => setOrder(pos, Number(e.target.value))}>
+                  {players.map((p, i) => <option key={i} value={i}>{p.name}</option>)}
+                </select>
+              ))}
+            </>
+          )}
+        </div>
+        {wolf.enabled && players.length >= 3 && (
+          <div className="table-wrapper">
+            <table className="golf">
+              <thead>
+                <tr>
+                  <th className="sticky">{t("side.hole")}</th>
+                  {wolfResult.holes.map((_, h) => (
+                    <th key={h} className={h + 1 === currentHole ? "highlight" : undefined}>{h + 1}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <th className="sticky">{t("side.wolf")}</th>
+                  {wolfResult.holes.map((wh, h) => (
+                    <td key={h} className={h + 1 === currentHole ? "highlight" : undefined}>{players[wh.wolf]?.name}</td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="sticky">{t("side.partner")}</th>
+                  {wolfResult.holes.map((wh, h) => (
+                    <td key={h} className={h + 1 === currentHole ? "highlight" : undefined}>
+                      <select aria-label={t("side.pickFor", { n: h + 1 })} value={wolf.picks[h] ?? ""} onChange={(e) => setPick(h, e.target.value)}>
+                        <option value="">—</option>
+                        {players.map((p, i) => i !== wh.wolf && (
+                          <option key={i} value={i}>{p.name}</option>
+                        ))}
+                        <option value={LONE_WOLF}>{t("side.loneWolf")}</option>
+                      </select>
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="sticky">{t("side.result")}</th>
+                  {wolfResult.holes.map((wh, h) => (
+                    <td key={h} className={h + 1 === currentHole ? "highlight muted" : "muted"}>
+                      {wh.result === "wolf" ? t("side.wolfWon") : wh.result === "field" ? t("side.fieldWon") : wh.result === "halved" ? "½" : ""}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Settlement */}
+        {anyEnabled && (
+          <table className="settlement">
+            <thead>
+              <tr>
+                <th>{t("side.player")}</th>
+                {skins.enabled && <th>{t("side.skins")}</th>}
+                {nassau.enabled && <th>{t("side.nassau")}</th>}
+                {wolf.enabled && <th>{t("side.wolf")}</th>}
+                <th>{t("side.total")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {players.map((p, i) => (
+                <tr key={i}>
+                  <th>{p.name}</th>
+                  {skins.enabled && <td className="mono">{formatMoney(settlement[i].skins)}{` (${skinsResult.won[i]})`}</td>}
+                  {nassau.enabled && <td className="mono">{formatMoney(settlement[i].nassau)}</td>}
+                  {wolf.enabled && <td className="mono">{formatMoney(settlement[i].wolf)}</td>}
+                  <td className="mono strong">{formatMoney(settlement[i].total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { PointerEvent } from "react";
+import { SIGNATURE_HEIGHT, SIGNATURE_WIDTH } from "@/lib/attest";
+import type { Translate } from "@/lib/i18n";
+
+type Props = {
+  label: string;
+  strokes: number[][];
+  onChange: (strokes: number[][]) => void;
+  t: Translate;
+};
+
+// Finger or mouse signature; strokes are kept as points so they scale cleanly into the PDF
+export default function SignaturePad({ label, strokes, onChange, t }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawing = useRef<number[] | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#111827";
+    strokes.forEach((s) => {
+      ctx.beginPath();
+      for (let i = 0; i + 1 < s.length; i += 2) {
+        if (i === 0) ctx.moveTo(s[0], s[1]);
+        else ctx.lineTo(s[i], s[i + 1]);
+      }
+      ctx.stroke();
+    });
+  }, [strokes]);
+
+  // Canvas pixels match the signature box whatever size CSS draws it at
+  function point(e: PointerEvent<HTMLCanvasElement>): [number, number] {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [
+      Math.round(((e.clientX - rect.left) / rect.width) * SIGNATURE_WIDTH),
+      Math.round(((e.clientY - rect.top) / rect.height) * SIGNATURE_HEIGHT),
+    ];
+  }
+
+  function down(e: PointerEvent<HTMLCanvasElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = point(e);
+    onChange([...strokes, drawing.current]);
+  }
+
+  function move(e: PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return;
+    drawing.current = [...drawing.current, ...point(e)];
+    onChange([...strokes.slice(0, -1), drawing.current]);
+  }
+
+  function up() {
+    drawing.current = null;
+  }
+
+  return (
+    <div className="signature">
+      <div className="editor-row">
+        <span>{label}</span>
+        <button className="btn ghost" onClick={() => onChange([])} disabled={strokes.length === 0}>{t("attest.clear")}</button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="signature-pad"
+        width={SIGNATURE_WIDTH}
+        height={SIGNATURE_HEIGHT}
+        aria-label={t("attest.signature", { label })}
+        onPointerDown={down}
+        onPointerMove={move}
+        onPointerUp={up}
+        onPointerCancel={up}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { listRounds } from "@/lib/archive";
+import type { ArchivedRound } from "@/lib/archive";
+import type { Course } from "@/lib/courses";
+import { optionLabel } from "@/lib/i18n";
+import type { Translate } from "@/lib/i18n";
+import { parseSnapshot } from "@/lib/schema";
+import {
+  FORMAT_LABELS,
+  addRound,
+  attachCard,
+  computeLeaderboard,
+  detachCard,
+  formatToPar,
+  removeRound,
+  roundValue,
+} from "@/lib/tournament";
+import type { LeaderboardFormat, Tournament, TournamentCard, TournamentRound } from "@/lib/tournament";
+
+type Props = {
+  tournament: Tournament | null;
+  sources: TournamentCard[]; // the open card and the event's other groups
+  courses: Course[]; // for the holes each card's tee rating covers
+  onCreate: (name: string) => void;
+  onChange: (tournament: Tournament) => void;
+  onEnd: () => void;
+  onClose: () => void;
+  locale: string;
+  t: Translate;
+};
+
+export default function TournamentPanel({ tournament, sources, courses, onCreate, onChange, onEnd, onClose, locale, t }: Props) {
+  const [name, setName] = useState("");
+  const [archived, setArchived] = useState<ArchivedRound[]>([]);
+
+  useEffect(() => {
+    listRounds().then(setArchived, () => setArchived([]));
+  }, []);
+
+  if (!tournament) {
+    return (
+      <section className="card tournament" aria-label={t("tournament.label")}>
+        <div className="card-title editor-title">
+          <span>{t("tournament.label")}</span>
+          <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+        </div>
+        <div className="card-body">
+          <p className="muted">{t("tournament.intro")}</p>
+          <div className="editor-row">
+            <input aria-label={t("tournament.name")} placeholder={t("tournament.namePlaceholder")} value={name} onChange={(e) => setName(e.target.value)} />
+            <button className="btn" onClick={() => onCreate(name)}>{t("tournament.create")}</button>
+          </div>
+        </div>
+      </section>
+    );
+  }
+
+  const tour = tournament;
+  const { rows, cutMade } = computeLeaderboard(tour, courses);
+  const firstCut = rows.findIndex((r) => r.cut && !r.noReturn);
+
+  function updateRound(id: string, patch: Partial<TournamentRound>) {
+    onChange({ ...tour, rounds: tour.rounds.map((r) => (r.id === id ? { ...r, ...patch } : r)) });
+  }
+
+  function attach(round: TournamentRound, value: string) {
+    const source = sources.find((s) => s.id === value);
+    if (source) {
+      onChange(attachCard(tour, round.id, source));
+      return;
+    }
+    const r = archived.find((a) => a.id === value);
+    if (!r) return;
+    const { snapshot, errors } = parseSnapshot(r.snapshot);
+    if (!snapshot) {
+      alert(t("tournament.attachFailed", { errors: errors.join("\n") }));
+      return;
+    }
+    onChange(attachCard(tour, round.id, { id: r.id, label: archivedLabel(r, locale), snapshot }));
+  }
+
+  function dropRound(round: TournamentRound) {
+    if (round.cards.length > 0 && !confirm(t("tournament.confirmRemoveRound", { name: round.name, n: round.cards.length }))) return;
+    onChange(removeRound(tour, round.id));
+  }
+
+  return (
+    <section className="card tournament" aria-label={t("tournament.label")}>
+      <div className="card-title editor-title">
+        <span>{tour.name}</span>
+        <button className="btn ghost" onClick={onClose}>{t("panel.close")}</button>
+      </div>
+      <div className="card-body">
+        <div className="tournament-setup">
+          <div className="editor-row">
+            <input aria-label={t("tournament.name")} value={tour.name} onChange={(e) => onChange({ ...tour, name: e.target.value.slice(0, 60) })} />
+            <select aria-label={t("tournament.leaderboard")} value={tour.format} onChange={(e) => onChange({ ...tour, format: e.target.value as LeaderboardFormat })}>
+              {Object.entries(FORMAT_LABELS).map(([id, label]) => (
+                <option key={id} value={id}>{optionLabel(t, "leaderboard", id, label)}</option>
+              ))}
+            </select>
+            <label>
+              {t("tournament.cutAfter")}
+              <select value={tour.cutAfter} onChange={(e) => onChange({ ...tour, cutAfter: Number(e.target.value) })}>
+                <option value={0}>{t("tournament.noCut")}</option>
+                {tour.rounds.slice(0, -1).map((r, i) => (
+                  <option key={r.id} value={i + 1}>{r.name}</option>
+                ))}
+              </select>
+            </label>
+            {tour.cutAfter > 0 && (
+              <label>
+                {t("tournament.top")}
+                <input type="number" min={1} value={tour.cutSize}
+                  onChange={(e) => onChange({ ...tour, cutSize: Math.max(1, Math.round(Number(e.target.value)) || 1) })} />
+                {t("tournament.andTies")}
+              </label>
+            )}
+          </div>
+          <ul className="history-list">
+            {tour.rounds.map((round) => (
+              <li key={round.id} className="history-item">
+                <div className="editor-row">
+                  <input aria-label={t("tournament.roundName")} className="round-name" value={round.name}
+                    onChange={(e) => updateRound(round.id, { name: e.target.value.slice(0, 20) })} />
+                  <select aria-label={t("tournament.attachTo", { name: round.name })} value="" onChange={(e) => attach(round, e.target.value)}>
+                    <option value="">{t("tournament.attach")}</option>
+                    {sources.map((s) => (
+                      <option key={s.id} value={s.id}>{s.label}</option>
+                    ))}
+                    {archived.length > 0 && (
+                      <optgroup label={t("tournament.finished")}>
+                        {archived.map((r) => (
+                          <option key={r.id} value={r.id}>{archivedLabel(r, locale)}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                  <button className="btn ghost" onClick={() => dropRound(round)} disabled={tour.rounds.length === 1}>{t("tournament.removeRound")}</button>
+                </div>
+                {round.cards.length > 0 && (
+                  <div className="editor-row">
+                    {round.cards.map((c) => (
+                      <span key={c.id} className="chip">
+                        {c.label} · {c.snapshot.players.slice(0, c.snapshot.numPlayers).map((p) => p.name).join(", ")}
+                        <button className="btn ghost" aria-label={t("tournament.detach", { name: c.label })} onClick={() => onChange(detachCard(tour, round.id, c.id))}>×</button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="editor-row">
+            <button className="btn" onClick={() => onChange(addRound(tour, t))}>{t("tournament.addRound")}</button>
+            <button className="btn ghost" onClick={onEnd}>{t("tournament.end")}</button>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="muted">{t("tournament.empty")}</p>
+        ) : (
+          <div className="table-wrapper">
+            <table className="golf leaderboard">
+              <thead>
+                <tr>
+                  <th>{t("tournament.pos")}</th>
+                  <th className="sticky">{t("tournament.player")}</th>
+                  <th>{tour.format === "stableford" ? t("tournament.plusMinus") : t("tournament.toPar")}</th>
+                  <th>{t("tournament.thru")}</th>
+                  {tour.rounds.map((r) => (
+                    <th key={r.id}>{r.name}</th>
+                  ))}
+                  <th>{tour.format === "stableford" ? t("tournament.points") : t("tournament.total")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => (
+                  <Fragment key={row.key}>
+                    {i === firstCut && (
+                      <tr className="cut-line">
+                        <td colSpan={tour.rounds.length + 5}>{t("tournament.cutLine", { name: tour.rounds[tour.cutAfter - 1]?.name ?? "" })}</td>
+                      </tr>
+                    )}
+                    <tr className={row.cut ? "missed-cut" : undefined}>
+                      <td title={row.noReturn ? t("table.noReturnTitle") : undefined}>{row.position}</td>
+                      <td className="sticky">
+                        {row.name || "—"}
+                        {row.countback != null && <span className="muted"> · {countbackLabel(row.countback, t)}</span>}
+                      </td>
+                      <td>{formatToPar(row.toPar)}</td>
+                      <td>{row.thru}</td>
+                      {row.rounds.map((r, ri) => (
+                        <td key={ri}>{r ? roundValue(r, tour.format) : "—"}</td>
+                      ))}
+                      <td className="strong">{row.total}</td>
+                    </tr>
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {tour.cutAfter > 0 && !cutMade && (
+          <p className="muted">{t("tournament.cutPending", { n: tour.cutSize, name: tour.rounds[tour.cutAfter - 1]?.name ?? "" })}</p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function archivedLabel(r: ArchivedRound, locale: string): string {
+  return `${r.course} · ${new Date(r.date).toLocaleDateString(locale)}`;
+}
+
+// 0 = split on the final round, otherwise on its last n holes
+function countbackLabel(holes: number, t: Translate): string {
+  if (holes === 0) return t("tournament.countbackFinal");
+  return holes === 1 ? t("tournament.countbackLastHole") : t("tournament.countbackLast", { n: holes });
+}
@@ -0,0 +1,83 @@
+// Local round archive backed by IndexedDB, one record per finished round.
+
+import type { Snapshot } from "@/lib/scorecard";
+
+export type RoundResult = {
+  playerId?: string; // roster golfer id
+  name: string;
+  gross: number;
+  net: number;
+  points: number;
+};
+
+export type ArchivedRound = {
+  id: string;
+  date: string; // ISO timestamp of when the round was finished
+  course: string;
+  snapshot: Snapshot;
+  holeDurations: number[]; // seconds per hole
+  results: RoundResult[];
+};
+
+const DB_NAME = "golf-scorecard";
+const DB_VERSION = 1;
+const ROUNDS = "rounds";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(ROUNDS)) {
+        const store = db.createObjectStore(ROUNDS, { keyPath: "id" });
+        store.createIndex("date", "date");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(ROUNDS, mode);
+      const req = fn(tx.objectStore(ROUNDS));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function newRoundId(): string {
+  return `r-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export async function saveRound(round: ArchivedRound): Promise<void> {
+  await withStore("readwrite", (s) => s.put(round));
+}
+
+export async function getRound(id: string): Promise<ArchivedRound | undefined> {
+  return withStore<ArchivedRound | undefined>("readonly", (s) => s.get(id));
+}
+
+export async function listRounds(): Promise<ArchivedRound[]> {
+  const rounds = await withStore<ArchivedRound[]>("readonly", (s) => s.getAll());
+  return rounds.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export async function deleteRound(id: string): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(id));
+}
+
+// Case-insensitive match on course, player names and date (YYYY-MM-DD)
+export function matchesQuery(round: ArchivedRound, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const haystack = [round.course, round.date.slice(0, 10), ...round.results.map((r) => r.name)].join(" ").toLowerCase();
+  return q.split(/\s+/).every((word) => haystack.includes(word));
+}
@@ -0,0 +1,34 @@
+// Attested cards: player and marker signatures lock the card; unlocking is recorded on it.
+
+export type Signature = {
+  name: string;
+  strokes: number[][]; // pen strokes as flat x,y pairs in a SIGNATURE_WIDTH × SIGNATURE_HEIGHT box
+};
+
+export type Attestation = {
+  player: Signature;
+  marker: Signature;
+  at: string; // ISO timestamp
+};
+
+export type Unlock = {
+  at: string; // ISO timestamp
+  reason: string;
+  attestedAt: string; // the attestation that was withdrawn
+};
+
+export const SIGNATURE_WIDTH = 300;
+export const SIGNATURE_HEIGHT = 100;
+
+export function isSigned(sig: Signature): boolean {
+  return sig.name.trim() !== "" && sig.strokes.some((s) => s.length >= 4);
+}
+
+export function createAttestation(player: Signature, marker: Signature): Attestation {
+  return { player, marker, at: new Date().toISOString() };
+}
+
+export function unlockRecord(attestation: Attestation, reason: string): Unlock {
+  return { at: new Date().toISOString(), reason: reason.trim().slice(0, 200), attestedAt: attestation.at };
+}
+
@@ -0,0 +1,61 @@
+// Checks a card before it is finished or shared: missing holes, stroke index mistakes and unlikely scores.
+
+import type { Translate } from "@/lib/i18n";
+import type { Snapshot } from "@/lib/scorecard";
+import { shotLogProblem, shotStrokes } from "@/lib/shots";
+
+const MAX_SI = 18;
+
+function holeList(holes: number[], t: Translate): string {
+  const list = holes.map((h) => h + 1).join(", ");
+  return holes.length === 1 ? t("check.hole", { list }) : t("check.holes", { list });
+}
+
+// Indexes restart every 18 holes on 27 and 36 hole days, so each loop is checked on its own
+function siProblems(si: number[], numHoles: number, t: Translate): string[] {
+  const problems: string[] = [];
+  const loop = numHoles > MAX_SI && si.slice(0, numHoles).every((x) => x <= MAX_SI) ? MAX_SI : numHoles;
+  const limit = Math.max(MAX_SI, loop);
+  for (let start = 0; start < numHoles; start += loop) {
+    const seen = new Map<number, number[]>();
+    for (let h = start; h < Math.min(start + loop, numHoles); h++) {
+      const v = si[h];
+      if (!Number.isInteger(v) || v < 1 || v > limit) {
+        problems.push(t("check.siRange", { n: h + 1, si: v, max: limit }));
+        continue;
+      }
+      seen.set(v, [...(seen.get(v) ?? []), h]);
+    }
+    seen.forEach((holes, v) => {
+      if (holes.length > 1) problems.push(t("check.siRepeated", { si: v, holes: holeList(holes, t) }));
+    });
+  }
+  return problems;
+}
+
+export function checkCard(s: Snapshot, t: Translate): string[] {
+  const problems = siProblems(s.si, s.numHoles, t);
+  s.players.slice(0, s.numPlayers).forEach((p) => {
+    const missing: number[] = [];
+    const holeProblem = (h: number, problem: string) => problems.push(t("check.playerHole", { name: p.name, n: h + 1, problem }));
+    for (let h = 0; h < s.numHoles; h++) {
+      const score = p.scores[h] || 0;
+      if (shotLogProblem(p.shots?.[h], score, !!p.pickups?.[h])) {
+        const n = shotStrokes(p.shots?.[h] ?? []);
+        holeProblem(h, score ? t("shots.mismatch", { n, gross: score }) : t("shots.noScore", { n }));
+      }
+      if (p.pickups?.[h]) continue;
+      if (!score) {
+        missing.push(h);
+        continue;
+      }
+      const par = s.pars[h];
+      // Better than an albatross, or more than three times par
+      if (score < par - 3) holeProblem(h, t("check.unlikely", { score, par }));
+      else if (score > par * 3) holeProblem(h, t("check.high", { score, par }));
+    }
+    if (missing.length === s.numHoles) problems.push(t("check.noScores", { name: p.name }));
+    else if (missing.length) problems.push(t("check.missing", { name: p.name, holes: holeList(missing, t) }));
+  });
+  return problems;
+}
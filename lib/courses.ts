@@ -0,0 +1,310 @@
+// Course catalog: tee sets with rating, slope and per-hole par / SI / yardage.
+
+import { parseGreen, parseLatLng } from "@/lib/geo";
+import type { Green, LatLng } from "@/lib/geo";
+import type { Snapshot } from "@/lib/scorecard";
+
+export type CourseHole = {
+  par: number;
+  si: number; // stroke index, 1 = hardest
+  yards: number;
+  green?: Green; // for GPS distances; the same for every tee set
+  tee?: LatLng; // this tee set's tee box
+};
+
+export type Tee = {
+  id: string;
+  name: string;
+  rating: number; // course rating
+  slope: number; // 55-155, 113 = standard
+  holes: CourseHole[];
+};
+
+export type Course = {
+  id: string;
+  name: string;
+  location?: string;
+  tees: Tee[];
+  custom?: boolean; // created in the course editor
+};
+
+export const COURSES_STORAGE_KEY = "golf-courses-v1";
+
+type TeeRow = [id: string, name: string, rating: number, slope: number, yards: number[]];
+
+function buildTees(pars: number[], si: number[], rows: TeeRow[]): Tee[] {
+  return rows.map(([id, name, rating, slope, yards]) => ({
+    id,
+    name,
+    rating,
+    slope,
+    holes: pars.map((par, i) => ({ par, si: si[i], yards: yards[i] })),
+  }));
+}
+
+// Kamloops, BC courses (city and nearby). Card data is approximate; override
+// with the course editor where a club's published card differs.
+export const COURSE_CATALOG: Course[] = [
+  {
+    id: "kamloops-gcc",
+    name: "Kamloops Golf & Country Club",
+    location: "Kamloops, BC",
+    tees: buildTees(
+      [4, 4, 3, 5, 4, 4, 3, 4, 5, 4, 5, 3, 4, 4, 4, 3, 5, 4],
+      [3, 11, 13, 1, 17, 9, 15, 5, 7, 2, 14, 6, 8, 12, 4, 18, 10, 16],
+      [
+        ["blue", "Blue", 72.1, 129, [400, 375, 190, 510, 365, 425, 150, 405, 510, 420, 530, 140, 370, 415, 410, 145, 535, 370]],
+        ["white", "White", 70.0, 124, [370, 350, 175, 475, 340, 395, 140, 375, 475, 390, 495, 130, 345, 385, 380, 135, 500, 345]],
+        ["red", "Red", 72.4, 127, [330, 310, 155, 420, 300, 350, 125, 330, 420, 345, 435, 115, 305, 340, 335, 120, 440, 305]],
+      ]
+    ),
+  },
+  {
+    id: "dunes",
+    name: "The Dunes at Kamloops",
+    location: "Kamloops, BC",
+    tees: buildTees(
+      [4, 5, 4, 3, 4, 4, 5, 3, 4, 4, 4, 3, 5, 4, 4, 3, 4, 5],
+      [12, 18, 14, 16, 6, 10, 8, 2, 4, 3, 5, 13, 15, 17, 11, 1, 9, 7],
+      [
+        ["black", "Black", 73.4, 131, [445, 570, 375, 160, 395, 375, 570, 150, 395, 375, 385, 180, 570, 385, 440, 160, 405, 540]],
+        ["blue", "Blue", 71.2, 126, [415, 535, 350, 150, 370, 350, 535, 140, 370, 350, 360, 170, 535, 360, 410, 150, 380, 505]],
+        ["white", "White", 68.9, 121, [380, 490, 320, 135, 340, 320, 490, 130, 340, 320, 330, 155, 490, 330, 375, 135, 350, 460]],
+        ["red", "Red", 70.5, 122, [335, 435, 285, 120, 300, 285, 435, 115, 300, 285, 290, 135, 435, 290, 330, 120, 310, 410]],
+      ]
+    ),
+  },
+  {
+    id: "rivershore",
+    name: "Rivershore Golf Links",
+    location: "Kamloops, BC",
+    tees: buildTees(
+      [4, 4, 5, 3, 4, 4, 3, 5, 4, 4, 3, 4, 5, 4, 4, 3, 4, 5],
+      [5, 7, 3, 1, 17, 15, 13, 11, 9, 12, 14, 10, 4, 8, 16, 18, 6, 2],
+      [
+        ["championship", "Championship", 74.2, 134, [380, 390, 565, 155, 445, 375, 150, 545, 435, 440, 195, 410, 575, 425, 415, 180, 400, 540]],
+        ["blue", "Blue", 71.6, 128, [350, 360, 520, 140, 410, 345, 140, 505, 400, 405, 180, 380, 530, 395, 385, 165, 370, 500]],
+        ["white", "White", 69.1, 122, [320, 330, 480, 130, 375, 320, 125, 460, 365, 370, 165, 350, 485, 360, 350, 150, 340, 455]],
+        ["red", "Red", 71.0, 124, [290, 295, 430, 115, 335, 285, 115, 415, 330, 330, 150, 310, 435, 325, 315, 135, 305, 410]],
+      ]
+    ),
+  },
+  {
+    id: "big-horn",
+    name: "Big Horn (Sun Rivers) Golf Club",
+    location: "Kamloops, BC",
+    tees: buildTees(
+      [5, 4, 3, 4, 4, 5, 4, 3, 4, 4, 4, 3, 5, 4, 3, 4, 5, 4],
+      [10, 4, 16, 8, 6, 2, 14, 18, 12, 11, 17, 7, 9, 1, 5, 13, 15, 3],
+      [
+        ["black", "Black", 72.8, 133, [535, 370, 175, 425, 420, 545, 415, 175, 365, 375, 425, 190, 525, 400, 155, 420, 555, 365]],
+        ["blue", "Blue", 70.6, 127, [500, 345, 165, 395, 390, 505, 385, 165, 340, 350, 395, 175, 490, 370, 145, 390, 515, 340]],
+        ["red", "Red", 70.9, 123, [430, 295, 140, 340, 335, 435, 330, 140, 290, 300, 340, 150, 420, 320, 125, 335, 445, 290]],
+      ]
+    ),
+  },
+  {
+    id: "eaglepoint",
+    name: "Eaglepoint Golf Resort",
+    location: "Kamloops, BC",
+    tees: buildTees(
+      [4, 5, 3, 4, 4, 4, 3, 4, 5, 4, 4, 5, 3, 4, 4, 3, 5, 4],
+      [3, 13, 15, 9, 1, 17, 7, 5, 11, 8, 6, 18, 14, 16, 4, 10, 2, 12],
+      [
+        ["gold", "Gold", 73.1, 135, [370, 555, 185, 410, 430, 425, 150, 375, 545, 430, 370, 520, 180, 425, 405, 190, 555, 365]],
+        ["blue", "Blue", 70.8, 129, [345, 510, 170, 375, 395, 390, 135, 350, 505, 395, 345, 480, 165, 390, 370, 175, 510, 340]],
+        ["white", "White", 68.7, 124, [315, 470, 155, 345, 360, 355, 125, 320, 460, 360, 315, 440, 150, 355, 340, 160, 470, 310]],
+        ["red", "Red", 70.6, 125, [285, 425, 140, 310, 330, 325, 115, 290, 415, 330, 285, 400, 135, 325, 310, 145, 425, 280]],
+      ]
+    ),
+  },
+  {
+    id: "tobiano",
+    name: "Tobiano",
+    location: "Savona, BC (nearby)",
+    tees: buildTees(
+      [4, 4, 3, 5, 4, 4, 3, 4, 5, 4, 5, 3, 4, 4, 3, 4, 5, 4],
+      [10, 6, 4, 14, 2, 12, 16, 18, 8, 9, 5, 13, 1, 15, 3, 17, 11, 7],
+      [
+        ["tips", "Tips", 75.0, 136, [445, 435, 170, 550, 450, 390, 175, 425, 555, 415, 595, 205, 450, 395, 170, 445, 595, 460]],
+        ["blue", "Blue", 72.2, 130, [405, 395, 155, 500, 405, 355, 160, 385, 505, 380, 540, 185, 405, 360, 155, 405, 540, 415]],
+        ["white", "White", 69.5, 124, [365, 355, 140, 455, 370, 320, 145, 350, 460, 345, 490, 165, 370, 325, 140, 365, 490, 380]],
+        ["red", "Red", 71.2, 126, [325, 315, 125, 400, 330, 285, 130, 310, 405, 305, 435, 150, 330, 290, 125, 325, 435, 335]],
+      ]
+    ),
+  },
+  {
+    id: "mount-paul",
+    name: "Mount Paul Golf Course",
+    location: "Kamloops, BC",
+    tees: buildTees(
+      [4, 3, 4, 4, 3, 5, 4, 3, 4],
+      [3, 7, 1, 2, 6, 5, 4, 9, 8],
+      [
+        ["white", "White", 32.4, 111, [320, 130, 330, 340, 140, 490, 330, 145, 345]],
+        ["red", "Red", 33.0, 113, [270, 110, 280, 290, 120, 415, 280, 125, 295]],
+      ]
+    ),
+  },
+  {
+    id: "pineridge",
+    name: "Pineridge Golf Course",
+    location: "Kamloops, BC",
+    tees: buildTees(
+      [3, 4, 3, 3, 4, 3, 3, 4, 3],
+      [7, 1, 4, 2, 3, 9, 6, 5, 8],
+      [
+        ["white", "White", 28.8, 98, [135, 285, 120, 120, 285, 120, 125, 315, 125]],
+        ["red", "Red", 29.4, 101, [115, 240, 100, 100, 240, 100, 105, 270, 105]],
+      ]
+    ),
+  },
+  {
+    id: "mcarthur-island",
+    name: "McArthur Island Golf Park",
+    location: "Kamloops, BC",
+    tees: buildTees(
+      [3, 3, 3, 3, 3, 3, 3, 3, 3],
+      [4, 1, 3, 8, 2, 7, 6, 9, 5],
+      [
+        ["white", "White", 26.9, 90, [95, 125, 130, 105, 110, 110, 95, 100, 120]],
+        ["red", "Red", 27.5, 93, [80, 105, 110, 90, 95, 95, 80, 85, 100]],
+      ]
+    ),
+  },
+];
+
+export function findCourse(courses: Course[], id: string): Course | undefined {
+  return courses.find((c) => c.id === id);
+}
+
+export function findTee(course: Course | undefined, id: string): Tee | undefined {
+  return course?.tees.find((t) => t.id === id);
+}
+
+// Holes a card's rating covers: its tee set's holes, or the card's own when the rating was typed in
+export function ratedHoles(s: Pick<Snapshot, "courseId" | "teeId" | "numHoles">, courses: Course[]): number {
+  return findTee(findCourse(courses, s.courseId), s.teeId)?.holes.length ?? s.numHoles;
+}
+
+export function teeYards(tee: Tee): number {
+  return tee.holes.reduce((a, h) => a + h.yards, 0);
+}
+
+export function slugify(s: string): string {
+  return s.replace(/[^a-z0-9]+/gi, "-").replace(/^-+|-+$/g, "").toLowerCase();
+}
+
+export function blankTee(numHoles = 18, name = "White"): Tee {
+  return {
+    id: slugify(name) || "tee",
+    name,
+    rating: numHoles === 9 ? 36 : 72,
+    slope: 113,
+    holes: Array.from({ length: numHoles }, (_, i) => ({ par: 4, si: i + 1, yards: 0 })),
+  };
+}
+
+export function blankCourse(numHoles = 18): Course {
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name: "New course",
+    tees: [blankTee(numHoles)],
+    custom: true,
+  };
+}
+
+// Validates one course definition; returns a list of problems (empty when valid).
+export function validateCourse(c: Course): string[] {
+  const errors: string[] = [];
+  if (!c.name.trim()) errors.push("Course name is required");
+  if (c.tees.length === 0) errors.push("At least one tee is required");
+  const teeIds = new Set<string>();
+  c.tees.forEach((t) => {
+    const label = t.name || "(unnamed tee)";
+    if (!t.name.trim()) errors.push("Every tee needs a name");
+    if (teeIds.has(t.id)) errors.push(`Duplicate tee "${label}"`);
+    teeIds.add(t.id);
+    if (t.holes.length < 1 || t.holes.length > 18) errors.push(`${label}: 1-18 holes required`);
+    if (!(t.rating > 0)) errors.push(`${label}: rating must be positive`);
+    if (t.slope < 55 || t.slope > 155) errors.push(`${label}: slope must be 55-155`);
+    const seen = new Set<number>();
+    t.holes.forEach((h, i) => {
+      if (h.par < 3 || h.par > 6) errors.push(`${label}: hole ${i + 1} par must be 3-6`);
+      if (h.si < 1 || h.si > t.holes.length) errors.push(`${label}: hole ${i + 1} SI out of range`);
+      else if (seen.has(h.si)) errors.push(`${label}: SI ${h.si} used more than once`);
+      seen.add(h.si);
+      if (h.yards < 0) errors.push(`${label}: hole ${i + 1} yardage cannot be negative`);
+    });
+  });
+  return errors;
+}
+
+function toNumber(v: unknown, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+// One entry of a course file; throws with a readable message if it is not a valid course
+function parseCourse(raw: unknown, ci: number): Course {
+  const c = raw as Partial<Course> | null;
+  if (!c || typeof c.name !== "string" || !Array.isArray(c.tees)) {
+    throw new Error(`Entry ${ci + 1} is not a course (needs "name" and "tees")`);
+  }
+  const course: Course = {
+    id: typeof c.id === "string" && c.id ? c.id : `custom-${slugify(c.name)}`,
+    name: c.name,
+    location: typeof c.location === "string" ? c.location : undefined,
+    custom: true,
+    tees: c.tees.map((t, ti) => ({
+      id: typeof t?.id === "string" && t.id ? t.id : `tee-${ti + 1}`,
+      name: typeof t?.name === "string" ? t.name : `Tee ${ti + 1}`,
+      rating: toNumber(t?.rating, 72),
+      slope: toNumber(t?.slope, 113),
+      holes: (Array.isArray(t?.holes) ? t.holes : []).map((h, hi) => ({
+        par: toNumber(h?.par, 4),
+        si: toNumber(h?.si, hi + 1),
+        yards: toNumber(h?.yards, 0),
+        green: parseGreen(h?.green),
+        tee: parseLatLng(h?.tee),
+      })),
+    })),
+  };
+  const errors = validateCourse(course);
+  if (errors.length) throw new Error(`${course.name}: ${errors[0]}`);
+  return course;
+}
+
+// Parse an exported course file (a single course or an array of courses).
+// Throws with a readable message if the file is not a course definition.
+export function parseCourses(text: string): Course[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  return (Array.isArray(data) ? data : [data]).map(parseCourse);
+}
+
+// A saved course that no longer validates is dropped on its own; the rest still load
+export function loadCustomCourses(): Course[] {
+  const raw = localStorage.getItem(COURSES_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const data: unknown = JSON.parse(raw);
+    return (Array.isArray(data) ? data : [data]).flatMap((c, ci) => {
+      try {
+        return [parseCourse(c, ci)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomCourses(courses: Course[]) {
+  localStorage.setItem(COURSES_STORAGE_KEY, JSON.stringify(courses));
+}
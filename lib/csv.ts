@@ -0,0 +1,305 @@
+// Scorecard CSV: export with par/SI/yardage, handicaps and totals, and a tolerant importer.
+
+import { COURSE_CATALOG } from "@/lib/courses";
+import { MAX_HANDICAP_INDEX, MIN_HANDICAP_INDEX, findAllowance, formatIndex } from "@/lib/handicap";
+import { emptyHoleStat, hasDetail } from "@/lib/holestats";
+import type { Fairway, HoleStat } from "@/lib/holestats";
+import { MAX_HOLES, MAX_PLAYERS, defaultPars, defaultSI, defaultSnapshot } from "@/lib/scorecard";
+import type { Player, Snapshot } from "@/lib/scorecard";
+import { CUSTOM_POINTS_ID, findPointsTable, findScoreCap, resolvePointsTable } from "@/lib/scoring";
+import { METRES_TO_YARDS } from "@/lib/units";
+
+export type CsvResult = {
+  net: number;
+  points: number;
+};
+
+export type CsvImport = {
+  snapshot: Snapshot | null; // null when nothing usable was found
+  errors: string[]; // rows or cells that were skipped
+};
+
+function quote(cell: string): string {
+  return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+function row(cells: (string | number)[]): string {
+  return cells.map((c) => quote(String(c))).join(",");
+}
+
+function sum(arr: number[]) {
+  return arr.reduce((a, b) => a + (b || 0), 0);
+}
+
+// Hole columns, then Out / In / Total so a spreadsheet can sum them
+function withTotals(values: number[], numHoles: number): (number | string)[] {
+  const out = sum(values.slice(0, Math.min(9, numHoles)));
+  const inn = numHoles > 9 ? sum(values.slice(9, numHoles)) : "";
+  return [...values.slice(0, numHoles), out, inn, sum(values.slice(0, numHoles))];
+}
+
+export function snapshotToCSV(snap: Snapshot, teeName: string, results: CsvResult[]): string {
+  const n = snap.numHoles;
+  const lines = [
+    row(["Course", snap.course]),
+    row(["Tee", teeName]),
+    row(["Rating", snap.rating || ""]),
+    row(["Slope", snap.slope]),
+    row(["Allowance", snap.allowance]),
+    row(["Stableford", snap.useStableford ? "yes" : "no"]),
+    row(["Points table", snap.pointsTable, ...(snap.pointsTable === CUSTOM_POINTS_ID ? snap.customPoints : [])]),
+    row(["Score cap", snap.scoreCap, ...(snap.scoreCap === "max" ? [snap.maxScore] : [])]),
+    row(["Hole", ...Array.from({ length: n }, (_, i) => i + 1), "Out", "In", "Total", "HI", "Net", "Points"]),
+    row(["Par", ...withTotals(snap.pars, n), "", "", ""]),
+    row(["SI", ...snap.si.slice(0, n), "", "", "", "", "", ""]),
+  ];
+  if (snap.yards.length) lines.push(row(["Yards", ...withTotals(snap.yards, n), "", "", ""]));
+
+  snap.players.slice(0, snap.numPlayers).forEach((p, i) => {
+    const r = results[i];
+    // Picked-up holes are written "P"
+    const cells = withTotals(p.scores.map((x) => x || 0), n).map((c, h) => (h < n && p.pickups?.[h] ? "P" : c));
+    lines.push(row([p.name, ...cells, formatIndex(p.handicap), r?.net ?? "", r?.points ?? ""]));
+    if (!p.stats?.some(hasDetail)) return;
+    const holes = Array.from({ length: n }, (_, h) => p.stats?.[h] ?? emptyHoleStat());
+    lines.push(row([`${p.name} putts`, ...holes.map((s) => s.putts ?? ""), "", "", sum(holes.map((s) => s.putts ?? 0))]));
+    lines.push(row([`${p.name} fairway`, ...holes.map((s) => s.fairway)]));
+    lines.push(row([`${p.name} penalties`, ...holes.map((s) => s.penalties), "", "", sum(holes.map((s) => s.penalties))]));
+    lines.push(row([`${p.name} sand`, ...holes.map((s) => s.sand), "", "", sum(holes.map((s) => s.sand))]));
+  });
+  return lines.join("\n");
+}
+
+// ---------- Import ----------
+
+// Minimal RFC 4180 parser: quoted cells, doubled quotes, embedded delimiters and newlines
+function parseRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      cells.push(cell);
+      rows.push(cells);
+      cells = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  rows.push(cells);
+  return rows.map((r) => r.map((c) => c.trim()));
+}
+
+// Spreadsheets in comma-decimal locales save with ";" (and tabs from copy/paste)
+function detectDelimiter(text: string): string {
+  const first = text.split(/\r?\n/).find((l) => l.trim()) ?? "";
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: first.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+function toNumber(cell: string): number | null {
+  if (cell === "") return null;
+  const n = Number(cell.replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+const META = ["course", "tee", "rating", "slope", "allowance", "stableford", "points table", "score cap"];
+const PAR = /^par$/;
+const SI = /^(si|s\.i\.|stroke ?index|index|hcp|hcp index)$/; // UK cards label the SI row "Hcp"
+const YARDS = /^(yards|yds|yardage|distance)$/;
+const METRES = /^(metres|meters|m)$/;
+const DETAIL = /^(.*)\s+(putts|fairway|fw|penalties|pen|sand|bunker)$/;
+const HOLE_HEADER = /^(?:h|hole\s*)?(\d{1,2})$/i;
+const PICKUP = /^(p|pu|nr|x)$/i; // picked up / no return
+const HCP_HEADER = /^(hi|hcp|handicap|handicap index)$/i;
+const FAIRWAYS: Record<string, Fairway> = { hit: "hit", y: "hit", yes: "hit", l: "left", left: "left", r: "right", right: "right" };
+
+export function parseCSV(text: string): CsvImport {
+  const errors: string[] = [];
+  const clean = text.replace(/^\uFEFF/, "");
+  const rows = parseRows(clean, detectDelimiter(clean));
+
+  // Locate the header row; without one, assume label + holes 1..N
+  const headerIdx = rows.findIndex((r) => /^holes?$/i.test(r[0] ?? ""));
+  const holeCols = new Map<number, number>(); // column -> hole index
+  let hcpCol = -1;
+  if (headerIdx >= 0) {
+    rows[headerIdx].forEach((cell, c) => {
+      if (c === 0) return;
+      const m = HOLE_HEADER.exec(cell);
+      if (m) {
+        const hole = Number(m[1]);
+        if (hole >= 1 && hole <= MAX_HOLES) holeCols.set(c, hole - 1);
+        else errors.push(`Row ${headerIdx + 1}: hole ${hole} is beyond the ${MAX_HOLES}-hole limit and was ignored`);
+      } else if (HCP_HEADER.test(cell)) {
+        hcpCol = c;
+      }
+    });
+  } else {
+    const widest = Math.max(...rows.map((r) => r.length)) - 1;
+    for (let c = 1; c <= Math.min(widest, MAX_HOLES); c++) holeCols.set(c, c - 1);
+    errors.push("No \"Hole\" header row found; assuming columns after the label are holes 1 onwards");
+  }
+  const numHoles = holeCols.size ? Math.max(...holeCols.values()) + 1 : 0;
+  if (numHoles === 0) return { snapshot: null, errors: [...errors, "No hole columns found"] };
+
+  const snap = defaultSnapshot();
+  const pars = defaultPars(MAX_HOLES).slice(0, numHoles);
+  const si = defaultSI(MAX_HOLES).slice(0, numHoles);
+  let yards: number[] = [];
+  const players: Player[] = [];
+  let tee = "";
+
+  const holeValues = (r: string[], line: number, label: string) => {
+    const values: number[] = Array(numHoles).fill(0);
+    const pickups: boolean[] = Array(numHoles).fill(false);
+    let found = 0;
+    holeCols.forEach((h, c) => {
+      const cell = r[c] ?? "";
+      if (cell === "" || cell === "-") return;
+      if (PICKUP.test(cell)) {
+        pickups[h] = true;
+        found++;
+        return;
+      }
+      const n = toNumber(cell);
+      if (n == null) errors.push(`Row ${line}: ${label} hole ${h + 1} "${cell}" is not a number`);
+      else {
+        values[h] = n;
+        found++;
+      }
+    });
+    return { values, pickups, found };
+  };
+
+  rows.forEach((r, idx) => {
+    const line = idx + 1;
+    if (idx === headerIdx || r.every((c) => c === "")) return;
+    const label = r[0] ?? "";
+    const key = label.toLowerCase();
+
+    if (META.includes(key)) {
+      const v = r[1] ?? "";
+      if (key === "course" && v) snap.course = v.slice(0, 60);
+      else if (key === "tee") tee = v;
+      else if (key === "rating") snap.rating = toNumber(v) ?? 0;
+      else if (key === "slope") snap.slope = toNumber(v) ?? snap.slope;
+      else if (key === "allowance") snap.allowance = findAllowance(v).id;
+      else if (key === "stableford") snap.useStableford = /^(yes|y|true|1|on)$/i.test(v);
+      else if (key === "points table") {
+        snap.pointsTable = findPointsTable(v).id;
+        if (snap.pointsTable === CUSTOM_POINTS_ID) snap.customPoints = resolvePointsTable(v, r.slice(2).map((c) => toNumber(c) ?? NaN));
+      } else if (key === "score cap") {
+        snap.scoreCap = findScoreCap(v).id;
+        const max = toNumber(r[2] ?? "");
+        if (max != null) snap.maxScore = Math.max(1, Math.min(20, Math.round(max)));
+      }
+      return;
+    }
+    if (!label) {
+      errors.push(`Row ${line}: row has no label in the first column`);
+      return;
+    }
+    if (PAR.test(key) || SI.test(key) || YARDS.test(key) || METRES.test(key)) {
+      const { values } = holeValues(r, line, label);
+      if (PAR.test(key)) {
+        values.forEach((v, h) => {
+          if (v) pars[h] = Math.round(v);
+        });
+      } else if (SI.test(key)) {
+        values.forEach((v, h) => {
+          if (v) si[h] = Math.round(v);
+        });
+      } else {
+        yards = values.map((v) => Math.round(METRES.test(key) ? v * METRES_TO_YARDS : v));
+      }
+      return;
+    }
+
+    const detail = DETAIL.exec(key);
+    const owner = detail ? players.find((p) => p.name.toLowerCase() === detail[1].trim()) : undefined;
+    if (detail && owner) {
+      const field = detail[2];
+      const stats: HoleStat[] = owner.stats ?? Array.from({ length: numHoles }, () => emptyHoleStat());
+      holeCols.forEach((h, c) => {
+        const cell = (r[c] ?? "").trim();
+        if (cell === "") return;
+        if (field === "fairway" || field === "fw") {
+          const fw = FAIRWAYS[cell.toLowerCase()];
+          if (fw) stats[h].fairway = fw;
+          else errors.push(`Row ${line}: fairway "${cell}" on hole ${h + 1} should be hit, left or right`);
+          return;
+        }
+        const n = toNumber(cell);
+        if (n == null) {
+          errors.push(`Row ${line}: ${label} hole ${h + 1} "${cell}" is not a number`);
+          return;
+        }
+        if (field === "putts") stats[h].putts = Math.round(n);
+        else if (field === "sand" || field === "bunker") stats[h].sand = Math.round(n);
+        else stats[h].penalties = Math.round(n);
+      });
+      owner.stats = stats;
+      return;
+    }
+
+    // Anything else with numbers in the hole columns is a player
+    const { values, pickups, found } = holeValues(r, line, label);
+    if (found === 0) {
+      errors.push(`Row ${line}: could not understand row "${label}"`);
+      return;
+    }
+    if (players.length >= MAX_PLAYERS) {
+      errors.push(`Row ${line}: only ${MAX_PLAYERS} players fit on a card, "${label}" was skipped`);
+      return;
+    }
+    // Plus handicaps are written "+2.4" on cards and stored negative
+    const hcpCell = hcpCol >= 0 ? (r[hcpCol] ?? "").trim() : "";
+    const hcp = hcpCell.startsWith("+") ? -(toNumber(hcpCell.slice(1)) ?? 0) : toNumber(hcpCell);
+    players.push({
+      name: label.slice(0, 20),
+      handicap: Math.max(MIN_HANDICAP_INDEX, Math.min(MAX_HANDICAP_INDEX, Math.round((hcp ?? 0) * 10) / 10)),
+      scores: values.map((v) => Math.max(0, Math.min(20, Math.round(v)))),
+      ...(pickups.some(Boolean) ? { pickups } : {}),
+    });
+  });
+
+  if (players.length === 0) return { snapshot: null, errors: [...errors, "No player rows found"] };
+
+  const catalog = COURSE_CATALOG.find((c) => c.name.toLowerCase() === snap.course.toLowerCase());
+  const catalogTee = catalog?.tees.find((t) => t.name.toLowerCase() === tee.toLowerCase());
+  return {
+    snapshot: {
+      ...snap,
+      numPlayers: players.length,
+      numHoles,
+      players,
+      pars,
+      si,
+      yards,
+      courseId: catalog && catalogTee?.holes.length === numHoles ? catalog.id : "",
+      teeId: catalog && catalogTee?.holes.length === numHoles ? catalogTee.id : "",
+      teamScores: snap.teamScores.map((t) => t.slice(0, numHoles)),
+    },
+    errors,
+  };
+}
@@ -0,0 +1,127 @@
+// Events: a field split into groups of up to four, each with its own card and start hole.
+
+import type { Translate } from "@/lib/i18n";
+import { parseSnapshot } from "@/lib/schema";
+import { MAX_PLAYERS, clearRound, createPlayers } from "@/lib/scorecard";
+import type { Snapshot } from "@/lib/scorecard";
+
+export type StartMode = "tee-times" | "shotgun";
+
+export type EventGroup = {
+  id: string;
+  name: string;
+  teeTime: string; // "08:10", empty when not set
+  snapshot: Snapshot; // for the active group this lags behind the page, see withActiveCard
+};
+
+export type GolfEvent = {
+  id: string;
+  name: string;
+  date: string; // YYYY-MM-DD
+  start: StartMode;
+  groups: EventGroup[];
+  activeGroup: string; // group whose card is open on this device
+};
+
+export const EVENT_STORAGE_KEY = "golf-event-v1";
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Same course and settings as the template card, with an empty group of players; the template's
+// signatures and Wolf picks belong to its own group
+export function blankGroupCard(template: Snapshot, size = MAX_PLAYERS, firstPlayer = 1): Snapshot {
+  return {
+    ...clearRound(template),
+    numPlayers: size,
+    players: createPlayers(size, template.numHoles).map((p, i) => ({ ...p, name: `Player ${firstPlayer + i}` })),
+    startHole: 1,
+  };
+}
+
+export function createEvent(name: string, card: Snapshot, t: Translate): GolfEvent {
+  const group: EventGroup = { id: newId("grp"), name: t("event.groupN", { n: 1 }), teeTime: "", snapshot: card };
+  return {
+    id: newId("evt"),
+    name: name.trim().slice(0, 60) || t("event.defaultName"),
+    date: new Date().toISOString().slice(0, 10),
+    start: "tee-times",
+    groups: [group],
+    activeGroup: group.id,
+  };
+}
+
+export function addGroup(event: GolfEvent, template: Snapshot, t: Translate): GolfEvent {
+  const number = event.groups.length + 1;
+  const players = event.groups.reduce((n, g) => n + g.snapshot.numPlayers, 0);
+  const group: EventGroup = {
+    id: newId("grp"),
+    name: t("event.groupN", { n: number }),
+    teeTime: "",
+    snapshot: blankGroupCard(template, MAX_PLAYERS, players + 1),
+  };
+  const next = { ...event, groups: [...event.groups, group] };
+  return event.start === "shotgun" ? assignShotgun(next) : next;
+}
+
+export function findGroup(event: GolfEvent, id: string): EventGroup | undefined {
+  return event.groups.find((g) => g.id === id);
+}
+
+// The open card lives in the page state; fold it back in before reading other groups
+export function withActiveCard(event: GolfEvent, card: Snapshot): GolfEvent {
+  return { ...event, groups: event.groups.map((g) => (g.id === event.activeGroup ? { ...g, snapshot: card } : g)) };
+}
+
+// One group per hole, in order; with more groups than holes, doubles up from hole 1 (1A/1B)
+export function assignShotgun(event: GolfEvent): GolfEvent {
+  return {
+    ...event,
+    groups: event.groups.map((g, i) => ({
+      ...g,
+      snapshot: { ...g.snapshot, startHole: (i % g.snapshot.numHoles) + 1 },
+    })),
+  };
+}
+
+export function setStartMode(event: GolfEvent, start: StartMode): GolfEvent {
+  if (start === "shotgun") return assignShotgun({ ...event, start });
+  return { ...event, start, groups: event.groups.map((g) => ({ ...g, snapshot: { ...g.snapshot, startHole: 1 } })) };
+}
+
+export function groupLabel(event: GolfEvent, group: EventGroup, t: Translate): string {
+  if (event.start === "tee-times") return group.teeTime ? `${group.name} · ${group.teeTime}` : group.name;
+  const hole = group.snapshot.startHole;
+  const same = event.groups.filter((g) => g.snapshot.startHole === hole);
+  const suffix = same.length > 1 ? String.fromCharCode(65 + same.indexOf(group)) : "";
+  return t("event.groupHole", { name: group.name, hole: `${hole}${suffix}` });
+}
+
+export function totalPlayers(event: GolfEvent): number {
+  return event.groups.reduce((n, g) => n + g.snapshot.numPlayers, 0);
+}
+
+export function loadEvent(): GolfEvent | null {
+  try {
+    const raw = localStorage.getItem(EVENT_STORAGE_KEY);
+    if (!raw) return null;
+    const event = JSON.parse(raw) as GolfEvent;
+    if (!Array.isArray(event.groups) || event.groups.length === 0) return null;
+    // Group cards go through the same migrations as the main card
+    const groups = event.groups.flatMap((g) => {
+      const { snapshot } = parseSnapshot(g.snapshot);
+      return snapshot ? [{ ...g, snapshot }] : [];
+    });
+    if (groups.length === 0) return null;
+    const activeGroup = groups.some((g) => g.id === event.activeGroup) ? event.activeGroup : groups[0].id;
+    return { ...event, groups, activeGroup };
+  } catch {
+    return null;
+  }
+}
+
+export function saveEvent(event: GolfEvent | null) {
+  if (event) localStorage.setItem(EVENT_STORAGE_KEY, JSON.stringify(event));
+  else localStorage.removeItem(EVENT_STORAGE_KEY);
+}
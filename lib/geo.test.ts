@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { currentFix, greenDistances, onTee, simulatedTrack } from "@/lib/geo";
+import type { Fix, Green, LatLng } from "@/lib/geo";
+
+// A par 4 running north, about 400 m, with the next tee just east of the green
+const TEE: LatLng = { lat: 50, lng: -120 };
+const GREEN: Green = {
+  front: { lat: 50.00345, lng: -120 },
+  centre: { lat: 50.0036, lng: -120 },
+  back: { lat: 50.00375, lng: -120 },
+};
+const NEXT_TEE: LatLng = { lat: 50.0037, lng: -119.9992 };
+const WALK: LatLng[] = [TEE, { lat: 50.0015, lng: -120 }, { lat: 50.0031, lng: -120 }, { lat: 50.00371, lng: -119.99921 }];
+
+function follow(points: LatLng[], accuracy?: number) {
+  const fixes: Fix[] = [];
+  const stop = simulatedTrack(points, 1000, accuracy).watch((f) => fixes.push(f), () => {});
+  return { fixes, stop };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("simulatedTrack", () => {
+  it("reports one point per interval, then stays at the last one", () => {
+    vi.useFakeTimers();
+    const { fixes } = follow(WALK);
+    expect(fixes).toHaveLength(1);
+    vi.advanceTimersByTime(1000);
+    expect(fixes).toHaveLength(2);
+    vi.advanceTimersByTime(10000);
+    expect(fixes.map(({ lat, lng }) => ({ lat, lng }))).toEqual(WALK);
+  });
+
+  it("stops reporting once the watch is cancelled", () => {
+    vi.useFakeTimers();
+    const { fixes, stop } = follow(WALK);
+    vi.advanceTimersByTime(1000);
+    stop();
+    vi.advanceTimersByTime(10000);
+    expect(fixes).toHaveLength(2);
+  });
+
+  it("answers a one-off request with its first point", async () => {
+    const fix = await currentFix(simulatedTrack(WALK));
+    expect({ lat: fix.lat, lng: fix.lng }).toEqual(TEE);
+  });
+});
+
+describe("distance to the green along a track", () => {
+  it("shrinks as the player walks up the hole", () => {
+    vi.useFakeTimers();
+    const { fixes } = follow(WALK.slice(0, 3));
+    vi.advanceTimersByTime(10000);
+    const centres = fixes.map((f) => greenDistances(f, GREEN).centre);
+    expect(centres[0]).toBeCloseTo(400, -1);
+    expect(centres[1]).toBeLessThan(centres[0]);
+    expect(centres[2]).toBeLessThan(centres[1]);
+    expect(centres[2]).toBeCloseTo(56, -1);
+  });
+
+  it("gives front, centre and back in order from the fairway", () => {
+    const d = greenDistances(WALK[1], GREEN);
+    expect(d.front).toBeLessThan(d.centre);
+    expect(d.back).toBeGreaterThan(d.centre);
+  });
+
+  it("has no front or back when the course only has a centre", () => {
+    expect(greenDistances(TEE, { centre: GREEN.centre })).toMatchObject({ front: null, back: null });
+  });
+});
+
+describe("next-tee advance along a track", () => {
+  it("is only on the next tee once the track reaches it", () => {
+    vi.useFakeTimers();
+    const { fixes } = follow(WALK);
+    vi.advanceTimersByTime(10000);
+    expect(fixes.map((f) => onTee(f, NEXT_TEE))).toEqual([false, false, false, true]);
+  });
+
+  it("doesn't advance on a fix too vague to place the player on the tee", () => {
+    vi.useFakeTimers();
+    const { fixes } = follow(WALK, 40);
+    vi.advanceTimersByTime(10000);
+    expect(fixes.some((f) => onTee(f, NEXT_TEE))).toBe(false);
+  });
+});
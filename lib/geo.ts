@@ -0,0 +1,142 @@
+// Green and tee coordinates, distances from the device, and where its location comes from.
+// Location is a pluggable provider: the browser's Geolocation API, or a simulated track.
+
+export type LatLng = {
+  lat: number;
+  lng: number;
+};
+
+export type Green = {
+  front?: LatLng;
+  centre: LatLng;
+  back?: LatLng;
+};
+
+export type Fix = LatLng & {
+  accuracy: number; // metres
+  at: number; // epoch ms
+};
+
+export type LocationError = "denied" | "unavailable" | "unsupported";
+
+// Starts reporting fixes; the returned function stops them
+export type LocationProvider = {
+  watch: (onFix: (fix: Fix) => void, onError: (error: LocationError) => void) => () => void;
+};
+
+const EARTH_RADIUS_METRES = 6371008.8;
+// Standing on a tee: within this many metres, from a fix no vaguer than the next limit
+export const ON_TEE_METRES = 20;
+export const MAX_TEE_ACCURACY_METRES = 25;
+
+// ---------- Providers ----------
+
+export function browserLocation(): LocationProvider {
+  return {
+    watch(onFix, onError) {
+      if (typeof navigator === "undefined" || !navigator.geolocation) {
+        onError("unsupported");
+        return () => {};
+      }
+      const id = navigator.geolocation.watchPosition(
+        (p) => onFix({ lat: p.coords.latitude, lng: p.coords.longitude, accuracy: p.coords.accuracy, at: p.timestamp }),
+        (e) => onError(e.code === e.PERMISSION_DENIED ? "denied" : "unavailable"),
+        { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+      );
+      return () => navigator.geolocation.clearWatch(id);
+    },
+  };
+}
+
+// Walks through the points one per interval, then stays at the last one
+export function simulatedTrack(points: LatLng[], intervalMs = 1000, accuracy = 5): LocationProvider {
+  return {
+    watch(onFix) {
+      let i = 0;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const step = () => {
+        if (i >= points.length) return;
+        onFix({ ...points[i], accuracy, at: Date.now() });
+        i++;
+        timer = setTimeout(step, intervalMs);
+      };
+      step();
+      return () => clearTimeout(timer);
+    },
+  };
+}
+
+// One fix, for marking a spot in the course editor
+export function currentFix(provider: LocationProvider): Promise<Fix> {
+  return new Promise((resolve, reject) => {
+    let done = false;
+    const settle = (then: () => void) => {
+      if (done) return;
+      done = true;
+      then();
+      // Deferred: the provider may answer before watch has returned its stop function
+      queueMicrotask(() => stop());
+    };
+    const stop = provider.watch(
+      (fix) => settle(() => resolve(fix)),
+      (error) => settle(() => reject(new Error(error)))
+    );
+  });
+}
+
+// ---------- Distances ----------
+
+// Great-circle (haversine) distance; at golf distances it is within centimetres
+export function distanceMetres(a: LatLng, b: LatLng): number {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METRES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export type GreenDistances = {
+  front: number | null; // metres, null when the course has no front/back point
+  centre: number;
+  back: number | null;
+};
+
+export function greenDistances(from: LatLng, green: Green): GreenDistances {
+  return {
+    front: green.front ? distanceMetres(from, green.front) : null,
+    centre: distanceMetres(from, green.centre),
+    back: green.back ? distanceMetres(from, green.back) : null,
+  };
+}
+
+export function onTee(fix: Fix, tee: LatLng): boolean {
+  return fix.accuracy <= MAX_TEE_ACCURACY_METRES && distanceMetres(fix, tee) <= ON_TEE_METRES;
+}
+
+// ---------- Parsing ----------
+
+export function parseLatLng(v: unknown): LatLng | undefined {
+  if (typeof v !== "object" || v === null) return undefined;
+  const { lat, lng } = v as Record<string, unknown>;
+  if (typeof lat !== "number" || typeof lng !== "number") return undefined;
+  if (!(Math.abs(lat) <= 90 && Math.abs(lng) <= 180)) return undefined;
+  return { lat, lng };
+}
+
+export function parseGreen(v: unknown): Green | undefined {
+  if (typeof v !== "object" || v === null) return undefined;
+  const g = v as Record<string, unknown>;
+  const centre = parseLatLng(g.centre);
+  if (!centre) return undefined;
+  return { front: parseLatLng(g.front), centre, back: parseLatLng(g.back) };
+}
+
+// "50.6745, -120.3273" as typed or pasted from a map
+export function parseLatLngText(text: string): LatLng | undefined {
+  const m = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+  return m ? parseLatLng({ lat: Number(m[1]), lng: Number(m[2]) }) : undefined;
+}
+
+export function formatLatLng(p: LatLng | undefined): string {
+  return p ? `${p.lat.toFixed(6)}, ${p.lng.toFixed(6)}` : "";
+}
@@ -0,0 +1,82 @@
+// World Handicap System conversions: Handicap Index -> Course Handicap -> Playing Handicap.
+
+export type Allowance = {
+  id: string;
+  label: string;
+  percent: number;
+};
+
+// Recommended handicap allowances (WHS Appendix C)
+export const ALLOWANCES: Allowance[] = [
+  { id: "stroke", label: "Stroke play (95%)", percent: 95 },
+  { id: "stableford", label: "Stableford (95%)", percent: 95 },
+  { id: "match", label: "Singles match play (100%)", percent: 100 },
+  { id: "fourball-stroke", label: "Four-ball stroke play (85%)", percent: 85 },
+  { id: "fourball-match", label: "Four-ball match play (90%)", percent: 90 },
+  { id: "full", label: "Full handicap (100%)", percent: 100 },
+];
+
+export const STANDARD_SLOPE = 113;
+export const MIN_HANDICAP_INDEX = -10; // plus handicaps are stored negative: +2.4 is -2.4
+export const MAX_HANDICAP_INDEX = 54;
+
+export type HandicapCalc = {
+  index: number;
+  slope: number;
+  rating: number;
+  par: number;
+  percent: number;
+  holes: number; // holes in the round; the index is for 18
+  exactCourse: number; // before rounding
+  course: number;
+  playing: number;
+};
+
+export function findAllowance(id: string): Allowance {
+  return ALLOWANCES.find((a) => a.id === id) ?? ALLOWANCES[0];
+}
+
+// Course Handicap = Index × (Holes / 18) × (Slope / 113) + (Course Rating − Par),
+// with rating and par for the holes being played
+export function courseHandicap(index: number, slope: number, rating: number, par: number, holes = 18): number {
+  return index * (holes / 18) * (slope / STANDARD_SLOPE) + (rating - par);
+}
+
+// A tee's rating covers all its holes; playing fewer (or replaying them) scales it
+export function ratingForHoles(rating: number, ratedHoles: number, holes: number): number {
+  return ratedHoles > 0 ? (rating * holes) / ratedHoles : rating;
+}
+
+export function calcHandicap(index: number, slope: number, rating: number, par: number, percent: number, holes = 18): HandicapCalc {
+  const exactCourse = courseHandicap(index, slope, rating, par, holes);
+  const course = Math.round(exactCourse);
+  return {
+    index,
+    slope,
+    rating,
+    par,
+    percent,
+    holes,
+    exactCourse,
+    course,
+    playing: Math.round((course * percent) / 100),
+  };
+}
+
+// Human-readable breakdown, e.g. "12.4 × 129/113 + (72.1 − 72) = 14.3 → 14; 14 × 95% → 13"
+export function describeHandicap(c: HandicapCalc): string {
+  const holes = c.holes === 18 ? "" : ` × ${c.holes}/18`;
+  return (
+    `${formatIndex(c.index)}${holes} × ${c.slope}/${STANDARD_SLOPE} + (${roundTenth(c.rating)} − ${c.par}) = ${c.exactCourse.toFixed(1)} → ${c.course}; ` +
+    `${c.course} × ${c.percent}% → ${c.playing}`
+  );
+}
+
+// Plus handicaps read "+2.4"
+export function formatIndex(index: number): string {
+  return index < 0 ? `+${-index}` : String(index);
+}
+
+function roundTenth(n: number): number {
+  return Math.round(n * 10) / 10;
+}
@@ -0,0 +1,200 @@
+// Handicap Index from a golfer's saved rounds (WHS Rules 3-5): adjusted gross with net double bogey,
+// score differentials, the best 8 of the latest 20, and soft and hard caps against the Low Handicap Index.
+
+import type { ArchivedRound } from "@/lib/archive";
+import { ratedHoles } from "@/lib/courses";
+import type { Course } from "@/lib/courses";
+import { MAX_HANDICAP_INDEX, STANDARD_SLOPE, courseHandicap, formatIndex, ratingForHoles } from "@/lib/handicap";
+import type { Translate } from "@/lib/i18n";
+import type { Golfer } from "@/lib/roster";
+import { parseSnapshot } from "@/lib/schema";
+import type { Player, Snapshot } from "@/lib/scorecard";
+import { allocateStrokes } from "@/lib/scoring";
+
+// One saved round for one golfer, over 9 or 18 holes
+export type RoundScore = {
+  roundId: string;
+  date: string; // ISO timestamp the round was finished
+  course: string;
+  holes: number; // 9 or 18
+  adjustedGross: number;
+  rating: number; // for the holes played
+  slope: number;
+  differential: number;
+};
+
+// An 18-hole score differential: one 18-hole round, or two 9-hole rounds added together
+export type ScoreRecord = {
+  date: string; // of the later round
+  scores: RoundScore[];
+  differential: number;
+};
+
+export type IndexRevision = {
+  date: string; // of the score that brought it
+  index: number | null; // null until there are 3 scores
+  calculated: number | null; // before the caps
+  low: number | null; // Low Handicap Index: lowest index of the year before, once there are 20 scores
+  cap: "soft" | "hard" | null;
+  counted: number[]; // positions in the scoring record of the differentials used
+};
+
+export type HandicapRecord = {
+  records: ScoreRecord[]; // oldest first
+  revisions: IndexRevision[]; // one per record
+  current: IndexRevision | null;
+  pendingNine: RoundScore | null; // a 9-hole score waiting for another to pair with
+};
+
+export const RECORD_SIZE = 20;
+// Increases over the Low Handicap Index: above the soft cap only half counts, and never past the hard cap
+export const SOFT_CAP = 3;
+export const HARD_CAP = 5;
+const LOW_INDEX_DAYS = 365;
+
+// [scores in the record, differentials used, adjustment] (WHS Rule 5.2a)
+const BEST_OF: [number, number, number][] = [
+  [3, 1, -2],
+  [4, 1, -1],
+  [5, 1, 0],
+  [6, 2, -1],
+  [7, 2, 0],
+  [9, 3, 0],
+  [12, 4, 0],
+  [15, 5, 0],
+  [17, 6, 0],
+  [19, 7, 0],
+  [20, 8, 0],
+];
+
+// Fewest holes played for a score to count; the rest count as net par
+const MIN_HOLES_PLAYED: Record<number, number> = { 9: 7, 18: 14 };
+
+function roundTenth(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+// Same golfer on another card: roster id when both have one, otherwise the name
+export function sameGolfer(a: { id?: string; name: string }, b: { id?: string; name: string }): boolean {
+  return a.id && b.id ? a.id === b.id : a.name === b.name;
+}
+
+// Archived rounds in the current schema; unreadable ones are left out
+export function readableRounds(rounds: ArchivedRound[]): ArchivedRound[] {
+  return rounds.flatMap((r) => {
+    const { snapshot } = parseSnapshot(r.snapshot);
+    return snapshot ? [{ ...r, snapshot }] : [];
+  });
+}
+
+// null when the round can't be posted: not 9 or 18 holes, no course rating, or too few holes played
+export function roundScore(s: Snapshot, p: Player, ratedHoles: number): Omit<RoundScore, "roundId" | "date" | "course"> | null {
+  const holes = s.numHoles;
+  if (!MIN_HOLES_PLAYED[holes] || !s.rating) return null;
+  const pars = s.pars.slice(0, holes);
+  const par = pars.reduce((a, b) => a + b, 0);
+  const rating = ratingForHoles(s.rating, ratedHoles, holes);
+  const slope = s.slope || STANDARD_SLOPE;
+  // Net double bogey uses the Course Handicap from the index the golfer played off
+  const strokes = allocateStrokes(Math.round(courseHandicap(p.handicap, slope, rating, par, holes)), s.si, holes);
+  let played = 0;
+  let adjustedGross = 0;
+  pars.forEach((holePar, h) => {
+    const netPar = holePar + strokes[h];
+    const gross = p.scores[h] || 0;
+    if (p.pickups?.[h]) {
+      played++;
+      adjustedGross += netPar + 2;
+    } else if (gross > 0) {
+      played++;
+      adjustedGross += Math.min(gross, netPar + 2);
+    } else adjustedGross += netPar;
+  });
+  if (played < MIN_HOLES_PLAYED[holes]) return null;
+  return { holes, adjustedGross, rating, slope, differential: roundTenth((STANDARD_SLOPE / slope) * (adjustedGross - rating)) };
+}
+
+// Index from the latest differentials, oldest first; null below 3
+function bestOf(differentials: number[]): { index: number; counted: number[] } | null {
+  const rule = BEST_OF.filter(([n]) => n <= differentials.length).pop();
+  if (!rule) return null;
+  const [, used, adjustment] = rule;
+  // Ties go to the more recent score
+  const counted = differentials
+    .map((d, i) => ({ d, i }))
+    .sort((a, b) => a.d - b.d || b.i - a.i)
+    .slice(0, used)
+    .map((x) => x.i);
+  const avg = counted.reduce((a, i) => a + differentials[i], 0) / used;
+  return { index: Math.min(MAX_HANDICAP_INDEX, roundTenth(avg + adjustment)), counted };
+}
+
+// Index after each score, with the caps worked out from the indexes before it
+export function indexRevisions(records: ScoreRecord[]): IndexRevision[] {
+  const revisions: IndexRevision[] = [];
+  records.forEach((r, i) => {
+    const first = Math.max(0, i + 1 - RECORD_SIZE);
+    const best = bestOf(records.slice(first, i + 1).map((x) => x.differential));
+    if (!best) {
+      revisions.push({ date: r.date, index: null, calculated: null, low: null, cap: null, counted: [] });
+      return;
+    }
+    const since = new Date(r.date).getTime() - LOW_INDEX_DAYS * 86400000;
+    const year = revisions.flatMap((x) => (x.index != null && new Date(x.date).getTime() >= since ? [x.index] : []));
+    const low = i + 1 >= RECORD_SIZE && year.length ? Math.min(...year) : null;
+    let index = best.index;
+    let cap: IndexRevision["cap"] = null;
+    if (low != null && index - low > SOFT_CAP) {
+      index = roundTenth(low + SOFT_CAP + (index - low - SOFT_CAP) / 2);
+      cap = "soft";
+      if (index - low > HARD_CAP) {
+        index = roundTenth(low + HARD_CAP);
+        cap = "hard";
+      }
+    }
+    revisions.push({ date: r.date, index, calculated: best.index, low, cap, counted: best.counted.map((k) => k + first) });
+  });
+  return revisions;
+}
+
+export function handicapRecord(rounds: ArchivedRound[], golfer: { id?: string; name: string }, courses: Course[]): HandicapRecord {
+  const records: ScoreRecord[] = [];
+  let pendingNine: RoundScore | null = null;
+  [...rounds]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((r) => {
+      const s = r.snapshot;
+      const p = s.players.slice(0, s.numPlayers).find((x) => sameGolfer(x, golfer));
+      if (!p) return;
+      const score = roundScore(s, p, ratedHoles(s, courses));
+      if (!score) return;
+      const posted = { ...score, roundId: r.id, date: r.date, course: r.course };
+      if (posted.holes === 18) records.push({ date: posted.date, scores: [posted], differential: posted.differential });
+      else if (pendingNine) {
+        records.push({ date: posted.date, scores: [pendingNine, posted], differential: roundTenth(pendingNine.differential + posted.differential) });
+        pendingNine = null;
+      } else pendingNine = posted;
+    });
+  const revisions = indexRevisions(records);
+  return { records, revisions, current: revisions[revisions.length - 1] ?? null, pendingNine };
+}
+
+// Golfers who keep their index from rounds, updated; the same list when nothing changed
+export function refreshIndexes(roster: Golfer[], rounds: ArchivedRound[], courses: Course[]): Golfer[] {
+  let changed = false;
+  const next = roster.map((g) => {
+    if (!g.autoIndex) return g;
+    const index = handicapRecord(rounds, g, courses).current?.index;
+    if (index == null || index === g.handicapIndex) return g;
+    changed = true;
+    return { ...g, handicapIndex: index };
+  });
+  return changed ? next : roster;
+}
+
+// "12.4 (soft cap, low 10.1)" or "—" before 3 scores
+export function describeRevision(r: IndexRevision | null, t: Translate): string {
+  if (r?.index == null) return "—";
+  if (!r.cap || r.low == null) return formatIndex(r.index);
+  return t("record.revision", { index: formatIndex(r.index), cap: t(`record.${r.cap}Cap`), low: formatIndex(r.low) });
+}
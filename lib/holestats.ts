@@ -0,0 +1,84 @@
+// Optional per-hole detail (putts, fairway, penalties, bunker shots) and the stats derived from it.
+
+export type Fairway = "" | "hit" | "left" | "right"; // "" = not recorded
+
+export type HoleStat = {
+  putts: number | null; // null = not recorded
+  fairway: Fairway; // par 4 and 5 only
+  penalties: number;
+  sand: number; // bunker shots
+};
+
+export type DetailStats = {
+  fairways: number;
+  fairwayChances: number;
+  gir: number;
+  girChances: number;
+  putts: number;
+  puttHoles: number;
+  scrambles: number; // par or better after missing the green
+  scrambleChances: number;
+  sandSaves: number; // par or better on holes with a bunker shot
+  sandChances: number;
+  penalties: number;
+};
+
+export function emptyHoleStat(): HoleStat {
+  return { putts: null, fairway: "", penalties: 0, sand: 0 };
+}
+
+export function hasDetail(s: HoleStat | undefined): boolean {
+  return !!s && (s.putts != null || s.fairway !== "" || s.penalties > 0 || s.sand > 0);
+}
+
+// Green in regulation: on the green in par minus two strokes or fewer
+export function isGIR(gross: number, par: number, putts: number | null): boolean | null {
+  if (!gross || putts == null) return null;
+  return gross - putts <= par - 2;
+}
+
+export function pct(n: number, of: number): string {
+  return of > 0 ? `${Math.round((n / of) * 100)}%` : "—";
+}
+
+export function computeDetailStats(scores: number[], pars: number[], stats: HoleStat[] | undefined, numHoles: number): DetailStats {
+  const out: DetailStats = {
+    fairways: 0,
+    fairwayChances: 0,
+    gir: 0,
+    girChances: 0,
+    putts: 0,
+    puttHoles: 0,
+    scrambles: 0,
+    scrambleChances: 0,
+    sandSaves: 0,
+    sandChances: 0,
+    penalties: 0,
+  };
+  for (let h = 0; h < numHoles; h++) {
+    const s = stats?.[h];
+    const gross = scores[h] || 0;
+    if (!s || !gross) continue;
+    out.penalties += s.penalties;
+    if (pars[h] >= 4 && s.fairway !== "") {
+      out.fairwayChances++;
+      if (s.fairway === "hit") out.fairways++;
+    }
+    if (s.putts != null) {
+      out.putts += s.putts;
+      out.puttHoles++;
+      out.girChances++;
+      if (isGIR(gross, pars[h], s.putts)) {
+        out.gir++;
+      } else {
+        out.scrambleChances++;
+        if (gross <= pars[h]) out.scrambles++;
+      }
+    }
+    if (s.sand > 0) {
+      out.sandChances++;
+      if (gross <= pars[h]) out.sandSaves++;
+    }
+  }
+  return out;
+}
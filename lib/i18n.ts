@@ -0,0 +1,1419 @@
+// UI text in English and French, with locale-aware number and time formatting.
+// Messages use {name} placeholders; numbers are formatted before they are passed in.
+
+export type Language = "en" | "fr";
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: "en", label: "English" },
+  { id: "fr", label: "Français" },
+];
+
+// Locale for numbers, dates and times; the catalog courses are in Canada
+export const LOCALES: Record<Language, string> = { en: "en-CA", fr: "fr-CA" };
+
+const EN = {
+  // Toolbar
+  "app.title": "Golf Scorecard",
+  "app.subtitle": "Up to {players} players per group · up to {holes} holes",
+  "toolbar.actions": "Primary actions",
+  "toolbar.reset": "Reset",
+  "toolbar.finish": "Finish round",
+  "toolbar.finishTitle": "Save this round to history",
+  "toolbar.history": "History",
+  "toolbar.historyTitle": "Past rounds",
+  "toolbar.roster": "Roster",
+  "toolbar.rosterTitle": "Saved golfers",
+  "toolbar.event": "Event",
+  "toolbar.eventTitle": "Groups, tee times and shotgun starts",
+  "toolbar.tournament": "Tournament",
+  "toolbar.tournamentTitle": "Leaderboard across rounds and groups",
+  "toolbar.live": "Live",
+  "toolbar.liveTitle": "Score together on several devices",
+  "toolbar.sign": "Sign",
+  "toolbar.signed": "Signed",
+  "toolbar.signTitle": "Signatures and the official PDF",
+  "toolbar.undo": "Undo",
+  "toolbar.redo": "Redo",
+  "toolbar.log": "Log",
+  "toolbar.logTitle": "Every change to this card",
+  "toolbar.check": "Check",
+  "toolbar.checkTitle": "Missing holes, stroke index mistakes and unlikely scores",
+  "toolbar.exportCsv": "Export CSV",
+  "toolbar.exportJson": "Export JSON",
+  "toolbar.exportJsonTitle": "Export the full card as JSON",
+  "toolbar.import": "Import",
+  "toolbar.importTitle": "Import JSON or CSV",
+  "toolbar.share": "Share",
+  "toolbar.shareTitle": "Share link and QR code",
+  "toolbar.print": "Print",
+  "toolbar.theme": "Theme",
+  "toolbar.themeTitle": "Toggle theme",
+  "prefs.language": "Language",
+  "prefs.units": "Distance units",
+
+  // Banners
+  "banner.update": "A new version of the scorecard is available. Your card is saved and stays as it is.",
+  "banner.updateNow": "Update now",
+  "banner.later": "Later",
+  "banner.readOnly": "Viewing a shared card. Scores can't be changed here.",
+  "banner.editCopy": "Edit a copy",
+  "banner.locked": "Signed by {player} and {marker}. Scores are locked.",
+  "banner.unlock": "Unlock…",
+  "live.code": "Live {code}",
+  "live.you": "You",
+  "live.host": "(host)",
+  "live.guest": "Guest",
+  "live.waiting": "Waiting for others to join…",
+  "pace.alert": "{time} behind pace.",
+  "pace.alertFinish": "Finishing around {time} at target pace.",
+  "event.groups": "Event groups",
+
+  // Controls
+  "controls.label": "Configuration",
+  "controls.course": "Course",
+  "controls.manualCourse": "{name} (enter par/SI)",
+  "controls.catalogRegion": "Kamloops, BC",
+  "controls.myCourses": "My courses",
+  "controls.editCourses": "Edit courses",
+  "controls.editCoursesTitle": "Create, import or export course definitions",
+  "controls.tee": "Tee",
+  "controls.ratingSlope": "Rating / Slope",
+  "controls.slope": "Slope rating",
+  "controls.allowance": "Allowance",
+  "controls.players": "Players",
+  "controls.holes": "Holes",
+  "controls.startHole": "Start hole",
+  "controls.startHoleTitle": "Shotgun start: the group tees off here and wraps past the last hole",
+  "controls.stableford": "Stableford points",
+  "controls.pointsTable": "Points table",
+  "controls.pointsFor": "Points for a net {result}",
+  "controls.scoreCap": "Score cap",
+  "controls.scoreCapTitle": "Highest score that counts on a hole for adjusted gross; pick-ups count as the cap",
+  "controls.maxScore": "Maximum score per hole",
+  "controls.format": "Format",
+  "controls.matchPlay": "Match play",
+  "controls.matchNeedsTwo": "Needs two players",
+  "controls.matchTitle": "Singles match between players 1 and 2",
+  "controls.holeDetails": "Hole details",
+  "controls.holeView": "Hole view",
+  "controls.holeViewTitle": "Enter one hole at a time with big buttons",
+  "controls.prev": "Prev",
+  "controls.next": "Next",
+  "controls.hole": "Hole {n}",
+  "controls.startTimer": "Start Timer",
+  "controls.pauseTimer": "Pause Timer",
+  "controls.gps": "GPS",
+  "controls.gpsTitle": "Distances to the green from this device's location",
+  "controls.shots": "Shot log",
+  "controls.shotsTitle": "Log every shot's lie and distance for strokes gained",
+
+  // Options from the scoring and handicap lists
+  "allowance.stroke": "Stroke play (95%)",
+  "allowance.stableford": "Stableford (95%)",
+  "allowance.match": "Singles match play (100%)",
+  "allowance.fourball-stroke": "Four-ball stroke play (85%)",
+  "allowance.fourball-match": "Four-ball match play (90%)",
+  "allowance.full": "Full handicap (100%)",
+  "teamFormat.none": "Individual",
+  "teamFormat.fourball": "Four-ball better ball",
+  "teamFormat.scramble": "Scramble",
+  "teamFormat.foursomes": "Foursomes",
+  "teamFormat.texas": "Texas scramble",
+  "pointsTable.standard": "Standard Stableford",
+  "pointsTable.modified": "Modified Stableford (+8/+5/+2/0/−1/−3)",
+  "pointsTable.custom": "Custom points",
+  "points.0": "Albatross",
+  "points.1": "Eagle",
+  "points.2": "Birdie",
+  "points.3": "Par",
+  "points.4": "Bogey",
+  "points.5": "Double+",
+  "scoreCap.none": "No cap",
+  "scoreCap.ndb": "Net double bogey",
+  "scoreCap.max": "Maximum score",
+  "lie.tee": "Tee",
+  "lie.fairway": "Fairway",
+  "lie.rough": "Rough",
+  "lie.sand": "Sand",
+  "lie.green": "Green",
+  "sg.ott": "Off the tee",
+  "sg.app": "Approach",
+  "sg.arg": "Around the green",
+  "sg.putt": "Putting",
+
+  // Scorecard table
+  "table.player": "Player",
+  "table.hole": "H{n}",
+  "table.out": "Out",
+  "table.in": "In",
+  "table.inRange": "In 10–{n}",
+  "table.total": "Total",
+  "table.net": "Net",
+  "table.adjusted": "Adj",
+  "table.points": "Pts",
+  "table.parSi": "Par / SI",
+  "table.parFor": "Par for hole {n}",
+  "table.siFor": "Stroke index for hole {n}",
+  "table.nameFor": "Name for player {n}",
+  "table.rosterFor": "Roster golfer for player {n}",
+  "table.unlink": "Unlink golfer",
+  "table.fromRoster": "From roster…",
+  "table.saveGolfer": "Save",
+  "table.saveGolferTitle": "Save this golfer to the roster",
+  "table.hi": "HI",
+  "table.handicapIndex": "Handicap Index",
+  "table.plusTitle": "Plus handicaps are entered as negative numbers",
+  "table.handicapFor": "Handicap Index for {name}",
+  "table.courseAndPlaying": "CH {course} · PH {playing}",
+  "table.teamFor": "Team for {name}",
+  "table.receivesStroke": "Receives a stroke",
+  "table.scoreFor": "Score for {name} on hole {n}",
+  "table.scoreForPickedUp": "Score for {name} on hole {n}, picked up",
+  "table.pickupHint": "Type P for a pick-up",
+  "table.pickup": "P",
+  "table.noReturn": "NR",
+  "table.noReturnTitle": "No return: picked up",
+  "table.detail": "Putts · FW · Pen · Sand",
+  "table.puttsFor": "Putts for {name} on hole {n}",
+  "table.putts": "P",
+  "table.fairwayFor": "Fairway for {name} on hole {n}",
+  "table.fairway": "FW",
+  "table.fairwayHit": "Hit",
+  "table.fairwayLeft": "Left",
+  "table.fairwayRight": "Right",
+  "table.penaltiesFor": "Penalty strokes for {name} on hole {n}",
+  "table.penalties": "Pen",
+  "table.sandFor": "Bunker shots for {name} on hole {n}",
+  "table.sand": "Sand",
+  "table.gir": "GIR",
+  "table.noGir": "no GIR",
+  "table.match": "Match",
+  "table.status": "Status",
+  "table.final": "Final",
+  "table.thru": "Thru {n}",
+  "table.teamHandicap": "Team hcp {n}",
+  "table.teamScoreFor": "{team} score on hole {n}",
+  "table.ballOf": "{name}'s ball",
+  "table.average": "Avg / hole",
+
+  // Player and team cards
+  "stats.players": "Player stats",
+  "stats.teams": "Team stats",
+  "stats.playingHandicap": "Playing hcp",
+  "stats.match": "Match",
+  "stats.matchReceives": "Match (receives {n})",
+  "stats.birdies": "Birdies",
+  "stats.eagles": "Eagles",
+  "stats.pars": "Pars",
+  "stats.bogeys": "Bogeys",
+  "stats.points": "Points",
+  "stats.fairways": "Fairways",
+  "stats.greens": "Greens (GIR)",
+  "stats.putts": "Putts",
+  "stats.perHole": "{n}/hole",
+  "stats.scrambling": "Scrambling",
+  "stats.sandSaves": "Sand saves",
+  "stats.penalties": "Penalties",
+  "stats.strokesGained": "Strokes gained",
+  "stats.teamHandicap": "Team hcp ({how})",
+  "stats.gross": "Gross",
+  "stats.net": "Net",
+
+  // Pace of play
+  "pace.label": "Pace of play",
+  "pace.title": "Pace",
+  "pace.teeTime": "Tee time",
+  "pace.alertAfter": "Alert after",
+  "pace.alertAfterTitle": "Show an alert once the group is this many minutes behind",
+  "pace.minutes": "min",
+  "pace.thisHole": "This hole",
+  "pace.behind": "Behind",
+  "pace.ahead": "Ahead",
+  "pace.targetRound": "Target round",
+  "pace.scheduledFinish": "Scheduled finish",
+  "pace.projectedFinish": "Projected finish",
+  "pace.finishedAt": "Finished {time}",
+  "pace.notFinished": "Not finished",
+  "pace.targetMinutes": "{n}m",
+  "pace.editTargets": "Edit targets",
+  "pace.hideTargets": "Hide targets",
+  "pace.parDefault": "Par {par} default: {n} min",
+  "pace.parDefaults": "Par defaults",
+
+  // Hole view
+  "holeEntry.label": "Enter scores for hole {n}",
+  "holeEntry.heading": "Hole {n} · Par {par} · SI {si}",
+  "holeEntry.previous": "Previous hole",
+  "holeEntry.next": "Next hole",
+  "holeEntry.gets": "Gets {n}",
+  "holeEntry.gives": "Gives {n}",
+  "holeEntry.net": "net {n}",
+  "holeEntry.less": "One less for {name}",
+  "holeEntry.more": "One more for {name}",
+  "holeEntry.quick": "Quick score for {name}",
+  "holeEntry.birdie": "Birdie",
+  "holeEntry.par": "Par",
+  "holeEntry.bogey": "Bogey",
+  "holeEntry.double": "Double",
+  "holeEntry.pickUp": "Pick up",
+  "holeEntry.save": "Save",
+  "holeEntry.saveNext": "Save & next hole",
+
+  // GPS
+  "gps.label": "Distance to the green",
+  "gps.title": "Hole {n} green",
+  "gps.front": "Front",
+  "gps.centre": "Centre",
+  "gps.back": "Back",
+  "gps.accuracy": "Accuracy ±{n} {unit}",
+  "gps.waiting": "Finding your location…",
+  "gps.noGreen": "No green coordinates for this hole. Add them in the course editor.",
+  "gps.autoAdvance": "Next hole on its tee",
+  "gps.autoAdvanceTitle": "Move to the next hole when you're standing on its tee",
+  "gps.denied": "Location permission was denied.",
+  "gps.unavailable": "Your location isn't available right now.",
+  "gps.unsupported": "This browser can't share its location.",
+
+  // Shot log
+  "shots.label": "Shot log",
+  "shots.title": "Hole {n} shots",
+  "shots.player": "Player",
+  "shots.shot": "Shot {n}",
+  "shots.lie": "Lie",
+  "shots.distance": "To the hole ({unit})",
+  "shots.penalty": "Penalty",
+  "shots.remove": "Remove",
+  "shots.add": "Add shot",
+  "shots.empty": "No shots logged on this hole.",
+  "shots.noScore": "{n} strokes logged but no score entered.",
+  "shots.mismatch": "{n} strokes logged but the score is {gross}.",
+  "shots.useLog": "Set score to {n}",
+  "shots.round": "This round ({n} holes)",
+  "shots.archived": "Average of {n} saved rounds",
+  "shots.none": "Strokes gained counts holes whose log matches the score.",
+  "shots.total": "Total",
+
+  // Distances
+  "units.yd": "Yards",
+  "units.m": "Metres",
+  "units.ydShort": "yds",
+  "units.mShort": "m",
+  "units.ftShort": "ft",
+
+  // Panels
+  "panel.close": "Close",
+
+  // Match play
+  "match.allSquare": "AS",
+  "match.dormie": "Dormie {n}",
+  "match.up": "{n} UP",
+  "match.down": "{n} DOWN",
+  "match.notStarted": "Not started",
+  "match.halved": "Halved",
+  "match.won": "Won {result}",
+  "match.lost": "Lost {result}",
+  "match.thru": "{status} thru {n}",
+  "team.0": "Team A",
+  "team.1": "Team B",
+  "team.2": "Team C",
+  "team.3": "Team D",
+
+  // Side games
+  "side.label": "Side games",
+  "side.stake": "Stake",
+  "side.grossOrNet": "Gross or net",
+  "side.gross": "Gross",
+  "side.net": "Net",
+  "side.skins": "Skins",
+  "side.carryovers": "Carryovers",
+  "side.skinHole": "H{n}: {result}",
+  "side.carry": "carry",
+  "side.tie": "tie",
+  "side.carried": "{n} carried",
+  "side.nassau": "Nassau",
+  "side.autoPress": "Auto press at",
+  "side.pressDown": "Holes down to press",
+  "side.down": "down",
+  "side.versus": "{a} v {b}",
+  "side.front": "Front",
+  "side.back": "Back",
+  "side.overall": "Overall",
+  "side.match": "Match",
+  "side.press": "Press {n}",
+  "side.notStarted": "not started",
+  "side.allSquare": "AS",
+  "side.leads": "{name} {n} UP",
+  "side.final": "{lead} (final)",
+  "side.thru": "{lead} thru {n}",
+  "side.wolf": "Wolf",
+  "side.wolfNeedsThree": "Needs three or four players",
+  "side.order": "Order",
+  "side.orderFor": "Wolf order {n}",
+  "side.hole": "Hole",
+  "side.partner": "Partner",
+  "side.pickFor": "Wolf pick on hole {n}",
+  "side.loneWolf": "Lone wolf",
+  "side.result": "Result",
+  "side.wolfWon": "Wolf",
+  "side.fieldWon": "Field",
+  "side.player": "Player",
+  "side.total": "Total",
+
+  // Roster
+  "roster.label": "Player roster",
+  "roster.title": "Roster",
+  "roster.empty": "No saved golfers yet.",
+  "roster.name": "Name",
+  "roster.initialsFor": "Initials for {name}",
+  "roster.hi": "HI",
+  "roster.tee": "Tee",
+  "roster.onCard": "On card",
+  "roster.addToRound": "Add to round",
+  "roster.remove": "Remove",
+  "roster.confirmRemove": "Remove {name} from the roster? Archived rounds keep their scores.",
+  "roster.newName": "New golfer name",
+  "roster.newPlaceholder": "New golfer",
+  "roster.add": "Add golfer",
+  "roster.autoIndex": "From rounds",
+  "roster.autoIndexTitle": "Keep the Handicap Index up to date from saved rounds",
+  "roster.scores": "Scores",
+  "roster.hideScores": "Hide scores",
+
+  // Scoring record
+  "record.label": "Scoring record for {name}",
+  "record.fromRounds": "Handicap Index from rounds",
+  "record.best": "Best {n} of the latest {total} differentials",
+  "record.beforeCap": " gave {index} before the {cap}",
+  "record.low": " · Low Handicap Index {index}",
+  "record.revision": "{index} ({cap}, low {low})",
+  "record.softCap": "soft cap",
+  "record.hardCap": "hard cap",
+  "record.needScores": "An index needs at least 3 rated 18-hole scores (or pairs of 9-hole scores).",
+  "record.pendingNine": "The 9-hole score at {course} on {date} counts once it pairs with another 9.",
+  "record.date": "Date",
+  "record.course": "Course",
+  "record.holes": "Holes",
+  "record.adjGross": "Adj. gross",
+  "record.differential": "Differential",
+  "record.older": "{n} older scores are outside the latest {total}. * counts toward the index.",
+  "record.counts": "* counts toward the index.",
+
+  // Event
+  "event.label": "Event",
+  "event.defaultName": "Event",
+  "event.groupN": "Group {n}",
+  "event.intro": "Run a field of any size as groups of up to four. The current card becomes Group 1.",
+  "event.name": "Event name",
+  "event.namePlaceholder": "Club scramble",
+  "event.create": "Create event",
+  "event.date": "Event date",
+  "event.start": "Start",
+  "event.teeTimes": "Tee times",
+  "event.shotgun": "Shotgun",
+  "event.reassign": "Reassign holes",
+  "event.reassignTitle": "One group per hole, in order",
+  "event.summary": "{groups} groups · {players} players",
+  "event.groupName": "Group name",
+  "event.teeTimeFor": "Tee time for {name}",
+  "event.hole": "Hole",
+  "event.groupHole": "{name} · Hole {hole}",
+  "event.open": "Open",
+  "event.openCard": "Open card",
+  "event.remove": "Remove",
+  "event.addGroup": "Add group",
+  "event.end": "End event",
+
+  // Tournament
+  "tournament.label": "Tournament",
+  "tournament.defaultName": "Tournament",
+  "tournament.roundN": "Round {n}",
+  "tournament.intro": "Collect cards from several rounds and groups into one leaderboard, with an optional cut.",
+  "tournament.name": "Tournament name",
+  "tournament.namePlaceholder": "Club championship",
+  "tournament.create": "Create tournament",
+  "tournament.leaderboard": "Leaderboard",
+  "tournament.cutAfter": "Cut after",
+  "tournament.noCut": "No cut",
+  "tournament.top": "Top",
+  "tournament.andTies": "and ties",
+  "tournament.roundName": "Round name",
+  "tournament.attachTo": "Attach a card to {name}",
+  "tournament.attach": "Attach card…",
+  "tournament.finished": "Finished rounds",
+  "tournament.removeRound": "Remove round",
+  "tournament.detach": "Detach {name}",
+  "tournament.addRound": "Add round",
+  "tournament.end": "End tournament",
+  "tournament.empty": "Attach cards to a round to see the leaderboard.",
+  "tournament.pos": "Pos",
+  "tournament.player": "Player",
+  "tournament.plusMinus": "+/−",
+  "tournament.toPar": "To par",
+  "tournament.thru": "Thru",
+  "tournament.points": "Points",
+  "tournament.total": "Total",
+  "tournament.cutLine": "Cut after {name}",
+  "tournament.cutPending": "The cut (top {n} and ties) is made once every card in {name} is complete.",
+  "tournament.attachFailed": "Could not attach this round:\n{errors}",
+  "tournament.confirmRemoveRound": "Remove {name} and its {n} cards?",
+  "tournament.countbackFinal": "Final round",
+  "tournament.countbackLast": "Last {n}",
+  "tournament.countbackLastHole": "Last hole",
+  "leaderboard.gross": "Gross",
+  "leaderboard.net": "Net",
+  "leaderboard.stableford": "Stableford",
+
+  // Live scoring
+  "live.label": "Live scoring",
+  "live.session": "Session code",
+  "live.shareIt": " · share it with your group so they can join",
+  "live.joined": " · joined",
+  "live.merge": "Everyone can enter scores. Edits to different cells merge; the latest edit to the same cell wins.",
+  "live.end": "End session",
+  "live.leave": "Leave session",
+  "live.name": "Your name",
+  "live.via": "Connect via",
+  "live.relayServer": "Relay server",
+  "live.tabs": "Tabs in this browser",
+  "live.relay": "Relay",
+  "live.hostSession": "Host a session",
+  "live.or": "or",
+  "live.join": "Join",
+  "live.replaces": "Joining replaces this card with the host's card.",
+
+  // Signing
+  "attest.label": "Sign card",
+  "attest.signedTitle": "Signed card",
+  "attest.signedBy": "Signed by {player} (player) and {marker} (marker) on {date}. Scores are locked.",
+  "attest.pdf": "Download PDF",
+  "attest.unlockHelp": "Changing a signed card withdraws the signatures. The reason is kept on the card and printed on the PDF.",
+  "attest.reason": "Reason for unlocking",
+  "attest.reasonPlaceholder": "Reason, e.g. wrong score on hole 7",
+  "attest.unlock": "Unlock to edit",
+  "attest.intro": "The player and their marker check the scores, then sign. Signing locks the card.",
+  "attest.player": "Player",
+  "attest.marker": "Marker",
+  "attest.clear": "Clear",
+  "attest.signature": "{label} signature",
+  "attest.sign": "Sign and lock",
+  "attest.unsignedPdf": "Download unsigned PDF",
+  "attest.unlocked": "Unlocked {date}: {reason}",
+
+  // Scorecard PDF
+  "pdf.hole": "Hole",
+  "pdf.yards": "Yds",
+  "pdf.par": "Par",
+  "pdf.si": "SI",
+  "pdf.gross": "Gross",
+  "pdf.net": "Net",
+  "pdf.tees": "{name} tees",
+  "pdf.slope": "Slope {slope}",
+  "pdf.holes": "{n} holes",
+  "pdf.handicaps": "HI {index}  PH {playing}",
+  "pdf.signer": "{role}: {name}",
+  "pdf.attested": "Attested {date}",
+  "pdf.notAttested": "Not attested",
+
+  // Change log and card check
+  "audit.label": "Change log",
+  "audit.empty": "No changes yet.",
+  "audit.text": "{text}",
+  "audit.change": "{label}: {from} → {to}",
+  "audit.undo": "Undo {text}",
+  "audit.redo": "Redo {text}",
+  "audit.list": "{a}, {b}",
+  "audit.on": "on",
+  "audit.off": "off",
+  "audit.pickedUp": "picked up",
+  "audit.shots": "{n} shots",
+  "audit.putts": "{n} putts",
+  "audit.fairway": "fairway {side}",
+  "audit.penalties": "{n} penalties",
+  "audit.sand": "{n} sand",
+  "audit.players": "{n} players",
+  "audit.holes": "{n} holes",
+  "audit.course": "Course: {name}",
+  "audit.tee": "Tee: {name}",
+  "audit.hole": "Hole {n}",
+  "audit.holePickups": "Hole {n}: scores and pick-ups",
+  "audit.holePlayer": "Hole {n}, {name}",
+  "audit.holeStats": "Hole {n}, {name} stats",
+  "audit.holeShots": "Hole {n}, {name} shots",
+  "audit.handicap": "{name} handicap",
+  "audit.customPoints": "Custom points: {result}",
+  "audit.matchPlay": "Match play {state}",
+  "audit.teamFormat": "Team format: {format}",
+  "audit.team": "{name} team",
+  "audit.rating": "Course rating",
+  "audit.fromRoster": "{name} from roster on row {n}",
+  "audit.unlinked": "Row {n} unlinked from roster",
+  "audit.addedFromRoster": "{name} added from roster",
+  "audit.reset": "Card reset",
+  "audit.opened": "Opened {course} round from {date}",
+  "audit.copied": "New card from the {course} round of {date}",
+  "audit.imported": "Imported {name}",
+  "audit.signed": "Signed by {player} (player) and {marker} (marker)",
+  "audit.unlocked": "Unlocked: {reason}",
+  "check.label": "Card check",
+  "check.ok": "Every hole has a score or a pick-up and the stroke indexes are in order.",
+  "check.hole": "hole {list}",
+  "check.holes": "holes {list}",
+  "check.siRange": "Hole {n}: stroke index {si} is outside 1-{max}",
+  "check.siRepeated": "Stroke index {si} is used on {holes}",
+  "check.playerHole": "{name}, hole {n}: {problem}",
+  "check.unlikely": "{score} on a par {par} is unlikely",
+  "check.high": "{score} on a par {par} is unusually high",
+  "check.noScores": "{name}: no scores entered",
+  "check.missing": "{name}: no score on {holes}",
+
+  // Sharing
+  "share.label": "Share card",
+  "share.readOnly": "Read-only (recipients can view but not edit)",
+  "share.qr": "QR code for the share link",
+  "share.tooLarge": "This card is too large for a QR code. Copy the link instead.",
+  "share.link": "Share link",
+  "share.copy": "Copy link",
+  "share.copied": "Copied",
+  "share.length": "{n} characters",
+  "share.noDecompress": "This browser can't unpack compressed share codes",
+  "share.damaged": "The share link is damaged or incomplete",
+
+  // Round history
+  "history.label": "Round history",
+  "history.search": "Search course, player or date",
+  "history.searchLabel": "Search rounds",
+  "history.loading": "Loading…",
+  "history.empty": "No finished rounds yet.",
+  "history.noMatch": "No rounds match your search.",
+  "history.holes": "{n} holes",
+  "history.points": "{n} pts",
+  "history.open": "Open",
+  "history.duplicate": "Duplicate",
+  "history.duplicateTitle": "Same group, new round",
+  "history.delete": "Delete",
+  "history.confirmDelete": "Delete the {course} round from {date}?",
+
+  // Course editor
+  "editor.label": "Course editor",
+  "editor.saved": "Saved courses",
+  "editor.new": "New course…",
+  "editor.import": "Import",
+  "editor.importTitle": "Import course JSON",
+  "editor.export": "Export",
+  "editor.exportAll": "Export all",
+  "editor.name": "Name",
+  "editor.location": "Location",
+  "editor.tees": "Tees",
+  "editor.unnamed": "(unnamed)",
+  "editor.addTee": "+ Tee",
+  "editor.removeTee": "Remove tee",
+  "editor.tee": "Tee",
+  "editor.rating": "Rating",
+  "editor.slope": "Slope",
+  "editor.holes": "Holes",
+  "editor.hole": "Hole",
+  "editor.par": "Par",
+  "editor.si": "SI",
+  "editor.distanceFor": "Distance for hole {n}",
+  "editor.gps": "GPS coordinates",
+  "editor.gpsFor": "GPS for hole",
+  "editor.here": "Here",
+  "editor.hereTitle": "Use this device's location",
+  "editor.greenFirst": "Hole {n}: set the green centre first",
+  "editor.notLatLng": "Hole {n}: \"{text}\" is not a \"latitude, longitude\" position",
+  "editor.noFix": "Could not get this device's location",
+  "editor.save": "Save",
+  "editor.saveUse": "Save & use",
+  "editor.delete": "Delete",
+  "editor.confirmDelete": "Delete \"{name}\"?",
+  "gpsPoint.tee": "Tee",
+  "gpsPoint.front": "Green front",
+  "gpsPoint.centre": "Green centre",
+  "gpsPoint.back": "Green back",
+
+  // Messages
+  "msg.sharedFailed": "Could not open the shared card:\n{errors}",
+  "msg.cardFull": "The card already has {n} players",
+  "msg.cardProblems": "The card has {n} problem(s), listed under Card check. {action} anyway?",
+  "msg.finishAction": "Finish the round",
+  "msg.shareAction": "Share",
+  "msg.roundUpdated": "Saved round updated",
+  "msg.roundSaved": "Round saved to history",
+  "msg.roundSaveFailed": "Could not save the round on this device",
+  "msg.roundOpenFailed": "Could not open this round:\n{errors}",
+  "msg.csvFailed": "Could not import CSV:\n{errors}",
+  "msg.importProblems": "Imported with {n} problem(s):\n{errors}",
+  "msg.jsonFailed": "Could not import JSON:\n{errors}",
+  "msg.shareFailed": "Could not create a share code",
+  "msg.leaveLive": "Opening another group's card leaves the live session. Continue?",
+  "msg.removeGroup": "Remove {name} and its card from the event?",
+  "msg.endEvent": "End the event? The open card stays; the other groups' cards are discarded.",
+  "msg.endTournament": "End the tournament? Its leaderboard and attached cards are discarded; your cards and history stay.",
+  "msg.pdfFailed": "Could not create the PDF",
+
+  "footer.features": "Features",
+};
+
+export type MessageKey = keyof typeof EN;
+
+const FR: Record<MessageKey, string> = {
+  "app.title": "Carte de score golf",
+  "app.subtitle": "Jusqu'à {players} joueurs par groupe · jusqu'à {holes} trous",
+  "toolbar.actions": "Actions principales",
+  "toolbar.reset": "Réinitialiser",
+  "toolbar.finish": "Terminer la partie",
+  "toolbar.finishTitle": "Enregistrer cette partie dans l'historique",
+  "toolbar.history": "Historique",
+  "toolbar.historyTitle": "Parties précédentes",
+  "toolbar.roster": "Joueurs",
+  "toolbar.rosterTitle": "Golfeurs enregistrés",
+  "toolbar.event": "Événement",
+  "toolbar.eventTitle": "Groupes, heures de départ et départs simultanés",
+  "toolbar.tournament": "Tournoi",
+  "toolbar.tournamentTitle": "Classement sur plusieurs parties et groupes",
+  "toolbar.live": "En direct",
+  "toolbar.liveTitle": "Marquer ensemble sur plusieurs appareils",
+  "toolbar.sign": "Signer",
+  "toolbar.signed": "Signée",
+  "toolbar.signTitle": "Signatures et PDF officiel",
+  "toolbar.undo": "Annuler",
+  "toolbar.redo": "Rétablir",
+  "toolbar.log": "Journal",
+  "toolbar.logTitle": "Toutes les modifications de cette carte",
+  "toolbar.check": "Vérifier",
+  "toolbar.checkTitle": "Trous manquants, erreurs d'index et scores improbables",
+  "toolbar.exportCsv": "Exporter CSV",
+  "toolbar.exportJson": "Exporter JSON",
+  "toolbar.exportJsonTitle": "Exporter la carte complète en JSON",
+  "toolbar.import": "Importer",
+  "toolbar.importTitle": "Importer JSON ou CSV",
+  "toolbar.share": "Partager",
+  "toolbar.shareTitle": "Lien de partage et code QR",
+  "toolbar.print": "Imprimer",
+  "toolbar.theme": "Thème",
+  "toolbar.themeTitle": "Changer de thème",
+  "prefs.language": "Langue",
+  "prefs.units": "Unités de distance",
+
+  "banner.update": "Une nouvelle version de la carte est disponible. Votre carte est enregistrée et reste telle quelle.",
+  "banner.updateNow": "Mettre à jour",
+  "banner.later": "Plus tard",
+  "banner.readOnly": "Carte partagée en lecture seule. Les scores ne peuvent pas être modifiés ici.",
+  "banner.editCopy": "Modifier une copie",
+  "banner.locked": "Signée par {player} et {marker}. Les scores sont verrouillés.",
+  "banner.unlock": "Déverrouiller…",
+  "live.code": "En direct {code}",
+  "live.you": "Vous",
+  "live.host": "(hôte)",
+  "live.guest": "Invité",
+  "live.waiting": "En attente des autres joueurs…",
+  "pace.alert": "{time} de retard sur le rythme.",
+  "pace.alertFinish": "Fin prévue vers {time} au rythme cible.",
+  "event.groups": "Groupes de l'événement",
+
+  "controls.label": "Configuration",
+  "controls.course": "Parcours",
+  "controls.manualCourse": "{name} (saisir par/index)",
+  "controls.catalogRegion": "Kamloops (C.-B.)",
+  "controls.myCourses": "Mes parcours",
+  "controls.editCourses": "Modifier les parcours",
+  "controls.editCoursesTitle": "Créer, importer ou exporter des parcours",
+  "controls.tee": "Départ",
+  "controls.ratingSlope": "Évaluation / Slope",
+  "controls.slope": "Slope",
+  "controls.allowance": "Allocation",
+  "controls.players": "Joueurs",
+  "controls.holes": "Trous",
+  "controls.startHole": "Trou de départ",
+  "controls.startHoleTitle": "Départ simultané : le groupe commence ici et continue après le dernier trou",
+  "controls.stableford": "Points Stableford",
+  "controls.pointsTable": "Barème de points",
+  "controls.pointsFor": "Points pour un {result} net",
+  "controls.scoreCap": "Score maximum",
+  "controls.scoreCapTitle": "Score le plus élevé retenu par trou pour le brut ajusté ; une balle relevée compte pour ce maximum",
+  "controls.maxScore": "Score maximum par trou",
+  "controls.format": "Formule",
+  "controls.matchPlay": "Match play",
+  "controls.matchNeedsTwo": "Il faut deux joueurs",
+  "controls.matchTitle": "Match en simple entre les joueurs 1 et 2",
+  "controls.holeDetails": "Détails par trou",
+  "controls.holeView": "Vue par trou",
+  "controls.holeViewTitle": "Saisir un trou à la fois avec de grands boutons",
+  "controls.prev": "Préc.",
+  "controls.next": "Suiv.",
+  "controls.hole": "Trou {n}",
+  "controls.startTimer": "Démarrer le chrono",
+  "controls.pauseTimer": "Arrêter le chrono",
+  "controls.gps": "GPS",
+  "controls.gpsTitle": "Distances jusqu'au green depuis la position de cet appareil",
+  "controls.shots": "Coups joués",
+  "controls.shotsTitle": "Noter la position et la distance de chaque coup pour les coups gagnés",
+
+  "allowance.stroke": "Stroke play (95 %)",
+  "allowance.stableford": "Stableford (95 %)",
+  "allowance.match": "Match play en simple (100 %)",
+  "allowance.fourball-stroke": "Quatre balles stroke play (85 %)",
+  "allowance.fourball-match": "Quatre balles match play (90 %)",
+  "allowance.full": "Handicap complet (100 %)",
+  "teamFormat.none": "Individuel",
+  "teamFormat.fourball": "Quatre balles meilleure balle",
+  "teamFormat.scramble": "Scramble",
+  "teamFormat.foursomes": "Foursome",
+  "teamFormat.texas": "Scramble à la texane",
+  "pointsTable.standard": "Stableford standard",
+  "pointsTable.modified": "Stableford modifié (+8/+5/+2/0/−1/−3)",
+  "pointsTable.custom": "Points personnalisés",
+  "points.0": "Albatros",
+  "points.1": "Eagle",
+  "points.2": "Birdie",
+  "points.3": "Par",
+  "points.4": "Bogey",
+  "points.5": "Double+",
+  "scoreCap.none": "Sans maximum",
+  "scoreCap.ndb": "Double bogey net",
+  "scoreCap.max": "Score maximum",
+  "lie.tee": "Départ",
+  "lie.fairway": "Allée",
+  "lie.rough": "Herbe longue",
+  "lie.sand": "Bunker",
+  "lie.green": "Green",
+  "sg.ott": "Départ",
+  "sg.app": "Approche",
+  "sg.arg": "Autour du green",
+  "sg.putt": "Putting",
+
+  "table.player": "Joueur",
+  "table.hole": "T{n}",
+  "table.out": "Aller",
+  "table.in": "Retour",
+  "table.inRange": "Retour 10–{n}",
+  "table.total": "Total",
+  "table.net": "Net",
+  "table.adjusted": "Ajust.",
+  "table.points": "Pts",
+  "table.parSi": "Par / Index",
+  "table.parFor": "Par du trou {n}",
+  "table.siFor": "Index du trou {n}",
+  "table.nameFor": "Nom du joueur {n}",
+  "table.rosterFor": "Golfeur enregistré pour le joueur {n}",
+  "table.unlink": "Détacher le golfeur",
+  "table.fromRoster": "Depuis la liste…",
+  "table.saveGolfer": "Enregistrer",
+  "table.saveGolferTitle": "Enregistrer ce golfeur dans la liste",
+  "table.hi": "IH",
+  "table.handicapIndex": "Index de handicap",
+  "table.plusTitle": "Les handicaps « plus » se saisissent en négatif",
+  "table.handicapFor": "Index de handicap de {name}",
+  "table.courseAndPlaying": "HP {course} · HJ {playing}",
+  "table.teamFor": "Équipe de {name}",
+  "table.receivesStroke": "Reçoit un coup",
+  "table.scoreFor": "Score de {name} au trou {n}",
+  "table.scoreForPickedUp": "Score de {name} au trou {n}, balle relevée",
+  "table.pickupHint": "Tapez P pour une balle relevée",
+  "table.pickup": "P",
+  "table.noReturn": "NR",
+  "table.noReturnTitle": "Pas de score : balle relevée",
+  "table.detail": "Putts · FW · Pén · Bunker",
+  "table.puttsFor": "Putts de {name} au trou {n}",
+  "table.putts": "P",
+  "table.fairwayFor": "Fairway de {name} au trou {n}",
+  "table.fairway": "FW",
+  "table.fairwayHit": "Touché",
+  "table.fairwayLeft": "Gauche",
+  "table.fairwayRight": "Droite",
+  "table.penaltiesFor": "Coups de pénalité de {name} au trou {n}",
+  "table.penalties": "Pén",
+  "table.sandFor": "Coups de bunker de {name} au trou {n}",
+  "table.sand": "Bunker",
+  "table.gir": "GIR",
+  "table.noGir": "pas de GIR",
+  "table.match": "Match",
+  "table.status": "État",
+  "table.final": "Terminé",
+  "table.thru": "Après {n}",
+  "table.teamHandicap": "Hcp équipe {n}",
+  "table.teamScoreFor": "Score de {team} au trou {n}",
+  "table.ballOf": "Balle de {name}",
+  "table.average": "Moy. / trou",
+
+  "stats.players": "Statistiques des joueurs",
+  "stats.teams": "Statistiques des équipes",
+  "stats.playingHandicap": "Hcp de jeu",
+  "stats.match": "Match",
+  "stats.matchReceives": "Match (reçoit {n})",
+  "stats.birdies": "Birdies",
+  "stats.eagles": "Eagles",
+  "stats.pars": "Pars",
+  "stats.bogeys": "Bogeys",
+  "stats.points": "Points",
+  "stats.fairways": "Fairways",
+  "stats.greens": "Greens (GIR)",
+  "stats.putts": "Putts",
+  "stats.perHole": "{n}/trou",
+  "stats.scrambling": "Scrambling",
+  "stats.sandSaves": "Sauvetages de bunker",
+  "stats.penalties": "Pénalités",
+  "stats.strokesGained": "Coups gagnés",
+  "stats.teamHandicap": "Hcp équipe ({how})",
+  "stats.gross": "Brut",
+  "stats.net": "Net",
+
+  "pace.label": "Rythme de jeu",
+  "pace.title": "Rythme",
+  "pace.teeTime": "Heure de départ",
+  "pace.alertAfter": "Alerte après",
+  "pace.alertAfterTitle": "Afficher une alerte quand le groupe a ce nombre de minutes de retard",
+  "pace.minutes": "min",
+  "pace.thisHole": "Ce trou",
+  "pace.behind": "Retard",
+  "pace.ahead": "Avance",
+  "pace.targetRound": "Durée cible",
+  "pace.scheduledFinish": "Fin prévue",
+  "pace.projectedFinish": "Fin estimée",
+  "pace.finishedAt": "Terminé à {time}",
+  "pace.notFinished": "Pas terminé",
+  "pace.targetMinutes": "{n} min",
+  "pace.editTargets": "Modifier les cibles",
+  "pace.hideTargets": "Masquer les cibles",
+  "pace.parDefault": "Par {par} par défaut : {n} min",
+  "pace.parDefaults": "Valeurs par défaut",
+
+  "holeEntry.label": "Saisir les scores du trou {n}",
+  "holeEntry.heading": "Trou {n} · Par {par} · Index {si}",
+  "holeEntry.previous": "Trou précédent",
+  "holeEntry.next": "Trou suivant",
+  "holeEntry.gets": "Reçoit {n}",
+  "holeEntry.gives": "Rend {n}",
+  "holeEntry.net": "net {n}",
+  "holeEntry.less": "Un coup de moins pour {name}",
+  "holeEntry.more": "Un coup de plus pour {name}",
+  "holeEntry.quick": "Score rapide pour {name}",
+  "holeEntry.birdie": "Birdie",
+  "holeEntry.par": "Par",
+  "holeEntry.bogey": "Bogey",
+  "holeEntry.double": "Double",
+  "holeEntry.pickUp": "Relever",
+  "holeEntry.save": "Enregistrer",
+  "holeEntry.saveNext": "Enregistrer et trou suivant",
+
+  "gps.label": "Distance jusqu'au green",
+  "gps.title": "Green du trou {n}",
+  "gps.front": "Avant",
+  "gps.centre": "Centre",
+  "gps.back": "Arrière",
+  "gps.accuracy": "Précision ±{n} {unit}",
+  "gps.waiting": "Recherche de votre position…",
+  "gps.noGreen": "Pas de coordonnées de green pour ce trou. Ajoutez-les dans l'éditeur de parcours.",
+  "gps.autoAdvance": "Trou suivant au départ",
+  "gps.autoAdvanceTitle": "Passer au trou suivant quand vous êtes sur son départ",
+  "gps.denied": "L'accès à la position a été refusé.",
+  "gps.unavailable": "Votre position n'est pas disponible pour le moment.",
+  "gps.unsupported": "Ce navigateur ne peut pas partager sa position.",
+
+  "shots.label": "Coups joués",
+  "shots.title": "Coups du trou {n}",
+  "shots.player": "Joueur",
+  "shots.shot": "Coup {n}",
+  "shots.lie": "Position",
+  "shots.distance": "Jusqu'au trou ({unit})",
+  "shots.penalty": "Pénalité",
+  "shots.remove": "Retirer",
+  "shots.add": "Ajouter un coup",
+  "shots.empty": "Aucun coup noté sur ce trou.",
+  "shots.noScore": "{n} coups notés mais aucun score saisi.",
+  "shots.mismatch": "{n} coups notés mais le score est {gross}.",
+  "shots.useLog": "Mettre le score à {n}",
+  "shots.round": "Cette partie ({n} trous)",
+  "shots.archived": "Moyenne de {n} parties enregistrées",
+  "shots.none": "Les coups gagnés comptent les trous dont les coups notés correspondent au score.",
+  "shots.total": "Total",
+
+  "units.yd": "Verges",
+  "units.m": "Mètres",
+  "units.ydShort": "vg",
+  "units.mShort": "m",
+  "units.ftShort": "pi",
+
+  "panel.close": "Fermer",
+
+  "match.allSquare": "ÉG",
+  "match.dormie": "Dormie {n}",
+  "match.up": "{n} UP",
+  "match.down": "{n} DOWN",
+  "match.notStarted": "Pas commencé",
+  "match.halved": "Partagé",
+  "match.won": "Gagné {result}",
+  "match.lost": "Perdu {result}",
+  "match.thru": "{status} après {n}",
+  "team.0": "Équipe A",
+  "team.1": "Équipe B",
+  "team.2": "Équipe C",
+  "team.3": "Équipe D",
+
+  "side.label": "Jeux annexes",
+  "side.stake": "Mise",
+  "side.grossOrNet": "Brut ou net",
+  "side.gross": "Brut",
+  "side.net": "Net",
+  "side.skins": "Skins",
+  "side.carryovers": "Reports",
+  "side.skinHole": "T{n} : {result}",
+  "side.carry": "report",
+  "side.tie": "égalité",
+  "side.carried": "{n} reporté(s)",
+  "side.nassau": "Nassau",
+  "side.autoPress": "Relance auto à",
+  "side.pressDown": "Trous de retard pour relancer",
+  "side.down": "de retard",
+  "side.versus": "{a} c. {b}",
+  "side.front": "Aller",
+  "side.back": "Retour",
+  "side.overall": "Total",
+  "side.match": "Match",
+  "side.press": "Relance {n}",
+  "side.notStarted": "pas commencé",
+  "side.allSquare": "ÉG",
+  "side.leads": "{name} {n} UP",
+  "side.final": "{lead} (final)",
+  "side.thru": "{lead} après le {n}",
+  "side.wolf": "Wolf",
+  "side.wolfNeedsThree": "Il faut trois ou quatre joueurs",
+  "side.order": "Ordre",
+  "side.orderFor": "Ordre du wolf {n}",
+  "side.hole": "Trou",
+  "side.partner": "Partenaire",
+  "side.pickFor": "Choix du wolf au trou {n}",
+  "side.loneWolf": "Wolf seul",
+  "side.result": "Résultat",
+  "side.wolfWon": "Wolf",
+  "side.fieldWon": "Autres",
+  "side.player": "Joueur",
+  "side.total": "Total",
+
+  "roster.label": "Liste des joueurs",
+  "roster.title": "Joueurs",
+  "roster.empty": "Aucun golfeur enregistré.",
+  "roster.name": "Nom",
+  "roster.initialsFor": "Initiales de {name}",
+  "roster.hi": "IH",
+  "roster.tee": "Départ",
+  "roster.onCard": "Sur la carte",
+  "roster.addToRound": "Ajouter à la partie",
+  "roster.remove": "Retirer",
+  "roster.confirmRemove": "Retirer {name} de la liste ? Les parties archivées gardent leurs scores.",
+  "roster.newName": "Nom du nouveau golfeur",
+  "roster.newPlaceholder": "Nouveau golfeur",
+  "roster.add": "Ajouter le golfeur",
+  "roster.autoIndex": "D'après les parties",
+  "roster.autoIndexTitle": "Tenir l'index à jour d'après les parties enregistrées",
+  "roster.scores": "Scores",
+  "roster.hideScores": "Masquer les scores",
+
+  // Scoring record
+  "record.label": "Historique des scores de {name}",
+  "record.fromRounds": "Index d'après les parties",
+  "record.best": "Les {n} meilleurs des {total} derniers différentiels",
+  "record.beforeCap": " donnaient {index} avant le {cap}",
+  "record.low": " · Index le plus bas {index}",
+  "record.revision": "{index} ({cap}, plus bas {low})",
+  "record.softCap": "plafond souple",
+  "record.hardCap": "plafond strict",
+  "record.needScores": "Un index demande au moins 3 scores de 18 trous avec slope (ou des paires de scores de 9 trous).",
+  "record.pendingNine": "Le score de 9 trous à {course} le {date} compte une fois associé à un autre 9 trous.",
+  "record.date": "Date",
+  "record.course": "Parcours",
+  "record.holes": "Trous",
+  "record.adjGross": "Brut ajusté",
+  "record.differential": "Différentiel",
+  "record.older": "{n} scores plus anciens sont hors des {total} derniers. * compte pour l'index.",
+  "record.counts": "* compte pour l'index.",
+
+  "event.label": "Événement",
+  "event.defaultName": "Événement",
+  "event.groupN": "Groupe {n}",
+  "event.intro": "Gérez un champ de toute taille en groupes de quatre au plus. La carte actuelle devient le groupe 1.",
+  "event.name": "Nom de l'événement",
+  "event.namePlaceholder": "Scramble du club",
+  "event.create": "Créer l'événement",
+  "event.date": "Date de l'événement",
+  "event.start": "Départ",
+  "event.teeTimes": "Heures de départ",
+  "event.shotgun": "Départ simultané",
+  "event.reassign": "Réattribuer les trous",
+  "event.reassignTitle": "Un groupe par trou, dans l'ordre",
+  "event.summary": "{groups} groupes · {players} joueurs",
+  "event.groupName": "Nom du groupe",
+  "event.teeTimeFor": "Heure de départ de {name}",
+  "event.hole": "Trou",
+  "event.groupHole": "{name} · Trou {hole}",
+  "event.open": "Ouverte",
+  "event.openCard": "Ouvrir la carte",
+  "event.remove": "Retirer",
+  "event.addGroup": "Ajouter un groupe",
+  "event.end": "Terminer l'événement",
+
+  "tournament.label": "Tournoi",
+  "tournament.defaultName": "Tournoi",
+  "tournament.roundN": "Ronde {n}",
+  "tournament.intro": "Réunissez les cartes de plusieurs parties et groupes dans un seul classement, avec un cut facultatif.",
+  "tournament.name": "Nom du tournoi",
+  "tournament.namePlaceholder": "Championnat du club",
+  "tournament.create": "Créer le tournoi",
+  "tournament.leaderboard": "Classement",
+  "tournament.cutAfter": "Cut après",
+  "tournament.noCut": "Pas de cut",
+  "tournament.top": "Les",
+  "tournament.andTies": "premiers et égalités",
+  "tournament.roundName": "Nom de la ronde",
+  "tournament.attachTo": "Rattacher une carte à {name}",
+  "tournament.attach": "Rattacher une carte…",
+  "tournament.finished": "Parties terminées",
+  "tournament.removeRound": "Retirer la ronde",
+  "tournament.detach": "Détacher {name}",
+  "tournament.addRound": "Ajouter une ronde",
+  "tournament.end": "Terminer le tournoi",
+  "tournament.empty": "Rattachez des cartes à une ronde pour voir le classement.",
+  "tournament.pos": "Pos",
+  "tournament.player": "Joueur",
+  "tournament.plusMinus": "+/−",
+  "tournament.toPar": "Par rapport à la normale",
+  "tournament.thru": "Trous",
+  "tournament.points": "Points",
+  "tournament.total": "Total",
+  "tournament.cutLine": "Cut après {name}",
+  "tournament.cutPending": "Le cut (les {n} premiers et égalités) est fait quand toutes les cartes de {name} sont complètes.",
+  "tournament.attachFailed": "Impossible de rattacher cette partie :\n{errors}",
+  "tournament.confirmRemoveRound": "Retirer {name} et ses {n} cartes ?",
+  "tournament.countbackFinal": "Dernière ronde",
+  "tournament.countbackLast": "{n} derniers",
+  "tournament.countbackLastHole": "Dernier trou",
+  "leaderboard.gross": "Brut",
+  "leaderboard.net": "Net",
+  "leaderboard.stableford": "Stableford",
+
+  "live.label": "Score en direct",
+  "live.session": "Code de session",
+  "live.shareIt": " · partagez-le avec votre groupe pour qu'il se joigne",
+  "live.joined": " · connecté",
+  "live.merge": "Tout le monde peut entrer des scores. Les modifications de cases différentes sont fusionnées ; la dernière modification d'une même case l'emporte.",
+  "live.end": "Terminer la session",
+  "live.leave": "Quitter la session",
+  "live.name": "Votre nom",
+  "live.via": "Connexion par",
+  "live.relayServer": "Serveur relais",
+  "live.tabs": "Onglets de ce navigateur",
+  "live.relay": "Relais",
+  "live.hostSession": "Lancer une session",
+  "live.or": "ou",
+  "live.join": "Rejoindre",
+  "live.replaces": "Rejoindre remplace cette carte par celle de l'hôte.",
+
+  "attest.label": "Signer la carte",
+  "attest.signedTitle": "Carte signée",
+  "attest.signedBy": "Signée par {player} (joueur) et {marker} (marqueur) le {date}. Les scores sont verrouillés.",
+  "attest.pdf": "Télécharger le PDF",
+  "attest.unlockHelp": "Modifier une carte signée retire les signatures. La raison est gardée sur la carte et imprimée sur le PDF.",
+  "attest.reason": "Raison du déverrouillage",
+  "attest.reasonPlaceholder": "Raison, p. ex. mauvais score au trou 7",
+  "attest.unlock": "Déverrouiller pour modifier",
+  "attest.intro": "Le joueur et son marqueur vérifient les scores, puis signent. La signature verrouille la carte.",
+  "attest.player": "Joueur",
+  "attest.marker": "Marqueur",
+  "attest.clear": "Effacer",
+  "attest.signature": "Signature ({label})",
+  "attest.sign": "Signer et verrouiller",
+  "attest.unsignedPdf": "Télécharger le PDF non signé",
+  "attest.unlocked": "Déverrouillée le {date} : {reason}",
+
+  "pdf.hole": "Trou",
+  "pdf.yards": "Vg",
+  "pdf.par": "Par",
+  "pdf.si": "Index",
+  "pdf.gross": "Brut",
+  "pdf.net": "Net",
+  "pdf.tees": "Départs {name}",
+  "pdf.slope": "Slope {slope}",
+  "pdf.holes": "{n} trous",
+  "pdf.handicaps": "IH {index}  HJ {playing}",
+  "pdf.signer": "{role} : {name}",
+  "pdf.attested": "Attestée le {date}",
+  "pdf.notAttested": "Non attestée",
+
+  "audit.label": "Journal des modifications",
+  "audit.empty": "Aucune modification pour l'instant.",
+  "audit.text": "{text}",
+  "audit.change": "{label} : {from} → {to}",
+  "audit.undo": "Annulation : {text}",
+  "audit.redo": "Rétablissement : {text}",
+  "audit.list": "{a}, {b}",
+  "audit.on": "activé",
+  "audit.off": "désactivé",
+  "audit.pickedUp": "balle relevée",
+  "audit.shots": "{n} coups",
+  "audit.putts": "{n} putts",
+  "audit.fairway": "fairway {side}",
+  "audit.penalties": "{n} pénalités",
+  "audit.sand": "{n} en bunker",
+  "audit.players": "{n} joueurs",
+  "audit.holes": "{n} trous",
+  "audit.course": "Parcours : {name}",
+  "audit.tee": "Départ : {name}",
+  "audit.hole": "Trou {n}",
+  "audit.holePickups": "Trou {n} : scores et balles relevées",
+  "audit.holePlayer": "Trou {n}, {name}",
+  "audit.holeStats": "Trou {n}, statistiques de {name}",
+  "audit.holeShots": "Trou {n}, coups de {name}",
+  "audit.handicap": "Handicap de {name}",
+  "audit.customPoints": "Points personnalisés : {result}",
+  "audit.matchPlay": "Match play {state}",
+  "audit.teamFormat": "Formule d'équipe : {format}",
+  "audit.team": "Équipe de {name}",
+  "audit.rating": "Évaluation du parcours",
+  "audit.fromRoster": "{name} depuis la liste à la ligne {n}",
+  "audit.unlinked": "Ligne {n} détachée de la liste",
+  "audit.addedFromRoster": "{name} ajouté depuis la liste",
+  "audit.reset": "Carte réinitialisée",
+  "audit.opened": "Partie de {course} du {date} ouverte",
+  "audit.copied": "Nouvelle carte d'après la partie de {course} du {date}",
+  "audit.imported": "{name} importé",
+  "audit.signed": "Signée par {player} (joueur) et {marker} (marqueur)",
+  "audit.unlocked": "Déverrouillée : {reason}",
+  "check.label": "Vérification de la carte",
+  "check.ok": "Chaque trou a un score ou une balle relevée et les index des trous sont en ordre.",
+  "check.hole": "au trou {list}",
+  "check.holes": "aux trous {list}",
+  "check.siRange": "Trou {n} : l'index {si} est hors de 1-{max}",
+  "check.siRepeated": "L'index {si} est utilisé {holes}",
+  "check.playerHole": "{name}, trou {n} : {problem}",
+  "check.unlikely": "{score} sur une normale {par} est improbable",
+  "check.high": "{score} sur une normale {par} est anormalement élevé",
+  "check.noScores": "{name} : aucun score entré",
+  "check.missing": "{name} : aucun score {holes}",
+
+  "share.label": "Partager la carte",
+  "share.readOnly": "Lecture seule (les destinataires peuvent voir mais pas modifier)",
+  "share.qr": "Code QR du lien de partage",
+  "share.tooLarge": "Cette carte est trop grande pour un code QR. Copiez plutôt le lien.",
+  "share.link": "Lien de partage",
+  "share.copy": "Copier le lien",
+  "share.copied": "Copié",
+  "share.length": "{n} caractères",
+  "share.noDecompress": "Ce navigateur ne peut pas décompresser les codes de partage",
+  "share.damaged": "Le lien de partage est endommagé ou incomplet",
+
+  "history.label": "Historique des parties",
+  "history.search": "Chercher un parcours, un joueur ou une date",
+  "history.searchLabel": "Chercher des parties",
+  "history.loading": "Chargement…",
+  "history.empty": "Aucune partie terminée pour l'instant.",
+  "history.noMatch": "Aucune partie ne correspond à votre recherche.",
+  "history.holes": "{n} trous",
+  "history.points": "{n} pts",
+  "history.open": "Ouvrir",
+  "history.duplicate": "Dupliquer",
+  "history.duplicateTitle": "Même groupe, nouvelle partie",
+  "history.delete": "Supprimer",
+  "history.confirmDelete": "Supprimer la partie à {course} du {date} ?",
+
+  "editor.label": "Éditeur de parcours",
+  "editor.saved": "Parcours enregistrés",
+  "editor.new": "Nouveau parcours…",
+  "editor.import": "Importer",
+  "editor.importTitle": "Importer un parcours JSON",
+  "editor.export": "Exporter",
+  "editor.exportAll": "Tout exporter",
+  "editor.name": "Nom",
+  "editor.location": "Lieu",
+  "editor.tees": "Départs",
+  "editor.unnamed": "(sans nom)",
+  "editor.addTee": "+ Départ",
+  "editor.removeTee": "Retirer le départ",
+  "editor.tee": "Départ",
+  "editor.rating": "Évaluation",
+  "editor.slope": "Slope",
+  "editor.holes": "Trous",
+  "editor.hole": "Trou",
+  "editor.par": "Normale",
+  "editor.si": "Index",
+  "editor.distanceFor": "Distance du trou {n}",
+  "editor.gps": "Coordonnées GPS",
+  "editor.gpsFor": "GPS du trou",
+  "editor.here": "Ici",
+  "editor.hereTitle": "Utiliser la position de cet appareil",
+  "editor.greenFirst": "Trou {n} : placez d'abord le centre du green",
+  "editor.notLatLng": "Trou {n} : « {text} » n'est pas une position « latitude, longitude »",
+  "editor.noFix": "Impossible d'obtenir la position de cet appareil",
+  "editor.save": "Enregistrer",
+  "editor.saveUse": "Enregistrer et utiliser",
+  "editor.delete": "Supprimer",
+  "editor.confirmDelete": "Supprimer « {name} » ?",
+  "gpsPoint.tee": "Départ",
+  "gpsPoint.front": "Avant du green",
+  "gpsPoint.centre": "Centre du green",
+  "gpsPoint.back": "Arrière du green",
+
+  "msg.sharedFailed": "Impossible d'ouvrir la carte partagée :\n{errors}",
+  "msg.cardFull": "La carte compte déjà {n} joueurs",
+  "msg.cardProblems": "La carte présente {n} problème(s), listés dans Vérifier. {action} quand même ?",
+  "msg.finishAction": "Terminer la partie",
+  "msg.shareAction": "Partager",
+  "msg.roundUpdated": "Partie enregistrée mise à jour",
+  "msg.roundSaved": "Partie enregistrée dans l'historique",
+  "msg.roundSaveFailed": "Impossible d'enregistrer la partie sur cet appareil",
+  "msg.roundOpenFailed": "Impossible d'ouvrir cette partie :\n{errors}",
+  "msg.csvFailed": "Impossible d'importer le CSV :\n{errors}",
+  "msg.importProblems": "Importé avec {n} problème(s) :\n{errors}",
+  "msg.jsonFailed": "Impossible d'importer le JSON :\n{errors}",
+  "msg.shareFailed": "Impossible de créer un code de partage",
+  "msg.leaveLive": "Ouvrir la carte d'un autre groupe quitte la session en direct. Continuer ?",
+  "msg.removeGroup": "Retirer {name} et sa carte de l'événement ?",
+  "msg.endEvent": "Terminer l'événement ? La carte ouverte reste ; les cartes des autres groupes sont supprimées.",
+  "msg.endTournament": "Terminer le tournoi ? Son classement et les cartes rattachées sont supprimés ; vos cartes et l'historique restent.",
+  "msg.pdfFailed": "Impossible de créer le PDF",
+
+  "footer.features": "Fonctionnalités",
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en: EN, fr: FR };
+
+export const FEATURES: Record<Language, string[]> = {
+  en: [
+    "Up to 4 players per card, up to 36 holes (courses replay past 18)",
+    "Events with any number of groups, tee times or shotgun starts",
+    "Tournaments: gross, net and Stableford leaderboards with a cut and countback",
+    "Editable player names",
+    "Saved roster of golfers with handicap index and preferred tee",
+    "Handicap Index to course and playing handicap (WHS)",
+    "Handicap Index kept from saved rounds: net double bogey, differentials, best 8 of 20, 9-hole pairs, soft and hard caps",
+    "Handicap allowances per format",
+    "Playing handicap strokes allocated by SI, including 9-hole rounds and plus handicaps",
+    "Editable par and stroke index per hole",
+    "Gross, Out/Back, Total, Net totals",
+    "Stableford points: standard, modified or your own table",
+    "Singles match play with hole results and status",
+    "Team formats: better ball, scramble, foursomes, Texas scramble",
+    "Side games: skins, Nassau with presses, Wolf, with settlement",
+    "Birdie/Eagle/Par/Bogey counters",
+    "Putts, fairways, GIR, scrambling, sand saves and penalties",
+    "Average per hole row",
+    "Current hole highlight + navigation",
+    "Hole view for phones: big +/− buttons and birdie/par/bogey picks",
+    "Keyboard navigation across inputs",
+    "Local storage autosave",
+    "Round history: finish, search, reopen, duplicate, delete",
+    "Live scoring across phones via a relay or between browser tabs",
+    "Share via compact link or on-screen QR code, optionally read-only",
+    "Export CSV and JSON",
+    "Import JSON and CSV (including spreadsheet edits)",
+    "Pick-ups (no return), net double bogey or maximum score caps for adjusted gross, and a card check before finishing or sharing",
+    "Undo/Redo that survives reloads, with a change log of every edit",
+    "Reset/clear",
+    "Pace of play: tee time, per-hole targets, projected finish and behind-pace alerts",
+    "Print-friendly layout",
+    "Official PDF card with player and marker signatures; signed cards lock, unlocks are recorded",
+    "Installable, works offline, prompts when an update is ready",
+    "Sticky headers and first column",
+    "Dark theme toggle",
+    "English and French, with distances in yards or metres",
+    "GPS distances to the front, centre and back of the green, with an optional move to the next hole on its tee",
+    "Shot log with strokes gained off the tee, approach, around the green and putting, per round and across saved rounds",
+    "Course catalog for Kamloops, BC with tees, ratings and yardages",
+    "Course editor with import/export of your own courses",
+  ],
+  fr: [
+    "Jusqu'à 4 joueurs par carte et 36 trous (le parcours recommence après 18)",
+    "Événements avec autant de groupes que voulu, heures de départ ou départs simultanés",
+    "Tournois : classements brut, net et Stableford avec cut et départage",
+    "Noms des joueurs modifiables",
+    "Liste de golfeurs avec index de handicap et départ préféré",
+    "Index de handicap converti en handicap de parcours et de jeu (WHS)",
+    "Index de handicap tenu à partir des parties enregistrées : double bogey net, différentiels, 8 meilleurs sur 20, paires de 9 trous, plafonds souple et strict",
+    "Allocations de handicap par formule",
+    "Coups reçus répartis selon l'index des trous, y compris sur 9 trous et pour les handicaps « plus »",
+    "Par et index modifiables pour chaque trou",
+    "Totaux brut, aller/retour, total et net",
+    "Points Stableford : barème standard, modifié ou personnalisé",
+    "Match play en simple avec résultat et état par trou",
+    "Formules d'équipe : meilleure balle, scramble, foursome, scramble à la texane",
+    "Jeux annexes : skins, Nassau avec relances, Wolf, avec règlement",
+    "Compteurs de birdies, eagles, pars et bogeys",
+    "Putts, fairways, GIR, scrambling, sauvetages de bunker et pénalités",
+    "Ligne de moyenne par trou",
+    "Trou en cours mis en évidence et navigation",
+    "Vue par trou pour téléphone : grands boutons +/− et choix birdie/par/bogey",
+    "Navigation au clavier entre les champs",
+    "Enregistrement automatique sur l'appareil",
+    "Historique des parties : terminer, chercher, rouvrir, dupliquer, supprimer",
+    "Score en direct entre téléphones via un relais ou entre onglets",
+    "Partage par lien court ou code QR, éventuellement en lecture seule",
+    "Export CSV et JSON",
+    "Import JSON et CSV (y compris depuis un tableur)",
+    "Balles relevées (pas de score), maximum double bogey net ou score maximum pour le brut ajusté, et vérification avant de terminer ou partager",
+    "Annuler/Rétablir conservés après rechargement, avec journal de chaque modification",
+    "Réinitialisation",
+    "Rythme de jeu : heure de départ, cibles par trou, fin estimée et alertes de retard",
+    "Mise en page pour l'impression",
+    "Carte PDF officielle signée par le joueur et le marqueur ; une carte signée est verrouillée et les déverrouillages sont consignés",
+    "Installable, fonctionne hors ligne, signale les mises à jour",
+    "En-têtes et première colonne fixes",
+    "Thème sombre",
+    "Anglais et français, distances en verges ou en mètres",
+    "Distances GPS jusqu'à l'avant, au centre et à l'arrière du green, avec passage automatique au trou suivant sur son départ",
+    "Coups joués avec coups gagnés au départ, en approche, autour du green et au putting, par partie et sur les parties enregistrées",
+    "Catalogue des parcours de Kamloops (C.-B.) avec départs, évaluations et distances",
+    "Éditeur de parcours avec import/export de vos propres parcours",
+  ],
+};
+
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+export function translator(language: Language): Translate {
+  const catalog = CATALOGS[language] ?? EN;
+  return (key, vars) => catalog[key].replace(/\{(\w+)\}/g, (match, name: string) => (vars && name in vars ? String(vars[name]) : match));
+}
+
+function isMessageKey(key: string): key is MessageKey {
+  return key in EN;
+}
+
+// A message kept as data (the audit log, undo steps) and worded in the reader's language when shown
+export type Message = { key: MessageKey; vars?: Record<string, MessageVar> };
+// A list option named through optionLabel, e.g. a team or an allowance
+export type OptionRef = { group: string; id: string | number; fallback: string };
+export type MessageVar = string | number | Message | OptionRef;
+
+export function formatMessage(t: Translate, m: Message): string {
+  const vars = Object.fromEntries(
+    Object.entries(m.vars ?? {}).map(([name, v]) => [
+      name,
+      typeof v !== "object" ? v : "key" in v ? formatMessage(t, v) : optionLabel(t, v.group, v.id, v.fallback),
+    ])
+  );
+  return t(m.key, vars);
+}
+
+// A stored message whose keys all still exist, so one saved by an older app can be shown
+export function isMessage(v: unknown): v is Message {
+  if (typeof v !== "object" || v === null) return false;
+  const m = v as { key?: unknown; vars?: unknown };
+  if (typeof m.key !== "string" || !isMessageKey(m.key)) return false;
+  if (m.vars === undefined) return true;
+  if (typeof m.vars !== "object" || m.vars === null) return false;
+  return Object.values(m.vars).every(
+    (x) => typeof x === "string" || typeof x === "number" || isMessage(x) || (typeof x?.group === "string" && typeof x?.fallback === "string")
+  );
+}
+
+// Catalog label for a list option (allowances, formats, ...) or its built-in English label
+export function optionLabel(t: Translate, group: string, id: string | number, fallback: string): string {
+  const key = `${group}.${id}`;
+  return isMessageKey(key) ? t(key) : fallback;
+}
+
+export function findLanguage(id: string): Language {
+  return LANGUAGES.find((l) => l.id === id)?.id ?? "en";
+}
+
+export function formatNumber(language: Language, n: number, decimals = 0): string {
+  return new Intl.NumberFormat(LOCALES[language], { maximumFractionDigits: decimals }).format(n);
+}
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { startLiveSession } from "@/lib/livesync";
+import type { LiveSession, SyncMessage, SyncTransport } from "@/lib/livesync";
+import { defaultSnapshot, markPickup } from "@/lib/scorecard";
+import type { Snapshot } from "@/lib/scorecard";
+
+// In-memory relay: messages wait in a queue until flushed, then go to every connected device,
+// the sender included, as a relay echoes them
+function memoryRelay() {
+  const queue: SyncMessage[] = [];
+  const sent: SyncMessage[] = [];
+  const listeners = new Set<(msg: SyncMessage) => void>();
+  return {
+    sent,
+    transport(): SyncTransport {
+      let listener: (msg: SyncMessage) => void = () => {};
+      return {
+        connect(onMessage, onOpen) {
+          listener = onMessage;
+          listeners.add(listener);
+          onOpen();
+        },
+        send(msg) {
+          queue.push(msg);
+          sent.push(msg);
+        },
+        close: () => listeners.delete(listener),
+      };
+    },
+    deliver(msg: SyncMessage) {
+      listeners.forEach((l) => l(structuredClone(msg)));
+    },
+    flush() {
+      while (queue.length) this.deliver(queue.shift()!);
+    },
+  };
+}
+
+type Device = { session: LiveSession; card: Snapshot; edit: (fn: (s: Snapshot) => void) => void };
+
+// A device's card follows its own edits and the merged state from the others
+function join(relay: ReturnType<typeof memoryRelay>, host: boolean, initial: Snapshot): Device {
+  const device = {} as Device;
+  device.card = structuredClone(initial);
+  device.session = startLiveSession({
+    code: "ABC123",
+    host,
+    name: host ? "Host" : "Guest",
+    transport: relay.transport(),
+    initial,
+    onSnapshot: (snap) => (device.card = snap),
+    onPeers: () => {},
+  });
+  device.edit = (fn) => {
+    const next = structuredClone(device.card);
+    fn(next);
+    device.card = next;
+    device.session.publish(next);
+  };
+  return device;
+}
+
+function lastEdit(relay: ReturnType<typeof memoryRelay>, from: string): SyncMessage {
+  return relay.sent.filter((m) => m.type === "edit" && m.from === from).at(-1)!;
+}
+
+let sessions: LiveSession[] = [];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("window", globalThis);
+});
+
+afterEach(() => {
+  sessions.forEach((s) => s.close());
+  sessions = [];
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+function pair() {
+  const relay = memoryRelay();
+  const host = join(relay, true, defaultSnapshot());
+  const guest = join(relay, false, defaultSnapshot());
+  sessions.push(host.session, guest.session);
+  relay.flush();
+  return { relay, host, guest };
+}
+
+describe("live sessions", () => {
+  it("passes an edit on one device to the other", () => {
+    const { relay, host, guest } = pair();
+    guest.edit((s) => (s.players[0].scores[0] = 5));
+    relay.flush();
+    expect(host.card.players[0].scores[0]).toBe(5);
+  });
+
+  it("settles concurrent edits to one cell the same way on every device", () => {
+    const { relay, host, guest } = pair();
+    host.edit((s) => (s.players[0].scores[3] = 4));
+    guest.edit((s) => (s.players[0].scores[3] = 6));
+    relay.flush();
+    // Same Lamport count, so the higher peer id wins everywhere
+    const winner = host.session.peer > guest.session.peer ? 4 : 6;
+    expect(host.card.players[0].scores[3]).toBe(winner);
+    expect(guest.card.players[0].scores[3]).toBe(winner);
+  });
+
+  it("lets a later edit win over an earlier one from the other device", () => {
+    const { relay, host, guest } = pair();
+    host.edit((s) => (s.players[1].scores[0] = 7));
+    relay.flush();
+    guest.edit((s) => (s.players[1].scores[0] = 3));
+    relay.flush();
+    expect(host.card.players[1].scores[0]).toBe(3);
+    expect(guest.card.players[1].scores[0]).toBe(3);
+  });
+
+  it("keeps edits to different holes made at the same time", () => {
+    const { relay, host, guest } = pair();
+    host.edit((s) => (s.players[0].scores[0] = 4));
+    guest.edit((s) => (s.players[1].scores[1] = 5));
+    relay.flush();
+    [host, guest].forEach((d) => {
+      expect(d.card.players[0].scores[0]).toBe(4);
+      expect(d.card.players[1].scores[1]).toBe(5);
+    });
+  });
+});
+
+describe("deleted cells", () => {
+  it("sends a cleared pick-up as a tombstone", () => {
+    const { relay, host, guest } = pair();
+    host.edit((s) => (s.players[0].pickups = markPickup(s.players[0], 2, true)));
+    relay.flush();
+    expect(guest.card.players[0].pickups?.[2]).toBe(true);
+    guest.edit((s) => (s.players[0].pickups = markPickup(s.players[0], 2, false)));
+    relay.flush();
+    expect(host.card.players[0].pickups).toBeUndefined();
+  });
+
+  it("doesn't bring a deleted cell back when an older edit arrives late", () => {
+    const { relay, host, guest } = pair();
+    host.edit((s) => (s.players[0].pickups = markPickup(s.players[0], 2, true)));
+    const mark = lastEdit(relay, host.session.peer);
+    relay.flush();
+    guest.edit((s) => (s.players[0].pickups = markPickup(s.players[0], 2, false)));
+    relay.flush();
+    relay.deliver(mark);
+    expect(host.card.players[0].pickups).toBeUndefined();
+    expect(guest.card.players[0].pickups).toBeUndefined();
+  });
+
+  it("settles a delete against a concurrent edit of the same cell the same way on every device", () => {
+    const { relay, host, guest } = pair();
+    host.edit((s) => (s.players[0].id = "g-1"));
+    relay.flush();
+    host.edit((s) => delete s.players[0].id);
+    guest.edit((s) => (s.players[0].id = "g-2"));
+    relay.flush();
+    const winner = host.session.peer > guest.session.peer ? undefined : "g-2";
+    expect(host.card.players[0].id).toBe(winner);
+    expect(guest.card.players[0].id).toBe(winner);
+  });
+});
+
+describe("joining mid-round", () => {
+  it("gives a late guest the host's card and drops what only the guest had", () => {
+    const relay = memoryRelay();
+    const host = join(relay, true, defaultSnapshot());
+    sessions.push(host.session);
+    host.edit((s) => {
+      s.players[0].name = "Ann";
+      s.players[0].scores.fill(4, 0, 9);
+    });
+    relay.flush();
+
+    const own = defaultSnapshot();
+    own.players[0].scores[0] = 9;
+    own.players[1].pickups = markPickup(own.players[1], 5, true);
+    const guest = join(relay, false, own);
+    sessions.push(guest.session);
+    relay.flush();
+
+    expect(guest.card.players[0].name).toBe("Ann");
+    expect(guest.card.players[0].scores.slice(0, 10)).toEqual([4, 4, 4, 4, 4, 4, 4, 4, 4, 0]);
+    expect(guest.card.players[1].pickups).toBeUndefined();
+  });
+
+  it("only answers a hello with a full sync from the host", () => {
+    const relay = memoryRelay();
+    const host = join(relay, true, defaultSnapshot());
+    const first = join(relay, false, defaultSnapshot());
+    sessions.push(host.session, first.session);
+    relay.flush();
+    const late = join(relay, false, defaultSnapshot());
+    sessions.push(late.session);
+    relay.flush();
+    const syncs = relay.sent.filter((m) => m.type === "sync");
+    expect(syncs.map((m) => m.from)).toEqual([host.session.peer, host.session.peer]);
+    expect(syncs.map((m) => m.type === "sync" && m.to)).toEqual([first.session.peer, late.session.peer]);
+  });
+
+  it("carries on with the guest's edits after joining", () => {
+    const relay = memoryRelay();
+    const host = join(relay, true, defaultSnapshot());
+    sessions.push(host.session);
+    host.edit((s) => (s.players[0].scores[0] = 4));
+    const guest = join(relay, false, defaultSnapshot());
+    sessions.push(guest.session);
+    relay.flush();
+    guest.edit((s) => (s.players[0].scores[1] = 5));
+    relay.flush();
+    expect(host.card.players[0].scores.slice(0, 2)).toEqual([4, 5]);
+  });
+});
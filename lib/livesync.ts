@@ -0,0 +1,305 @@
+// Live scoring sessions: devices exchange per-cell edits and merge them last-writer-wins.
+// The transport is pluggable: a relay server for phones, or BroadcastChannel between tabs.
+
+import { parseSnapshot } from "@/lib/schema";
+import type { Snapshot } from "@/lib/scorecard";
+
+// Lamport clock plus peer id, so every device orders concurrent edits the same way
+export type Stamp = { c: number; p: string };
+
+type Cells = Record<string, unknown>;
+type StampedCells = Record<string, [unknown, Stamp]>;
+
+export type SyncMessage =
+  | { type: "hello"; from: string; name: string; host: boolean }
+  | { type: "presence"; from: string; name: string; host: boolean; hole: number }
+  | { type: "bye"; from: string }
+  | { type: "sync"; from: string; to: string; cells: StampedCells }
+  | { type: "edit"; from: string; cells: StampedCells };
+
+export type SyncTransport = {
+  connect: (onMessage: (msg: SyncMessage) => void, onOpen: () => void) => void;
+  send: (msg: SyncMessage) => void;
+  close: () => void;
+};
+
+export type TransportKind = "relay" | "tabs";
+
+export type Peer = {
+  id: string;
+  name: string;
+  host: boolean;
+  hole: number;
+  seen: number; // ms timestamp of the last message
+};
+
+export type LiveSession = {
+  code: string;
+  peer: string;
+  host: boolean;
+  publish: (snap: Snapshot) => void; // call after every local change
+  setHole: (hole: number) => void; // shown to the others as presence
+  close: () => void;
+};
+
+export const DEFAULT_RELAY_URL = process.env.NEXT_PUBLIC_RELAY_URL ?? "http://localhost:8787";
+
+const HEARTBEAT_MS = 15000;
+const PEER_TIMEOUT_MS = 45000;
+const CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I
+
+export function newSessionCode(): string {
+  return Array.from({ length: 6 }, () => CODE_CHARS[Math.floor(Math.random() * CODE_CHARS.length)]).join("");
+}
+
+export function normalizeSessionCode(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 6);
+}
+
+// ---------- Transports ----------
+
+export function broadcastTransport(code: string): SyncTransport {
+  const channel = new BroadcastChannel(`golf-live-${code}`);
+  return {
+    connect(onMessage, onOpen) {
+      channel.onmessage = (e) => onMessage(e.data as SyncMessage);
+      queueMicrotask(onOpen);
+    },
+    send: (msg) => channel.postMessage(msg),
+    close: () => channel.close(),
+  };
+}
+
+// Server-sent events down, POST up; see scripts/relay-server.mjs
+export function relayTransport(baseUrl: string, code: string): SyncTransport {
+  const url = `${baseUrl.replace(/\/+$/, "")}/sessions/${encodeURIComponent(code)}`;
+  let source: EventSource | null = null;
+  return {
+    connect(onMessage, onOpen) {
+      source = new EventSource(url);
+      source.onmessage = (e) => {
+        try {
+          onMessage(JSON.parse(e.data));
+        } catch {
+          // ignore anything that isn't ours
+        }
+      };
+      // Fires again after every reconnect, which re-requests the full state
+      source.onopen = onOpen;
+    },
+    send(msg) {
+      // text/plain keeps this a simple request with no CORS preflight
+      fetch(url, { method: "POST", body: JSON.stringify(msg), headers: { "Content-Type": "text/plain" } }).catch(() => {
+        // dropped edits are resent with the next full sync
+      });
+    },
+    close() {
+      source?.close();
+      source = null;
+    },
+  };
+}
+
+// ---------- Cells ----------
+
+// One cell per score, par, SI and team score so two players editing different
+// holes never overwrite each other; everything else is a single cell per field
+export function snapshotCells(s: Snapshot): Cells {
+  const { players, pars, si, teamScores, ...rest } = s;
+  const cells: Cells = { ...rest };
+  pars.forEach((v, h) => (cells[`pars.${h}`] = v));
+  si.forEach((v, h) => (cells[`si.${h}`] = v));
+  teamScores.forEach((row, t) => row.forEach((v, h) => (cells[`teamScores.${t}.${h}`] = v)));
+  players.forEach((p, i) => {
+    cells[`players.${i}.name`] = p.name;
+    cells[`players.${i}.handicap`] = p.handicap;
+    if (p.id) cells[`players.${i}.id`] = p.id;
+    p.scores.forEach((v, h) => (cells[`players.${i}.scores.${h}`] = v));
+    p.stats?.forEach((st, h) => (cells[`players.${i}.stats.${h}`] = st));
+    p.pickups?.forEach((v, h) => (cells[`players.${i}.pickups.${h}`] = v));
+    p.shots?.forEach((shots, h) => (cells[`players.${i}.shots.${h}`] = shots));
+  });
+  return cells;
+}
+
+function setIndexed(arr: unknown[], index: number, value: unknown) {
+  while (arr.length < index) arr.push(undefined);
+  arr[index] = value;
+}
+
+export function cellsToSnapshot(cells: Cells): Snapshot | null {
+  const snap: Record<string, unknown> = {};
+  const pars: unknown[] = [];
+  const si: unknown[] = [];
+  const teamScores: unknown[][] = [];
+  const players: { name?: unknown; handicap?: unknown; id?: unknown; scores: unknown[]; stats: unknown[]; pickups: unknown[]; shots: unknown[] }[] = [];
+  Object.entries(cells).forEach(([key, value]) => {
+    const [field, a, b, c] = key.split(".");
+    if (a !== undefined && value === null) return; // tombstone
+    if (a === undefined) snap[field] = value;
+    else if (field === "pars") setIndexed(pars, Number(a), value);
+    else if (field === "si") setIndexed(si, Number(a), value);
+    else if (field === "teamScores") setIndexed((teamScores[Number(a)] ??= []), Number(b), value);
+    else if (field === "players") {
+      const p = (players[Number(a)] ??= { scores: [], stats: [], pickups: [], shots: [] });
+      if (b === "scores") setIndexed(p.scores, Number(c), value);
+      else if (b === "stats") setIndexed(p.stats, Number(c), value);
+      else if (b === "pickups") setIndexed(p.pickups, Number(c), value);
+      else if (b === "shots") setIndexed(p.shots, Number(c), value);
+      else if (b === "name" || b === "handicap" || b === "id") p[b] = value;
+    }
+  });
+  const zeros = (arr: unknown[]) => Array.from(arr, (v) => v ?? 0);
+  const { snapshot } = parseSnapshot({
+    ...snap,
+    pars: zeros(pars),
+    si: zeros(si),
+    teamScores: Array.from(teamScores, (row) => zeros(row ?? [])),
+    players: Array.from(players, (p) => ({
+      name: p?.name ?? "",
+      handicap: p?.handicap ?? 0,
+      ...(p?.id ? { id: p.id } : {}),
+      scores: zeros(p?.scores ?? []),
+      ...(p?.stats.length ? { stats: Array.from(p.stats, (st) => st ?? { putts: null, fairway: "", penalties: 0, sand: 0 }) } : {}),
+      ...(p?.pickups.some(Boolean) ? { pickups: Array.from(p.pickups, (v) => v === true) } : {}),
+      ...(p?.shots.length ? { shots: Array.from(p.shots, (v) => v ?? []) } : {}),
+    })),
+  });
+  return snapshot;
+}
+
+function newer(a: Stamp, b: Stamp | undefined): boolean {
+  if (!b) return true;
+  return a.c !== b.c ? a.c > b.c : a.p > b.p;
+}
+
+// ---------- Session ----------
+
+type SessionOptions = {
+  code: string;
+  host: boolean;
+  name: string;
+  transport: SyncTransport;
+  initial: Snapshot;
+  onSnapshot: (snap: Snapshot) => void; // merged state after remote edits
+  onPeers: (peers: Peer[]) => void;
+};
+
+export function startLiveSession(opts: SessionOptions): LiveSession {
+  const { code, host, name, transport, onSnapshot, onPeers } = opts;
+  const peer = Math.random().toString(36).slice(2, 10);
+  const values: Cells = snapshotCells(opts.initial);
+  const stamps: Record<string, Stamp> = {};
+  const peers = new Map<string, Peer>();
+  let clock = 0;
+  let hole = 1;
+
+  // The host's card is the starting point; a guest's own card loses to anything stamped
+  if (host) Object.keys(values).forEach((k) => (stamps[k] = { c: 0, p: peer }));
+
+  function stamped(keys: string[]): StampedCells {
+    const out: StampedCells = {};
+    keys.forEach((k) => {
+      if (stamps[k]) out[k] = [values[k], stamps[k]];
+    });
+    return out;
+  }
+
+  function notePeer(id: string, patch: Partial<Peer>) {
+    const prev = peers.get(id) ?? { id, name: "", host: false, hole: 1, seen: 0 };
+    peers.set(id, { ...prev, ...patch, seen: Date.now() });
+    onPeers([...peers.values()]);
+  }
+
+  function merge(cells: StampedCells, force = false) {
+    let changed = force;
+    Object.entries(cells).forEach(([key, [value, stamp]]) => {
+      clock = Math.max(clock, stamp.c);
+      if (!newer(stamp, stamps[key])) return;
+      stamps[key] = stamp;
+      if (JSON.stringify(values[key]) !== JSON.stringify(value)) {
+        values[key] = value;
+        changed = true;
+      }
+    });
+    if (!changed) return;
+    const snap = cellsToSnapshot(values);
+    if (snap) onSnapshot(snap);
+  }
+
+  function presence() {
+    transport.send({ type: "presence", from: peer, name, host, hole });
+  }
+
+  transport.connect(
+    (msg) => {
+      if (msg.from === peer) return; // relays echo our own messages
+      if (msg.type === "bye") {
+        peers.delete(msg.from);
+        onPeers([...peers.values()]);
+        return;
+      }
+      if (msg.type === "sync" && msg.to !== peer) return;
+      if (msg.type === "hello") {
+        notePeer(msg.from, { name: msg.name, host: msg.host });
+        presence();
+        if (host) transport.send({ type: "sync", from: peer, to: msg.from, cells: stamped(Object.keys(stamps)) });
+      } else if (msg.type === "presence") {
+        notePeer(msg.from, { name: msg.name, host: msg.host, hole: msg.hole });
+      } else if (msg.type === "sync") {
+        notePeer(msg.from, {});
+        // Whatever this device had before joining and nobody else has seen is dropped
+        Object.keys(values).forEach((k) => {
+          if (!stamps[k]) delete values[k];
+        });
+        merge(msg.cells, true);
+      } else {
+        notePeer(msg.from, {});
+        merge(msg.cells);
+      }
+    },
+    () => transport.send({ type: "hello", from: peer, name, host })
+  );
+
+  const heartbeat = window.setInterval(() => {
+    presence();
+    const cutoff = Date.now() - PEER_TIMEOUT_MS;
+    let dropped = false;
+    peers.forEach((p, id) => {
+      if (p.seen < cutoff) {
+        peers.delete(id);
+        dropped = true;
+      }
+    });
+    if (dropped) onPeers([...peers.values()]);
+  }, HEARTBEAT_MS);
+
+  return {
+    code,
+    peer,
+    host,
+    publish(snap) {
+      const cells = snapshotCells(snap);
+      // A hole or player cell that's gone (a cleared pick-up, an unlinked golfer) goes out as a null tombstone
+      Object.keys(values).forEach((k) => {
+        if (k.includes(".") && !(k in cells)) cells[k] = null;
+      });
+      const changed = Object.keys(cells).filter((k) => JSON.stringify(cells[k]) !== JSON.stringify(values[k]));
+      changed.forEach((k) => {
+        values[k] = cells[k];
+        stamps[k] = { c: ++clock, p: peer };
+      });
+      if (changed.length) transport.send({ type: "edit", from: peer, cells: stamped(changed) });
+    },
+    setHole(currentHole) {
+      if (currentHole === hole) return;
+      hole = currentHole;
+      presence();
+    },
+    close() {
+      window.clearInterval(heartbeat);
+      transport.send({ type: "bye", from: peer });
+      transport.close();
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// Singles match play: strokes from the handicap difference, hole results and running status.
+
+import type { Translate } from "@/lib/i18n";
+import { playOrder } from "@/lib/scorecard";
+import { allocateStrokes } from "@/lib/scoring";
+
+export type MatchHole = {
+  winner: 0 | 1 | null; // index of the side that won the hole, null when halved
+  up: number; // running margin after this hole, positive = player A ahead
+  remaining: number; // holes left after this one
+  strokes: [number, number]; // strokes received on this hole
+};
+
+export type Match = {
+  receiver: 0 | 1 | null; // who gets strokes, null when handicaps are equal
+  strokesGiven: number;
+  allocation: number[]; // strokes the receiver gets on each hole
+  holes: (MatchHole | null)[]; // null = not played yet, or after the match closed
+  up: number;
+  played: number;
+  closed: boolean;
+};
+
+// "2 UP", "AS", "Dormie 2"
+export function statusLabel(up: number, remaining: number, t: Translate): string {
+  const margin = Math.abs(up);
+  if (margin === 0) return t("match.allSquare");
+  if (margin === remaining) return t("match.dormie", { n: margin });
+  return t("match.up", { n: margin });
+}
+
+// "3&2", "1 UP", "AS", or the running status
+export function matchResult(m: Match, t: Translate): string {
+  const remaining = m.holes.length - m.played;
+  if (m.closed && remaining > 0) return `${Math.abs(m.up)}&${remaining}`;
+  if (m.played === m.holes.length) return m.up === 0 ? t("match.allSquare") : t("match.up", { n: Math.abs(m.up) });
+  return statusLabel(m.up, remaining, t);
+}
+
+// Holes are played in order (wrapping for a shotgun start); the match stops at the
+// first hole missing a score and closes once the margin exceeds the holes remaining.
+// A pick-up concedes the hole, and both picking up halves it.
+export function computeMatch(
+  scores: [number[], number[]],
+  playing: [number, number],
+  si: number[],
+  numHoles: number,
+  order: number[] = playOrder(numHoles, 1),
+  pickups: [boolean[]?, boolean[]?] = []
+): Match {
+  const diff = Math.abs(playing[0] - playing[1]);
+  const receiver = diff === 0 ? null : playing[0] > playing[1] ? 0 : 1;
+  const allocation = allocateStrokes(diff, si, numHoles);
+  const holes: (MatchHole | null)[] = Array(numHoles).fill(null);
+  let up = 0;
+  let played = 0;
+  let closed = false;
+
+  for (const h of order) {
+    if (closed) break;
+    const a = pickups[0]?.[h] ? Infinity : scores[0][h] || 0;
+    const b = pickups[1]?.[h] ? Infinity : scores[1][h] || 0;
+    if (!a || !b) break;
+    const extra = receiver == null ? 0 : allocation[h];
+    const strokes: [number, number] = receiver === 0 ? [extra, 0] : [0, extra];
+    const netA = a - strokes[0];
+    const netB = b - strokes[1];
+    const winner = netA < netB ? 0 : netB < netA ? 1 : null;
+    if (winner === 0) up++;
+    else if (winner === 1) up--;
+    played++;
+    const remaining = numHoles - played;
+    closed = Math.abs(up) > remaining;
+    holes[h] = { winner, up, remaining, strokes };
+  }
+
+  return { receiver, strokesGiven: diff, allocation, holes, up, played, closed: closed || played === numHoles };
+}
+
+// Leader-relative summary for one side, e.g. "Won 3&2", "Lost 1 UP", "2 UP thru 7"
+export function describeMatch(m: Match, side: 0 | 1, t: Translate): string {
+  if (m.played === 0) return t("match.notStarted");
+  const ahead = side === 0 ? m.up > 0 : m.up < 0;
+  if (m.closed) {
+    if (m.up === 0) return t("match.halved");
+    return t(ahead ? "match.won" : "match.lost", { result: matchResult(m, t) });
+  }
+  const n = Math.abs(m.up);
+  const status = m.up === 0 ? t("match.allSquare") : t(ahead ? "match.up" : "match.down", { n });
+  return t("match.thru", { status, n: m.played });
+}
@@ -0,0 +1,167 @@
+// Pace of play: tee time, per-hole target minutes and a hole clock whose timestamps survive reloads.
+
+import { MAX_HOLES } from "@/lib/scorecard";
+
+export type Pace = {
+  teeTime: string; // "08:10", "" when not set
+  targets: number[]; // minutes per hole index, 0 = par default
+  alertMinutes: number; // warn once the group is this far behind
+  startedAt: number | null; // epoch ms the clock first started this round
+  segmentStart: number | null; // epoch ms the running stretch began, null while paused
+  durations: number[]; // seconds banked per hole index
+  holeEnds: number[]; // epoch ms each hole was finished, 0 = not yet
+};
+
+export type PaceStatus = {
+  behind: number; // seconds behind target, negative when ahead
+  alert: boolean;
+  completed: number; // holes finished on the clock
+  projectedFinish: number | null; // epoch ms at target pace from here
+  scheduledFinish: number | null; // tee time plus every hole's target
+};
+
+export const PACE_STORAGE_KEY = "golf-pace-v1";
+export const DEFAULT_ALERT_MINUTES = 10;
+
+// Typical club targets: about 4h10 for a par-72 round
+const PAR_TARGET_MINUTES: Record<number, number> = { 3: 11, 4: 14, 5: 17 };
+
+export function emptyPace(): Pace {
+  return {
+    teeTime: "",
+    targets: [],
+    alertMinutes: DEFAULT_ALERT_MINUTES,
+    startedAt: null,
+    segmentStart: null,
+    durations: Array(MAX_HOLES).fill(0),
+    holeEnds: Array(MAX_HOLES).fill(0),
+  };
+}
+
+// A fresh clock for the next round; the targets and alert threshold carry over
+export function resetPace(pace: Pace, teeTime = "", durations: number[] = []): Pace {
+  return {
+    ...emptyPace(),
+    teeTime,
+    targets: pace.targets,
+    alertMinutes: pace.alertMinutes,
+    durations: durations.concat(Array(MAX_HOLES).fill(0)).slice(0, MAX_HOLES),
+  };
+}
+
+export function parTarget(par: number): number {
+  return PAR_TARGET_MINUTES[par] ?? PAR_TARGET_MINUTES[4] + (par - 4) * 3;
+}
+
+export function targetMinutes(pace: Pace, pars: number[], numHoles: number): number[] {
+  return Array.from({ length: numHoles }, (_, h) => pace.targets[h] || parTarget(pars[h]));
+}
+
+export function isRunning(pace: Pace): boolean {
+  return pace.segmentStart != null;
+}
+
+function bank(pace: Pace, hole: number, now: number): number[] {
+  const durations = pace.durations.slice();
+  if (pace.segmentStart != null) durations[hole] += Math.max(0, Math.floor((now - pace.segmentStart) / 1000));
+  return durations;
+}
+
+export function startClock(pace: Pace, now: number): Pace {
+  if (isRunning(pace)) return pace;
+  return { ...pace, startedAt: pace.startedAt ?? now, segmentStart: now };
+}
+
+// Pausing keeps the time spent on the hole so far
+export function pauseClock(pace: Pace, hole: number, now: number): Pace {
+  if (!isRunning(pace)) return pace;
+  return { ...pace, durations: bank(pace, hole, now), segmentStart: null };
+}
+
+// Moving on from a hole while the clock runs stamps its finish and starts the next one
+export function finishHole(pace: Pace, hole: number, now: number): Pace {
+  if (!isRunning(pace)) return pace;
+  const holeEnds = pace.holeEnds.slice();
+  holeEnds[hole] = now;
+  return { ...pace, durations: bank(pace, hole, now), holeEnds, segmentStart: now };
+}
+
+// Seconds on a hole, including the stretch still running
+export function holeElapsed(pace: Pace, hole: number, now: number): number {
+  const running = pace.segmentStart != null ? Math.max(0, Math.floor((now - pace.segmentStart) / 1000)) : 0;
+  return (pace.durations[hole] || 0) + running;
+}
+
+// "08:10" on the day the round started (or today)
+export function teeTimeAt(teeTime: string, day: number): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(teeTime);
+  if (!m) return null;
+  const d = new Date(day);
+  d.setHours(Number(m[1]), Number(m[2]), 0, 0);
+  return d.getTime();
+}
+
+export function paceStatus(pace: Pace, pars: number[], numHoles: number, currentHole: number, now: number): PaceStatus {
+  const targets = targetMinutes(pace, pars, numHoles).map((m) => m * 60);
+  const hole = currentHole - 1;
+  let behind = 0;
+  let completed = 0;
+  for (let h = 0; h < numHoles; h++) {
+    if (h === hole || !pace.holeEnds[h]) continue;
+    behind += pace.durations[h] - targets[h];
+    completed++;
+  }
+  // The current hole only counts once it runs over its target
+  const onHole = holeElapsed(pace, hole, now);
+  behind += Math.max(0, onHole - (targets[hole] ?? 0));
+  // Teeing off late puts the group behind from the first hole
+  const tee = teeTimeAt(pace.teeTime, pace.startedAt ?? now);
+  if (tee != null && pace.startedAt != null) behind += Math.floor((pace.startedAt - tee) / 1000);
+
+  const remaining = targets.reduce((sum, t, h) => (h === hole || pace.holeEnds[h] ? sum : sum + t), 0);
+  const started = pace.startedAt != null;
+  return {
+    behind,
+    alert: started && behind > pace.alertMinutes * 60,
+    completed,
+    projectedFinish: started ? now + (Math.max(0, (targets[hole] ?? 0) - onHole) + remaining) * 1000 : null,
+    scheduledFinish: tee != null ? tee + targets.reduce((a, b) => a + b, 0) * 1000 : null,
+  };
+}
+
+export function formatDuration(seconds: number): string {
+  const s = Math.abs(Math.round(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const rest = String(s % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${rest}` : `${m}:${rest}`;
+}
+
+export function formatClock(ms: number, locale?: string): string {
+  return new Date(ms).toLocaleTimeString(locale ?? [], { hour: "2-digit", minute: "2-digit" });
+}
+
+export function loadPace(): Pace {
+  try {
+    const raw = localStorage.getItem(PACE_STORAGE_KEY);
+    if (!raw) return emptyPace();
+    const p = JSON.parse(raw) as Partial<Pace>;
+    const base = emptyPace();
+    const nums = (v: unknown) => (Array.isArray(v) ? v.map((x) => Number(x) || 0) : []);
+    return {
+      teeTime: typeof p.teeTime === "string" ? p.teeTime : "",
+      targets: nums(p.targets),
+      alertMinutes: Number(p.alertMinutes) || base.alertMinutes,
+      startedAt: typeof p.startedAt === "number" ? p.startedAt : null,
+      segmentStart: typeof p.segmentStart === "number" ? p.segmentStart : null,
+      durations: nums(p.durations).concat(base.durations).slice(0, MAX_HOLES),
+      holeEnds: nums(p.holeEnds).concat(base.holeEnds).slice(0, MAX_HOLES),
+    };
+  } catch {
+    return emptyPace();
+  }
+}
+
+export function savePace(pace: Pace) {
+  localStorage.setItem(PACE_STORAGE_KEY, JSON.stringify(pace));
+}
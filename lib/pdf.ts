@@ -0,0 +1,152 @@
+// Official scorecard PDF: course details, hole-by-hole gross and net, totals and the attestation.
+
+import type { jsPDF } from "jspdf";
+import { SIGNATURE_HEIGHT, SIGNATURE_WIDTH } from "@/lib/attest";
+import type { Signature } from "@/lib/attest";
+import { formatIndex } from "@/lib/handicap";
+import type { HandicapCalc } from "@/lib/handicap";
+import type { Translate } from "@/lib/i18n";
+import type { Snapshot } from "@/lib/scorecard";
+
+export type PdfCard = {
+  snapshot: Snapshot;
+  teeName: string;
+  date: Date;
+  handicaps: HandicapCalc[]; // per player row
+  strokes: number[][]; // handicap strokes per player row and hole
+};
+
+const PAGE_W = 210;
+const PAGE_H = 297;
+const MARGIN = 12;
+const SIG_BOX_H = 28;
+
+function sum(arr: number[]) {
+  return arr.reduce((a, b) => a + b, 0);
+}
+
+// Loaded on demand: jsPDF is only needed when someone asks for the PDF
+export async function scorecardPdf(card: PdfCard, t: Translate, locale: string): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const snap = card.snapshot;
+  const n = snap.numHoles;
+  const players = snap.players.slice(0, snap.numPlayers);
+  const hasYards = snap.yards.length > 0;
+
+  // Heading
+  doc.setFont("helvetica", "bold").setFontSize(16);
+  doc.text(snap.course, MARGIN, 18);
+  doc.setFont("helvetica", "normal").setFontSize(10);
+  const rating = snap.rating ? `${snap.rating}/${snap.slope}` : t("pdf.slope", { slope: snap.slope });
+  const tee = card.teeName ? `${t("pdf.tees", { name: card.teeName })}  |  ` : "";
+  doc.text(`${tee}${rating}  |  ${card.date.toLocaleDateString(locale)}  |  ${t("pdf.holes", { n })}`, MARGIN, 25);
+
+  // One row per hole with each player's gross and net
+  const fixed = [
+    { label: t("pdf.hole"), w: 12 },
+    ...(hasYards ? [{ label: t("pdf.yards"), w: 14 }] : []),
+    { label: t("pdf.par"), w: 10 },
+    { label: t("pdf.si"), w: 10 },
+  ];
+  const fixedW = sum(fixed.map((c) => c.w));
+  const colW = (PAGE_W - 2 * MARGIN - fixedW) / (players.length * 2);
+  const outIdx = Math.min(9, n);
+  const rows: { label: string; holes: number[]; total?: boolean }[] = [
+    ...Array.from({ length: n }, (_, h) => ({ label: String(h + 1), holes: [h] })),
+    { label: t("table.out"), holes: Array.from({ length: outIdx }, (_, h) => h) },
+    ...(n > 9 ? [{ label: t("table.in"), holes: Array.from({ length: n - outIdx }, (_, h) => h + outIdx) }] : []),
+    { label: t("table.total"), holes: Array.from({ length: n }, (_, h) => h), total: true },
+  ];
+  const top = 34;
+  const bottom = PAGE_H - MARGIN - SIG_BOX_H - 22;
+  const rowH = Math.min(6.5, (bottom - top) / (rows.length + 2));
+
+  // Header: player names over Gross/Net pairs, then column labels
+  doc.setFont("helvetica", "bold").setFontSize(8);
+  players.forEach((p, pi) => {
+    const x = MARGIN + fixedW + pi * 2 * colW;
+    const hcp = card.handicaps[pi];
+    doc.text(p.name, x + colW, top, { align: "center", maxWidth: 2 * colW - 1 });
+    if (hcp) {
+      doc.setFont("helvetica", "normal");
+      doc.text(t("pdf.handicaps", { index: formatIndex(p.handicap), playing: formatIndex(hcp.playing) }), x + colW, top + rowH * 0.8, { align: "center" });
+      doc.setFont("helvetica", "bold");
+    }
+  });
+  let y = top + rowH * 2;
+  let x = MARGIN;
+  fixed.forEach((c) => {
+    doc.text(c.label, x + c.w / 2, y, { align: "center" });
+    x += c.w;
+  });
+  players.forEach(() => {
+    doc.text(t("pdf.gross"), x + colW / 2, y, { align: "center" });
+    doc.text(t("pdf.net"), x + colW * 1.5, y, { align: "center" });
+    x += 2 * colW;
+  });
+  doc.setLineWidth(0.3).line(MARGIN, y + 1.5, PAGE_W - MARGIN, y + 1.5);
+
+  doc.setFont("helvetica", "normal");
+  rows.forEach((row) => {
+    y += rowH;
+    const single = row.holes.length === 1 ? row.holes[0] : -1;
+    if (single < 0) doc.setFont("helvetica", "bold");
+    const cells = [
+      row.label,
+      ...(hasYards ? [String(sum(row.holes.map((h) => snap.yards[h] || 0)) || "")] : []),
+      String(sum(row.holes.map((h) => snap.pars[h]))),
+      single >= 0 ? String(snap.si[single]) : "",
+    ];
+    x = MARGIN;
+    fixed.forEach((c, i) => {
+      doc.text(cells[i], x + c.w / 2, y, { align: "center" });
+      x += c.w;
+    });
+    players.forEach((p, pi) => {
+      const played = row.holes.filter((h) => (p.scores[h] || 0) > 0);
+      const gross = sum(played.map((h) => p.scores[h]));
+      const net = gross - sum(played.map((h) => card.strokes[pi]?.[h] ?? 0));
+      // Picked-up holes show "P" and make the round a no return
+      const pickedUp = row.holes.some((h) => p.pickups?.[h]);
+      const mark = !pickedUp ? null : single >= 0 ? t("table.pickup") : row.total ? t("table.noReturn") : null;
+      doc.text(mark ?? (played.length ? String(gross) : ""), x + colW / 2, y, { align: "center" });
+      doc.text(mark ?? (played.length ? String(net) : ""), x + colW * 1.5, y, { align: "center" });
+      x += 2 * colW;
+    });
+    if (single < 0) doc.setFont("helvetica", "normal");
+    doc.setLineWidth(0.1).line(MARGIN, y + rowH * 0.35, PAGE_W - MARGIN, y + rowH * 0.35);
+  });
+
+  // Signatures
+  const sigY = PAGE_H - MARGIN - SIG_BOX_H - 10;
+  const sigW = (PAGE_W - 2 * MARGIN - 10) / 2;
+  const attestation = snap.attestation;
+  [
+    { title: t("attest.player"), sig: attestation?.player },
+    { title: t("attest.marker"), sig: attestation?.marker },
+  ].forEach(({ title, sig }, i) => {
+    const bx = MARGIN + i * (sigW + 10);
+    doc.setFont("helvetica", "bold").setFontSize(9);
+    doc.text(t("pdf.signer", { role: title, name: sig?.name ?? "" }), bx, sigY - 2);
+    doc.setLineWidth(0.2).rect(bx, sigY, sigW, SIG_BOX_H);
+    if (sig) drawSignature(doc, sig, bx + 2, sigY + 2, sigW - 4, SIG_BOX_H - 4);
+  });
+  doc.setFont("helvetica", "normal").setFontSize(8);
+  const footer = attestation ? t("pdf.attested", { date: new Date(attestation.at).toLocaleString(locale) }) : t("pdf.notAttested");
+  const unlocks = snap.unlocks.map((u) => t("attest.unlocked", { date: new Date(u.at).toLocaleString(locale), reason: u.reason }));
+  doc.text([footer, ...unlocks].join("   "), MARGIN, PAGE_H - MARGIN, { maxWidth: PAGE_W - 2 * MARGIN });
+
+  return doc.output("blob");
+}
+
+// Scales the captured pen strokes into the box, keeping their proportions
+function drawSignature(doc: jsPDF, sig: Signature, x: number, y: number, w: number, h: number) {
+  const scale = Math.min(w / SIGNATURE_WIDTH, h / SIGNATURE_HEIGHT);
+  doc.setLineWidth(0.4);
+  sig.strokes.forEach((s) => {
+    for (let i = 2; i + 1 < s.length; i += 2) {
+      doc.line(x + s[i - 2] * scale, y + s[i - 1] * scale, x + s[i] * scale, y + s[i + 1] * scale);
+    }
+  });
+}
@@ -0,0 +1,36 @@
+// Per-device preferences, kept apart from the card: interface language, distance units and GPS hole advance.
+
+import { findLanguage } from "@/lib/i18n";
+import type { Language } from "@/lib/i18n";
+import { findDistanceUnit } from "@/lib/units";
+import type { DistanceUnit } from "@/lib/units";
+
+export type Prefs = {
+  language: Language;
+  units: DistanceUnit;
+  autoAdvance: boolean; // move to the next hole on reaching its tee
+};
+
+export const PREFS_STORAGE_KEY = "golf-prefs-v1";
+
+// Server render and first paint; the saved or browser language follows on mount
+export const DEFAULT_PREFS: Prefs = { language: "en", units: "yd", autoAdvance: false };
+
+export function loadPrefs(): Prefs {
+  const browser = navigator.language.toLowerCase().startsWith("fr") ? "fr" : "en";
+  try {
+    const raw = localStorage.getItem(PREFS_STORAGE_KEY);
+    const p = raw ? (JSON.parse(raw) as Partial<Prefs>) : {};
+    return {
+      language: findLanguage(String(p.language ?? browser)),
+      units: findDistanceUnit(String(p.units ?? DEFAULT_PREFS.units)).id,
+      autoAdvance: p.autoAdvance === true,
+    };
+  } catch {
+    return { ...DEFAULT_PREFS, language: browser };
+  }
+}
+
+export function savePrefs(prefs: Prefs) {
+  localStorage.setItem(PREFS_STORAGE_KEY, JSON.stringify(prefs));
+}
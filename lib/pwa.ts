@@ -0,0 +1,45 @@
+// Service worker registration and the "update available" handshake with public/sw.js.
+
+const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+const UPDATE_CHECK_MS = 30 * 60 * 1000;
+
+// Calls onUpdate with a function that activates the new build and reloads
+export function registerServiceWorker(onUpdate: (apply: () => void) => void): () => void {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return () => {};
+  let timer = 0;
+  let stopped = false;
+  let reloading = false;
+
+  const offer = (worker: ServiceWorker) =>
+    onUpdate(() => {
+      navigator.serviceWorker.addEventListener("controllerchange", () => {
+        if (reloading) return;
+        reloading = true;
+        window.location.reload();
+      });
+      worker.postMessage({ type: "SKIP_WAITING" });
+    });
+
+  navigator.serviceWorker
+    .register(`${BASE_PATH}/sw.js`, { scope: `${BASE_PATH}/` })
+    .then((reg) => {
+      // A build that finished installing while the app was closed
+      if (reg.waiting && navigator.serviceWorker.controller) offer(reg.waiting);
+      reg.addEventListener("updatefound", () => {
+        const worker = reg.installing;
+        worker?.addEventListener("statechange", () => {
+          // Without a controller this is the first install, not an update
+          if (worker.state === "installed" && navigator.serviceWorker.controller) offer(worker);
+        });
+      });
+      if (!stopped) timer = window.setInterval(() => reg.update().catch(() => {}), UPDATE_CHECK_MS);
+    })
+    .catch(() => {
+      // Offline support is a bonus; the app works without it
+    });
+
+  return () => {
+    stopped = true;
+    window.clearInterval(timer);
+  };
+}
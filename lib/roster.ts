@@ -0,0 +1,59 @@
+// Saved roster of golfers, reused across rounds and linked to archived scores by id.
+
+export type Golfer = {
+  id: string;
+  name: string;
+  initials: string;
+  handicapIndex: number;
+  preferredTee: string; // tee name, e.g. "White"; "" for no preference
+  autoIndex: boolean; // opt-in: handicapIndex is recalculated from saved rounds, see lib/handicapindex
+};
+
+export const ROSTER_STORAGE_KEY = "golf-roster-v1";
+
+export function newGolferId(): string {
+  return `g-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function initialsFor(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "";
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+export function createGolfer(name: string, handicapIndex = 0): Golfer {
+  return {
+    id: newGolferId(),
+    name,
+    initials: initialsFor(name),
+    handicapIndex,
+    preferredTee: "",
+    autoIndex: false,
+  };
+}
+
+export function loadRoster(): Golfer[] {
+  const raw = localStorage.getItem(ROSTER_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const list = JSON.parse(raw);
+    if (!Array.isArray(list)) return [];
+    return list
+      .filter((g) => g && typeof g.id === "string" && typeof g.name === "string")
+      .map((g) => ({
+        id: g.id,
+        name: g.name,
+        initials: typeof g.initials === "string" ? g.initials : initialsFor(g.name),
+        handicapIndex: Number(g.handicapIndex) || 0,
+        preferredTee: typeof g.preferredTee === "string" ? g.preferredTee : "",
+        autoIndex: g.autoIndex === true,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+export function saveRoster(roster: Golfer[]) {
+  localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(roster));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { migrate, parseSnapshot } from "@/lib/schema";
+import { SCHEMA_VERSION, defaultSnapshot } from "@/lib/scorecard";
+import { DEFAULT_SIDE_GAMES } from "@/lib/sidegames";
+
+// A default card with one side game setting replaced
+function withGame(game: "skins" | "nassau" | "wolf", patch: Record<string, unknown>) {
+  const s = defaultSnapshot();
+  return { ...s, sideGames: { ...s.sideGames, [game]: { ...s.sideGames[game], ...patch } } };
+}
+
+describe("migrate", () => {
+  it("brings an unversioned card up to date with defaults for the missing fields", () => {
+    const s = migrate({ numPlayers: 1, numHoles: 9, players: [{ name: "Ann", scores: [4, 5] }], sideGames: { wolf: { enabled: true } } });
+    expect(s.version).toBe(SCHEMA_VERSION);
+    expect(s.startHole).toBe(1);
+    expect(s.scoreCap).toBe("none");
+    expect(s.players).toEqual([{ name: "Ann", handicap: 0, scores: [4, 5] }]);
+    expect(s.sideGames).toEqual({ ...DEFAULT_SIDE_GAMES, wolf: { ...DEFAULT_SIDE_GAMES.wolf, enabled: true } });
+  });
+
+  it("refuses a card from a newer version", () => {
+    expect(() => migrate({ version: SCHEMA_VERSION + 1 })).toThrow(/newer app/);
+  });
+
+  it("opens an unversioned card once migrated", () => {
+    const { snapshot, errors } = parseSnapshot({ numPlayers: 2, numHoles: 18, players: [{ name: "Ann" }, { name: "Bob" }] });
+    expect(errors).toEqual([]);
+    expect(snapshot?.sideGames).toEqual(DEFAULT_SIDE_GAMES);
+  });
+});
+
+describe("side game validation", () => {
+  it("accepts the defaults and Wolf picks left open", () => {
+    expect(parseSnapshot(defaultSnapshot()).errors).toEqual([]);
+    expect(parseSnapshot(withGame("wolf", { picks: [1, null, -1] })).errors).toEqual([]);
+  });
+
+  it("rejects a Wolf order that isn't a list of numbers", () => {
+    expect(parseSnapshot(withGame("wolf", { order: "oops" })).errors).toEqual(["sideGames.wolf.order: expected a list of numbers"]);
+    expect(parseSnapshot(withGame("wolf", { order: [0, "1"] })).errors).toEqual(["sideGames.wolf.order[1]: expected a number"]);
+  });
+
+  it("rejects Wolf picks that aren't numbers or empty", () => {
+    expect(parseSnapshot(withGame("wolf", { picks: {} })).errors).toEqual(["sideGames.wolf.picks: expected a list per hole"]);
+    expect(parseSnapshot(withGame("wolf", { picks: [0, "2"] })).errors).toEqual(["sideGames.wolf.picks[1]: expected a number or nothing"]);
+  });
+
+  it("checks the skins and Nassau switches", () => {
+    expect(parseSnapshot(withGame("skins", { net: "yes", carryover: undefined })).errors).toEqual([
+      "sideGames.skins.net: expected true or false",
+      "sideGames.skins.carryover: expected true or false",
+    ]);
+    expect(parseSnapshot(withGame("nassau", { presses: 1, pressDown: 0 })).errors).toEqual([
+      "sideGames.nassau.presses: expected true or false",
+      "sideGames.nassau.pressDown: 0 is outside 1-9",
+    ]);
+  });
+
+  it("returns no card when a side game is malformed", () => {
+    expect(parseSnapshot(withGame("wolf", { order: "oops" })).snapshot).toBeNull();
+  });
+});
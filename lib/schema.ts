@@ -0,0 +1,266 @@
+// Snapshot schema: migrates older cards and share links forward, then validates field by field.
+
+import { COURSE_CATALOG } from "@/lib/courses";
+import { ALLOWANCES, MAX_HANDICAP_INDEX, MIN_HANDICAP_INDEX } from "@/lib/handicap";
+import { MAX_HOLES, MAX_PLAYERS, SCHEMA_VERSION, defaultPars, defaultSI, defaultSnapshot } from "@/lib/scorecard";
+import type { Snapshot } from "@/lib/scorecard";
+import { DEFAULT_MAX_SCORE, POINTS_TABLES, SCORE_CAPS, STANDARD_POINTS } from "@/lib/scoring";
+import { LIES } from "@/lib/shots";
+import { TEAM_FORMATS } from "@/lib/teams";
+
+export type SnapshotParse = {
+  snapshot: Snapshot | null; // null when the data can't be used
+  errors: string[]; // "players[1].scores[3]: expected a number"
+};
+
+type Raw = Record<string, unknown>;
+
+function isObject(v: unknown): v is Raw {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+// Course names that were renamed when the catalog replaced the plain name list
+const LEGACY_COURSE_NAMES: Record<string, string> = {
+  "Tobiano (nearby)": "Tobiano",
+};
+
+// Each step takes version n to n + 1
+const MIGRATIONS: Record<number, (s: Raw) => Raw> = {
+  // v1: unversioned golf-card-v1 data and share links. Fields added after the
+  // first release (course catalog, handicaps, formats, games, hole stats) may be missing.
+  1: (s) => {
+    const defaults = defaultSnapshot();
+    const numHoles = isNumber(s.numHoles) ? s.numHoles : defaults.numHoles;
+    const padded = (v: unknown, fill: number[]) =>
+      Array.isArray(v) ? v.slice(0, numHoles).concat(fill.slice(v.length, numHoles)) : fill.slice(0, numHoles);
+    const courseName = typeof s.course === "string" ? LEGACY_COURSE_NAMES[s.course] ?? s.course : defaults.course;
+    const courseId = typeof s.courseId === "string" ? s.courseId : COURSE_CATALOG.find((c) => c.name === courseName)?.id ?? "";
+    return {
+      ...defaults,
+      ...s,
+      version: 2,
+      course: courseName,
+      courseId,
+      pars: padded(s.pars, defaultPars(18)),
+      si: padded(s.si, defaultSI(18)),
+      players: Array.isArray(s.players)
+        ? s.players.map((p) => (isObject(p) ? { name: "", handicap: 0, scores: [], ...p } : p))
+        : defaults.players,
+      sideGames: isObject(s.sideGames)
+        ? {
+            skins: { ...defaults.sideGames.skins, ...(s.sideGames.skins as Raw) },
+            nassau: { ...defaults.sideGames.nassau, ...(s.sideGames.nassau as Raw) },
+            wolf: { ...defaults.sideGames.wolf, ...(s.sideGames.wolf as Raw) },
+          }
+        : defaults.sideGames,
+    };
+  },
+  // v2: cards always started on hole 1 and were capped at 18 holes
+  2: (s) => ({ ...s, version: 3, startHole: 1 }),
+  // v3: Stableford always used the standard points table
+  3: (s) => ({ ...s, version: 4, pointsTable: "standard", customPoints: STANDARD_POINTS }),
+  // v4: cards could not be signed
+  4: (s) => ({ ...s, version: 5, attestation: null, unlocks: [] }),
+  // v5: no pick-ups and no cap on hole scores
+  5: (s) => ({ ...s, version: 6, scoreCap: "none", maxScore: DEFAULT_MAX_SCORE }),
+};
+
+export function migrate(raw: Raw): Raw {
+  let s = raw;
+  let version = isNumber(s.version) ? s.version : 1;
+  if (version > SCHEMA_VERSION) throw new Error(`version: card is from a newer app (v${version}); update to open it`);
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`version: no migration from v${version}`);
+    s = step(s);
+    version = s.version as number;
+  }
+  return s;
+}
+
+function validate(s: Raw): string[] {
+  const errors: string[] = [];
+  const num = (path: string, v: unknown, min = -Infinity, max = Infinity) => {
+    if (!isNumber(v)) errors.push(`${path}: expected a number`);
+    else if (v < min || v > max) errors.push(`${path}: ${v} is outside ${min}-${max}`);
+  };
+  const str = (path: string, v: unknown) => {
+    if (typeof v !== "string") errors.push(`${path}: expected text`);
+  };
+  const bool = (path: string, v: unknown) => {
+    if (typeof v !== "boolean") errors.push(`${path}: expected true or false`);
+  };
+  const numArray = (path: string, v: unknown, minLength = 0) => {
+    if (!Array.isArray(v)) {
+      errors.push(`${path}: expected a list of numbers`);
+      return;
+    }
+    if (v.length < minLength) errors.push(`${path}: expected at least ${minLength} values, found ${v.length}`);
+    v.forEach((x, i) => {
+      if (!isNumber(x)) errors.push(`${path}[${i}]: expected a number`);
+    });
+  };
+  const oneOf = (path: string, v: unknown, allowed: string[]) => {
+    if (typeof v !== "string" || !allowed.includes(v)) errors.push(`${path}: expected one of ${allowed.join(", ")}`);
+  };
+
+  num("numPlayers", s.numPlayers, 1, MAX_PLAYERS);
+  num("numHoles", s.numHoles, 1, MAX_HOLES);
+  num("startHole", s.startHole, 1, isNumber(s.numHoles) ? s.numHoles : MAX_HOLES);
+  const numHoles = isNumber(s.numHoles) ? s.numHoles : 0;
+  const numPlayers = isNumber(s.numPlayers) ? s.numPlayers : 0;
+
+  if (!Array.isArray(s.players)) {
+    errors.push("players: expected a list of players");
+  } else {
+    if (s.players.length < numPlayers) errors.push(`players: expected ${numPlayers} players, found ${s.players.length}`);
+    s.players.forEach((p, i) => {
+      const path = `players[${i}]`;
+      if (!isObject(p)) {
+        errors.push(`${path}: expected a player`);
+        return;
+      }
+      str(`${path}.name`, p.name);
+      num(`${path}.handicap`, p.handicap, MIN_HANDICAP_INDEX, MAX_HANDICAP_INDEX);
+      numArray(`${path}.scores`, p.scores);
+      if (p.id !== undefined) str(`${path}.id`, p.id);
+      if (p.pickups !== undefined) {
+        if (!Array.isArray(p.pickups)) errors.push(`${path}.pickups: expected a list`);
+        else p.pickups.forEach((x, h) => bool(`${path}.pickups[${h}]`, x));
+      }
+      if (p.shots !== undefined) {
+        if (!Array.isArray(p.shots)) errors.push(`${path}.shots: expected a list per hole`);
+        else
+          p.shots.forEach((hole, h) => {
+            if (!Array.isArray(hole)) {
+              errors.push(`${path}.shots[${h}]: expected a list of shots`);
+              return;
+            }
+            hole.forEach((shot, n) => {
+              const sp = `${path}.shots[${h}][${n}]`;
+              if (!isObject(shot)) {
+                errors.push(`${sp}: expected a shot`);
+                return;
+              }
+              oneOf(`${sp}.lie`, shot.lie, LIES.map((l) => l.id));
+              num(`${sp}.distance`, shot.distance, 0);
+              bool(`${sp}.penalty`, shot.penalty);
+            });
+          });
+      }
+      if (p.stats !== undefined) {
+        if (!Array.isArray(p.stats)) errors.push(`${path}.stats: expected a list`);
+        else
+          p.stats.forEach((st, h) => {
+            const sp = `${path}.stats[${h}]`;
+            if (!isObject(st)) {
+              errors.push(`${sp}: expected hole detail`);
+              return;
+            }
+            if (st.putts !== null) num(`${sp}.putts`, st.putts, 0);
+            oneOf(`${sp}.fairway`, st.fairway, ["", "hit", "left", "right"]);
+            num(`${sp}.penalties`, st.penalties, 0);
+            num(`${sp}.sand`, st.sand, 0);
+          });
+      }
+    });
+  }
+
+  numArray("pars", s.pars, numHoles);
+  numArray("si", s.si, numHoles);
+  numArray("yards", s.yards);
+  bool("useStableford", s.useStableford);
+  oneOf("pointsTable", s.pointsTable, POINTS_TABLES.map((t) => t.id));
+  numArray("customPoints", s.customPoints, STANDARD_POINTS.length);
+  oneOf("scoreCap", s.scoreCap, SCORE_CAPS.map((c) => c.id));
+  num("maxScore", s.maxScore, 1, 20);
+  bool("matchPlay", s.matchPlay);
+  oneOf("teamFormat", s.teamFormat, TEAM_FORMATS.map((f) => f.id));
+  numArray("teams", s.teams);
+  if (!Array.isArray(s.teamScores)) errors.push("teamScores: expected a list per team");
+  else s.teamScores.forEach((t, i) => numArray(`teamScores[${i}]`, t));
+  if (!isObject(s.sideGames)) errors.push("sideGames: expected side game settings");
+  else
+    (["skins", "nassau", "wolf"] as const).forEach((g) => {
+      const game = (s.sideGames as Raw)[g];
+      const path = `sideGames.${g}`;
+      if (!isObject(game)) {
+        errors.push(`${path}: expected settings`);
+        return;
+      }
+      bool(`${path}.enabled`, game.enabled);
+      bool(`${path}.net`, game.net);
+      num(`${path}.stake`, game.stake, 0);
+      if (g === "skins") bool(`${path}.carryover`, game.carryover);
+      if (g === "nassau") {
+        bool(`${path}.presses`, game.presses);
+        num(`${path}.pressDown`, game.pressDown, 1, 9);
+      }
+      if (g === "wolf") {
+        numArray(`${path}.order`, game.order);
+        if (!Array.isArray(game.picks)) errors.push(`${path}.picks: expected a list per hole`);
+        else
+          game.picks.forEach((pick, h) => {
+            if (pick !== null && !isNumber(pick)) errors.push(`${path}.picks[${h}]: expected a number or nothing`);
+          });
+      }
+    });
+  str("course", s.course);
+  str("courseId", s.courseId);
+  str("teeId", s.teeId);
+  num("rating", s.rating, 0);
+  num("slope", s.slope, 55, 155);
+  oneOf("allowance", s.allowance, ALLOWANCES.map((a) => a.id));
+  if (s.attestation !== null) {
+    if (!isObject(s.attestation)) errors.push("attestation: expected signatures or null");
+    else {
+      const a = s.attestation;
+      str("attestation.at", a.at);
+      (["player", "marker"] as const).forEach((who) => {
+        const sig = a[who];
+        if (!isObject(sig)) {
+          errors.push(`attestation.${who}: expected a signature`);
+          return;
+        }
+        str(`attestation.${who}.name`, sig.name);
+        if (!Array.isArray(sig.strokes)) errors.push(`attestation.${who}.strokes: expected pen strokes`);
+        else sig.strokes.forEach((st, i) => numArray(`attestation.${who}.strokes[${i}]`, st));
+      });
+    }
+  }
+  if (!Array.isArray(s.unlocks)) errors.push("unlocks: expected a list");
+  else
+    s.unlocks.forEach((u, i) => {
+      if (!isObject(u)) errors.push(`unlocks[${i}]: expected an unlock record`);
+      else {
+        str(`unlocks[${i}].at`, u.at);
+        str(`unlocks[${i}].reason`, u.reason);
+        str(`unlocks[${i}].attestedAt`, u.attestedAt);
+      }
+    });
+  return errors;
+}
+
+export function parseSnapshot(data: unknown): SnapshotParse {
+  if (!isObject(data)) return { snapshot: null, errors: ["Expected a scorecard object"] };
+  let migrated: Raw;
+  try {
+    migrated = migrate(data);
+  } catch (err) {
+    return { snapshot: null, errors: [(err as Error).message] };
+  }
+  const errors = validate(migrated);
+  return errors.length ? { snapshot: null, errors } : { snapshot: migrated as Snapshot, errors };
+}
+
+export function parseSnapshotJSON(text: string): SnapshotParse {
+  try {
+    return parseSnapshot(JSON.parse(text));
+  } catch {
+    return { snapshot: null, errors: ["Not valid JSON"] };
+  }
+}
@@ -0,0 +1,145 @@
+// Scorecard data model and defaults shared by the page, round archive and CSV import.
+
+import type { Attestation, Unlock } from "@/lib/attest";
+import { ALLOWANCES, STANDARD_SLOPE } from "@/lib/handicap";
+import type { HoleStat } from "@/lib/holestats";
+import { DEFAULT_MAX_SCORE, POINTS_TABLES, SCORE_CAPS, STANDARD_POINTS } from "@/lib/scoring";
+import { DEFAULT_SIDE_GAMES } from "@/lib/sidegames";
+import type { SideGames } from "@/lib/sidegames";
+import type { Shot } from "@/lib/shots";
+import type { TeamFormat } from "@/lib/teams";
+
+export type Player = {
+  id?: string; // roster golfer id, unset for ad-hoc players
+  name: string;
+  handicap: number; // Handicap Index, -10 (plus 10) to 54 with one decimal
+  scores: number[]; // length = numHoles
+  stats?: HoleStat[]; // optional per-hole detail, same indexing as scores
+  pickups?: boolean[]; // holes the player picked up on (no return); the score stays 0
+  shots?: Shot[][]; // optional shot-by-shot log per hole, checked against scores
+};
+
+export type Snapshot = {
+  version: number; // SCHEMA_VERSION when written; older data is migrated by lib/schema
+  numPlayers: number;
+  numHoles: number;
+  startHole: number; // 1-based hole the group tees off; shotgun starts wrap past the last hole
+  players: Player[];
+  pars: number[];
+  si: number[];
+  useStableford: boolean;
+  pointsTable: string; // Stableford points table id, see POINTS_TABLES
+  customPoints: number[]; // used when pointsTable is "custom"
+  scoreCap: string; // per-hole cap for adjusted gross, see SCORE_CAPS
+  maxScore: number; // the cap when scoreCap is "max"
+  matchPlay: boolean; // singles match between the first two players
+  teamFormat: TeamFormat;
+  teams: number[]; // team index per player row
+  teamScores: number[][]; // shared-ball formats: team gross per hole, indexed by team
+  sideGames: SideGames;
+  course: string;
+  courseId: string; // "" when pars/SI are entered by hand
+  teeId: string;
+  yards: number[]; // empty when the course has no yardage
+  rating: number; // course rating, 0 = same as par
+  slope: number;
+  allowance: string; // handicap allowance id, see ALLOWANCES
+  attestation: Attestation | null; // signed by player and marker; the card is locked while set
+  unlocks: Unlock[]; // every time a signed card was reopened for editing
+};
+
+// Bump when Snapshot changes shape and add a step to MIGRATIONS in lib/schema.ts
+export const SCHEMA_VERSION = 6;
+
+export const MAX_PLAYERS = 4; // one group; bigger fields are split into groups, see lib/events
+export const MAX_HOLES = 36; // 27 and 36 hole days replay the course's holes
+export const MANUAL_COURSE = "Custom"; // course label when no catalog course is picked
+export const DEFAULT_TEAMS = [0, 0, 1, 1]; // players 1+2 vs 3+4
+
+// Repeat a course's holes to fill a longer round (hole 19 plays as hole 1)
+export function cycleHoles<T>(holes: T[], n: number): T[] {
+  return Array.from({ length: n }, (_, i) => holes[i % holes.length]);
+}
+
+export function defaultPars(n = MAX_HOLES) {
+  const arr = Array(18).fill(4);
+  // Typical pattern for 18 holes: mix of par 3/4/5. Keep simple defaults.
+  [2, 7, 11, 16].forEach((idx) => (arr[idx] = 3));
+  [4, 9, 13].forEach((idx) => (arr[idx] = 5));
+  return cycleHoles(arr, n);
+}
+
+export function defaultSI(n = MAX_HOLES) {
+  // Stroke Index (1 hardest ... 18 easiest), restarting every 18 holes
+  return Array.from({ length: n }, (_, i) => (i % 18) + 1);
+}
+
+// Hole indexes in the order the group plays them, e.g. start 7 of 18: 6..17, 0..5
+export function playOrder(numHoles: number, startHole: number): number[] {
+  const start = Math.min(Math.max(1, startHole), numHoles) - 1;
+  return Array.from({ length: numHoles }, (_, i) => (start + i) % numHoles);
+}
+
+// The player's pick-up flags with one hole set; undefined once none are left
+export function markPickup(p: Player, hole: number, on: boolean): boolean[] | undefined {
+  const pickups = (p.pickups ?? []).slice();
+  while (pickups.length <= hole) pickups.push(false);
+  pickups[hole] = on;
+  return pickups.some(Boolean) ? pickups : undefined;
+}
+
+export function blankTeamScores(holes: number): number[][] {
+  return Array.from({ length: MAX_PLAYERS }, () => Array(holes).fill(0));
+}
+
+export function createPlayers(count: number, holes: number): Player[] {
+  return Array.from({ length: count }, (_, i) => ({
+    name: `Player ${i + 1}`,
+    handicap: 0,
+    scores: Array(holes).fill(0),
+  }));
+}
+
+// Same course, players and settings with nothing played: no scores, hole detail, signatures or Wolf picks
+export function clearRound(s: Snapshot): Snapshot {
+  return {
+    ...s,
+    players: s.players.map((p) => ({ ...p, scores: Array(s.numHoles).fill(0), stats: undefined, pickups: undefined, shots: undefined })),
+    teamScores: blankTeamScores(s.numHoles),
+    sideGames: { ...s.sideGames, wolf: { ...s.sideGames.wolf, picks: [] } },
+    attestation: null,
+    unlocks: [],
+  };
+}
+
+// A fresh two-player, 18-hole card
+export function defaultSnapshot(): Snapshot {
+  return {
+    version: SCHEMA_VERSION,
+    numPlayers: 2,
+    numHoles: 18,
+    startHole: 1,
+    players: createPlayers(2, 18),
+    pars: defaultPars(18),
+    si: defaultSI(18),
+    useStableford: false,
+    pointsTable: POINTS_TABLES[0].id,
+    customPoints: STANDARD_POINTS,
+    scoreCap: SCORE_CAPS[0].id,
+    maxScore: DEFAULT_MAX_SCORE,
+    matchPlay: false,
+    teamFormat: "none",
+    teams: DEFAULT_TEAMS,
+    teamScores: blankTeamScores(18),
+    sideGames: DEFAULT_SIDE_GAMES,
+    course: MANUAL_COURSE,
+    courseId: "",
+    teeId: "",
+    yards: [],
+    rating: 0,
+    slope: STANDARD_SLOPE,
+    allowance: ALLOWANCES[0].id,
+    attestation: null,
+    unlocks: [],
+  };
+}
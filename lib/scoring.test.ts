@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  POINTS_TABLES,
+  STANDARD_POINTS,
+  adjustedScore,
+  allocateStrokes,
+  findPointsTable,
+  holeCap,
+  resolvePointsTable,
+  stablefordPoints,
+  strokeIndexRanks,
+} from "@/lib/scoring";
+
+const SI_18 = [7, 15, 3, 11, 1, 17, 9, 13, 5, 8, 16, 4, 12, 2, 18, 10, 14, 6];
+
+function sum(arr: number[]) {
+  return arr.reduce((a, b) => a + b, 0);
+}
+
+describe("strokeIndexRanks", () => {
+  it("ranks a 9-hole card's 18-hole indexes 1 to 9", () => {
+    expect(strokeIndexRanks([7, 15, 3, 11, 1, 17, 9, 13, 5], 9)).toEqual([4, 8, 2, 6, 1, 9, 5, 7, 3]);
+  });
+
+  it("gives repeated indexes to the earlier hole first", () => {
+    expect(strokeIndexRanks([1, 2, 1, 2], 4)).toEqual([1, 3, 2, 4]);
+  });
+});
+
+describe("allocateStrokes", () => {
+  it("gives one stroke on the hardest holes", () => {
+    const strokes = allocateStrokes(3, SI_18, 18);
+    expect(sum(strokes)).toBe(3);
+    SI_18.forEach((si, h) => expect(strokes[h]).toBe(si <= 3 ? 1 : 0));
+  });
+
+  it("gives a second stroke on the hardest holes past 18", () => {
+    const strokes = allocateStrokes(22, SI_18, 18);
+    expect(sum(strokes)).toBe(22);
+    SI_18.forEach((si, h) => expect(strokes[h]).toBe(si <= 4 ? 2 : 1));
+  });
+
+  it("gives three strokes a hole past 36", () => {
+    const strokes = allocateStrokes(40, SI_18, 18);
+    expect(sum(strokes)).toBe(40);
+    SI_18.forEach((si, h) => expect(strokes[h]).toBe(si <= 4 ? 3 : 2));
+  });
+
+  it("gives plus handicap strokes back on the easiest holes", () => {
+    const strokes = allocateStrokes(-2, SI_18, 18);
+    expect(sum(strokes)).toBe(-2);
+    SI_18.forEach((si, h) => expect(strokes[h]).toBe(si >= 17 ? -1 : 0));
+  });
+
+  it("spreads a handicap over the holes being played", () => {
+    const strokes = allocateStrokes(12, SI_18, 9);
+    expect(strokes).toHaveLength(9);
+    expect(sum(strokes)).toBe(12);
+    expect(strokes[4]).toBe(2); // SI 1
+    expect(strokes[5]).toBe(1); // SI 17, the easiest of the nine
+  });
+
+  it("rounds the playing handicap and handles scratch and empty cards", () => {
+    expect(sum(allocateStrokes(2.6, SI_18, 18))).toBe(3);
+    expect(allocateStrokes(0, SI_18, 18).every((s) => s === 0)).toBe(true);
+    expect(allocateStrokes(10, SI_18, 0)).toEqual([]);
+  });
+});
+
+describe("stablefordPoints", () => {
+  it("scores the standard table from net albatross to double bogey", () => {
+    expect([1, 2, 3, 4, 5, 6, 7, 9].map((g) => stablefordPoints(g, 5, 0))).toEqual([5, 5, 4, 3, 2, 1, 0, 0]);
+  });
+
+  it("counts handicap strokes", () => {
+    expect(stablefordPoints(5, 4, 1)).toBe(2);
+    expect(stablefordPoints(4, 4, 2)).toBe(4);
+    expect(stablefordPoints(3, 4, -1)).toBe(2);
+  });
+
+  it("gives nothing for a hole not played yet", () => {
+    expect(stablefordPoints(0, 4, 1)).toBe(0);
+  });
+
+  it("uses the modified table", () => {
+    const modified = findPointsTable("modified").points;
+    expect([2, 3, 4, 5, 6, 8].map((g) => stablefordPoints(g, 5, 0, modified))).toEqual([8, 5, 2, 0, -1, -3]);
+  });
+});
+
+describe("points tables", () => {
+  it("falls back to the standard table for an unknown id", () => {
+    expect(findPointsTable("nope")).toBe(POINTS_TABLES[0]);
+    expect(resolvePointsTable("nope", [])).toEqual(STANDARD_POINTS);
+  });
+
+  it("takes a custom table's own values and fills gaps from the standard one", () => {
+    expect(resolvePointsTable("custom", [10, 6, 4, 2, 0, -2])).toEqual([10, 6, 4, 2, 0, -2]);
+    expect(resolvePointsTable("custom", [10, NaN, 4])).toEqual([10, 4, 4, 2, 1, 0]);
+  });
+
+  it("ignores custom values on a built-in table", () => {
+    expect(resolvePointsTable("standard", [9, 9, 9, 9, 9, 9])).toEqual(STANDARD_POINTS);
+  });
+});
+
+describe("holeCap", () => {
+  it("caps at net double bogey", () => {
+    expect(holeCap("ndb", 10, 4, 0)).toBe(6);
+    expect(holeCap("ndb", 10, 4, 2)).toBe(8);
+    expect(holeCap("ndb", 10, 3, -1)).toBe(4);
+  });
+
+  it("caps at the card's maximum score", () => {
+    expect(holeCap("max", 8, 5, 2)).toBe(8);
+  });
+
+  it("has no cap otherwise", () => {
+    expect(holeCap("none", 10, 4, 1)).toBeNull();
+  });
+});
+
+describe("adjustedScore", () => {
+  it("keeps scores under the cap and lowers those over it", () => {
+    expect(adjustedScore(5, false, 7)).toBe(5);
+    expect(adjustedScore(9, false, 7)).toBe(7);
+  });
+
+  it("counts a pick-up as the cap", () => {
+    expect(adjustedScore(0, true, 7)).toBe(7);
+  });
+
+  it("leaves scores alone without a cap, where a pick-up is no return", () => {
+    expect(adjustedScore(11, false, null)).toBe(11);
+    expect(adjustedScore(0, true, null)).toBeNull();
+  });
+});
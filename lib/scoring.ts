@@ -0,0 +1,94 @@
+// Per-hole scoring rules shared by individual, match, team and tournament formats.
+
+// Points for a net score of: albatross or better, eagle, birdie, par, bogey, double bogey or worse
+export type PointsTable = number[];
+
+export type PointsTableOption = {
+  id: string;
+  label: string;
+  points: PointsTable;
+};
+
+export const STANDARD_POINTS: PointsTable = [5, 4, 3, 2, 1, 0];
+export const CUSTOM_POINTS_ID = "custom";
+export const POINTS_LABELS = ["Albatross", "Eagle", "Birdie", "Par", "Bogey", "Double+"];
+
+export const POINTS_TABLES: PointsTableOption[] = [
+  { id: "standard", label: "Standard Stableford", points: STANDARD_POINTS },
+  { id: "modified", label: "Modified Stableford (+8/+5/+2/0/−1/−3)", points: [8, 5, 2, 0, -1, -3] },
+  { id: CUSTOM_POINTS_ID, label: "Custom points", points: STANDARD_POINTS },
+];
+
+export function findPointsTable(id: string): PointsTableOption {
+  return POINTS_TABLES.find((t) => t.id === id) ?? POINTS_TABLES[0];
+}
+
+// The table a card scores with; custom cards carry their own values
+export function resolvePointsTable(id: string, custom: number[]): PointsTable {
+  if (id !== CUSTOM_POINTS_ID) return findPointsTable(id).points;
+  return STANDARD_POINTS.map((p, i) => (Number.isFinite(custom[i]) ? custom[i] : p));
+}
+
+// Rank of each hole by stroke index among the holes being played, 1 = hardest.
+// A 9-hole card with 18-hole indexes (1, 3, 5, ...) ranks 1-9; repeated indexes on
+// 27/36-hole days go to the earlier hole first.
+export function strokeIndexRanks(si: number[], numHoles: number): number[] {
+  const order = Array.from({ length: numHoles }, (_, h) => h).sort((a, b) => (si[a] || 0) - (si[b] || 0) || a - b);
+  const ranks = Array(numHoles).fill(0);
+  order.forEach((h, i) => (ranks[h] = i + 1));
+  return ranks;
+}
+
+// Handicap strokes per hole for a playing handicap over the holes being played.
+// Strokes go to the hardest holes first; a plus handicap gives strokes back on the easiest.
+export function allocateStrokes(handicap: number, si: number[], numHoles: number): number[] {
+  if (numHoles <= 0) return [];
+  const ranks = strokeIndexRanks(si, numHoles);
+  const total = Math.abs(Math.round(handicap));
+  const base = Math.floor(total / numHoles);
+  const remainder = total % numHoles;
+  return ranks.map((rank) => {
+    if (handicap >= 0) return base + (rank <= remainder ? 1 : 0);
+    const back = base + (rank > numHoles - remainder ? 1 : 0);
+    return back ? -back : 0; // not -0 on the holes that give nothing back
+  });
+}
+
+export function stablefordPoints(gross: number, par: number, strokes: number, table: PointsTable = STANDARD_POINTS) {
+  if (!gross || gross <= 0) return 0; // treat 0 as not played yet
+  const net = gross - strokes;
+  const diff = net - par; // negative is better than par
+  // -3 or better -> albatross ... +2 or worse -> double bogey
+  return table[Math.min(Math.max(diff, -3), 2) + 3];
+}
+
+// Highest score that counts on a hole for adjusted gross
+export type ScoreCapOption = {
+  id: string;
+  label: string;
+};
+
+export const DEFAULT_MAX_SCORE = 10;
+
+export const SCORE_CAPS: ScoreCapOption[] = [
+  { id: "none", label: "No cap" },
+  { id: "ndb", label: "Net double bogey" },
+  { id: "max", label: "Maximum score" },
+];
+
+export function findScoreCap(id: string): ScoreCapOption {
+  return SCORE_CAPS.find((c) => c.id === id) ?? SCORE_CAPS[0];
+}
+
+// null when the card has no cap
+export function holeCap(cap: string, maxScore: number, par: number, strokes: number): number | null {
+  if (cap === "ndb") return par + 2 + strokes;
+  if (cap === "max") return maxScore;
+  return null;
+}
+
+// A pick-up counts as the cap; without a cap it is a no return (null)
+export function adjustedScore(gross: number, pickedUp: boolean, cap: number | null): number | null {
+  if (pickedUp) return cap;
+  return cap == null ? gross : Math.min(gross, cap);
+}
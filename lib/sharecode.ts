@@ -0,0 +1,102 @@
+// Share codes: the card minus default values, deflated and base64url encoded for short links and QR codes.
+
+import { hasDetail } from "@/lib/holestats";
+import type { Translate } from "@/lib/i18n";
+import { parseSnapshot, parseSnapshotJSON } from "@/lib/schema";
+import type { SnapshotParse } from "@/lib/schema";
+import { defaultSnapshot } from "@/lib/scorecard";
+import type { Player, Snapshot } from "@/lib/scorecard";
+
+// First character of a code says how the rest is packed. Codes from before
+// compaction are plain base64 JSON and always start with "ey" ('{"').
+const DEFLATED = "z";
+const PLAIN = "j"; // browsers without CompressionStream
+
+export const SHARE_PARAM = "s";
+export const VIEW_PARAM = "view"; // "1" opens the card read-only
+
+type Raw = Record<string, unknown>;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const out = await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer();
+  return new Uint8Array(out);
+}
+
+// Drop everything the receiver can rebuild: default settings, trailing blank
+// scores, empty hole detail and roster ids that only mean something on this device
+function compact(snap: Snapshot): Raw {
+  const defaults = defaultSnapshot() as Raw;
+  const out: Raw = { version: snap.version };
+  Object.entries(snap).forEach(([key, value]) => {
+    if (key === "version" || key === "players") return;
+    if (JSON.stringify(value) !== JSON.stringify(defaults[key])) out[key] = value;
+  });
+  out.players = snap.players.slice(0, snap.numPlayers).map((p) => {
+    const scores = p.scores.slice();
+    while (scores.length && !scores[scores.length - 1]) scores.pop();
+    const c: Partial<Player> = { name: p.name, scores };
+    if (p.handicap) c.handicap = p.handicap;
+    if (p.stats?.some(hasDetail)) c.stats = p.stats;
+    if (p.pickups?.some(Boolean)) c.pickups = p.pickups;
+    if (p.shots?.some((h) => h?.length)) c.shots = p.shots;
+    return c;
+  });
+  return out;
+}
+
+function expand(raw: unknown): unknown {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return raw;
+  const s = raw as Raw;
+  const base = defaultSnapshot();
+  const numHoles = typeof s.numHoles === "number" ? s.numHoles : base.numHoles;
+  const players = Array.isArray(s.players)
+    ? s.players.map((p) => {
+        if (typeof p !== "object" || p === null || !Array.isArray(p.scores)) return p;
+        return { handicap: 0, ...p, scores: p.scores.concat(Array(Math.max(0, numHoles - p.scores.length)).fill(0)) };
+      })
+    : s.players;
+  return { ...base, ...s, players };
+}
+
+export async function encodeShareCode(snap: Snapshot): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(compact(snap)));
+  if (typeof CompressionStream === "undefined") return PLAIN + toBase64Url(json);
+  return DEFLATED + toBase64Url(await pipe(json, new CompressionStream("deflate-raw")));
+}
+
+export async function decodeShareCode(code: string, t: Translate): Promise<SnapshotParse> {
+  try {
+    if (code.startsWith(DEFLATED)) {
+      if (typeof DecompressionStream === "undefined") {
+        return { snapshot: null, errors: [t("share.noDecompress")] };
+      }
+      const bytes = await pipe(fromBase64Url(code.slice(1)), new DecompressionStream("deflate-raw"));
+      return parseSnapshot(expand(JSON.parse(new TextDecoder().decode(bytes))));
+    }
+    if (code.startsWith(PLAIN)) {
+      return parseSnapshot(expand(JSON.parse(new TextDecoder().decode(fromBase64Url(code.slice(1))))));
+    }
+    // Older links: the full snapshot as base64 JSON
+    return parseSnapshotJSON(decodeURIComponent(escape(atob(code))));
+  } catch {
+    return { snapshot: null, errors: [t("share.damaged")] };
+  }
+}
+
+export function shareUrl(code: string, viewOnly: boolean): string {
+  const url = new URL(window.location.origin + window.location.pathname);
+  url.searchParams.set(SHARE_PARAM, code);
+  if (viewOnly) url.searchParams.set(VIEW_PARAM, "1");
+  return url.toString();
+}
@@ -0,0 +1,147 @@
+// Shot-by-shot logs and strokes gained against a built-in tour baseline.
+// A shot gains the drop in expected strokes to hole out, minus the stroke itself and any penalty.
+
+import type { Player } from "@/lib/scorecard";
+
+export type Lie = "tee" | "fairway" | "rough" | "sand" | "green";
+
+export type Shot = {
+  lie: Lie; // where the ball lay before the shot
+  distance: number; // to the hole before the shot: feet on the green, yards elsewhere
+  penalty: boolean; // the shot cost a penalty stroke (out of bounds, water, unplayable)
+};
+
+export type SgCategory = "ott" | "app" | "arg" | "putt";
+
+export type StrokesGained = Record<SgCategory, number> & {
+  total: number;
+  holes: number; // holes with a complete shot log
+};
+
+export const LIES: { id: Lie; label: string }[] = [
+  { id: "tee", label: "Tee" },
+  { id: "fairway", label: "Fairway" },
+  { id: "rough", label: "Rough" },
+  { id: "sand", label: "Sand" },
+  { id: "green", label: "Green" },
+];
+
+export const SG_CATEGORIES: { id: SgCategory; label: string }[] = [
+  { id: "ott", label: "Off the tee" },
+  { id: "app", label: "Approach" },
+  { id: "arg", label: "Around the green" },
+  { id: "putt", label: "Putting" },
+];
+
+// Shots off the green from this close are around-the-green shots
+const AROUND_GREEN_YARDS = 30;
+
+// Average strokes to hole out for tour players, by lie and distance (feet on the green, yards
+// elsewhere), rounded from the published strokes-gained tables. Distances between rows interpolate.
+const BASELINE: Record<Lie, [distance: number, strokes: number][]> = {
+  tee: [
+    [100, 2.92], [120, 2.99], [140, 2.97], [160, 2.99], [180, 3.05], [200, 3.12], [220, 3.17], [240, 3.25],
+    [260, 3.45], [280, 3.65], [300, 3.71], [320, 3.79], [340, 3.86], [360, 3.92], [380, 3.96], [400, 3.99],
+    [420, 4.02], [440, 4.08], [460, 4.17], [480, 4.28], [500, 4.41], [520, 4.54], [540, 4.65], [560, 4.74],
+    [580, 4.79], [600, 4.82],
+  ],
+  fairway: [
+    [5, 2.1], [10, 2.18], [20, 2.4], [40, 2.6], [60, 2.7], [80, 2.75], [100, 2.8], [120, 2.85], [140, 2.91],
+    [160, 2.98], [180, 3.08], [200, 3.19], [220, 3.32], [240, 3.45], [260, 3.58], [280, 3.69], [300, 3.78],
+  ],
+  rough: [
+    [5, 2.15], [10, 2.34], [20, 2.59], [40, 2.78], [60, 2.91], [80, 2.96], [100, 3.02], [120, 3.08], [140, 3.15],
+    [160, 3.23], [180, 3.31], [200, 3.42], [220, 3.53], [240, 3.64], [260, 3.74], [280, 3.83], [300, 3.9],
+  ],
+  sand: [
+    [5, 2.43], [10, 2.43], [20, 2.53], [40, 2.82], [60, 3.15], [80, 3.24], [100, 3.23], [120, 3.21], [140, 3.22],
+    [160, 3.28], [180, 3.4], [200, 3.55], [220, 3.7], [240, 3.84], [260, 3.93], [280, 4.0], [300, 4.04],
+  ],
+  green: [
+    [1, 1.0], [2, 1.01], [3, 1.04], [4, 1.13], [5, 1.23], [6, 1.34], [7, 1.42], [8, 1.5], [9, 1.56], [10, 1.61],
+    [15, 1.78], [20, 1.87], [30, 1.98], [40, 2.06], [50, 2.14], [60, 2.21], [90, 2.4],
+  ],
+};
+
+export function findLie(id: string): Lie {
+  return LIES.find((l) => l.id === id)?.id ?? "fairway";
+}
+
+// Beyond either end of a table the nearest row is used
+export function expectedStrokes(lie: Lie, distance: number): number {
+  const rows = BASELINE[lie];
+  if (distance <= rows[0][0]) return rows[0][1];
+  for (let i = 1; i < rows.length; i++) {
+    const [d1, s1] = rows[i];
+    if (distance <= d1) {
+      const [d0, s0] = rows[i - 1];
+      return s0 + ((s1 - s0) * (distance - d0)) / (d1 - d0);
+    }
+  }
+  return rows[rows.length - 1][1];
+}
+
+export function shotCategory(shot: Shot, par: number): SgCategory {
+  if (shot.lie === "green") return "putt";
+  if (shot.lie === "tee" && par >= 4) return "ott";
+  return shot.distance <= AROUND_GREEN_YARDS ? "arg" : "app";
+}
+
+// Strokes the log adds up to: every shot plus its penalty
+export function shotStrokes(shots: Shot[]): number {
+  return shots.reduce((n, s) => n + 1 + (s.penalty ? 1 : 0), 0);
+}
+
+// null when the log matches the card; a log on a pick-up can't be checked against a score
+export function shotLogProblem(shots: Shot[] | undefined, gross: number, pickedUp: boolean): string | null {
+  if (!shots?.length || pickedUp) return null;
+  const strokes = shotStrokes(shots);
+  if (!gross) return `${strokes} strokes logged but no score entered`;
+  if (strokes !== gross) return `${strokes} strokes logged but the score is ${gross}`;
+  return null;
+}
+
+// The ball is holed after the last shot
+export function holeStrokesGained(shots: Shot[], par: number): Record<SgCategory, number> {
+  const sg: Record<SgCategory, number> = { ott: 0, app: 0, arg: 0, putt: 0 };
+  shots.forEach((shot, i) => {
+    const next = shots[i + 1];
+    const after = next ? expectedStrokes(next.lie, next.distance) : 0;
+    sg[shotCategory(shot, par)] += expectedStrokes(shot.lie, shot.distance) - after - 1 - (shot.penalty ? 1 : 0);
+  });
+  return sg;
+}
+
+// Only holes whose log matches the score count, never pick-ups; null when there are none
+export function roundStrokesGained(player: Player, pars: number[], numHoles: number): StrokesGained | null {
+  const sg: StrokesGained = { ott: 0, app: 0, arg: 0, putt: 0, total: 0, holes: 0 };
+  for (let h = 0; h < numHoles; h++) {
+    const shots = player.shots?.[h];
+    if (!shots?.length || player.pickups?.[h] || shotLogProblem(shots, player.scores[h] || 0, false)) continue;
+    const hole = holeStrokesGained(shots, pars[h]);
+    SG_CATEGORIES.forEach(({ id }) => (sg[id] += hole[id]));
+    sg.holes++;
+  }
+  if (!sg.holes) return null;
+  sg.total = sg.ott + sg.app + sg.arg + sg.putt;
+  return sg;
+}
+
+// Per-round average over several rounds
+export function averageStrokesGained(rounds: StrokesGained[]): StrokesGained | null {
+  if (!rounds.length) return null;
+  const avg = (f: (r: StrokesGained) => number) => rounds.reduce((a, r) => a + f(r), 0) / rounds.length;
+  return {
+    ott: avg((r) => r.ott),
+    app: avg((r) => r.app),
+    arg: avg((r) => r.arg),
+    putt: avg((r) => r.putt),
+    total: avg((r) => r.total),
+    holes: avg((r) => r.holes),
+  };
+}
+
+export function formatStrokesGained(n: number): string {
+  const r = Math.round(n * 100) / 100;
+  return r > 0 ? `+${r.toFixed(2)}` : r.toFixed(2);
+}
@@ -0,0 +1,260 @@
+// Money side games played off the card: skins, Nassau and Wolf, each settled in dollars.
+
+import { playOrder } from "@/lib/scorecard";
+
+export type SkinsConfig = {
+  enabled: boolean;
+  net: boolean;
+  stake: number; // per skin, paid by each other player
+  carryover: boolean; // tied holes carry to the next hole instead of dying
+};
+
+export type NassauConfig = {
+  enabled: boolean;
+  net: boolean;
+  stake: number; // per bet: front, back, overall and each press
+  presses: boolean;
+  pressDown: number; // automatic press when a side goes this many down within a nine
+};
+
+export type WolfConfig = {
+  enabled: boolean;
+  net: boolean;
+  stake: number; // per point
+  order: number[]; // tee order by player row; the wolf rotates through it
+  picks: (number | null)[]; // per hole: partner row, LONE_WOLF, or null when not chosen yet
+};
+
+export type SideGames = {
+  skins: SkinsConfig;
+  nassau: NassauConfig;
+  wolf: WolfConfig;
+};
+
+export const LONE_WOLF = -1;
+
+export const DEFAULT_SIDE_GAMES: SideGames = {
+  skins: { enabled: false, net: false, stake: 1, carryover: true },
+  nassau: { enabled: false, net: true, stake: 5, presses: true, pressDown: 2 },
+  wolf: { enabled: false, net: false, stake: 1, order: [0, 1, 2, 3], picks: [] },
+};
+
+export type GamePlayer = {
+  name: string;
+  scores: number[];
+  strokes: number[]; // handicap strokes received per hole
+  pickups?: boolean[]; // holes picked up without holing out
+};
+
+// 0 = not finished; a pick-up loses the hole to any score
+function holeScore(p: GamePlayer, h: number, net: boolean): number {
+  if (p.pickups?.[h]) return Infinity;
+  const g = p.scores[h] || 0;
+  if (!g) return 0;
+  return net ? g - (p.strokes[h] || 0) : g;
+}
+
+// ---------- Skins ----------
+
+export type SkinHole = {
+  winner: number | null;
+  skins: number; // skins on the line for this hole, including carryovers
+};
+
+export type SkinsResult = {
+  holes: (SkinHole | null)[]; // null = not complete yet
+  won: number[]; // skins won per player
+  carried: number; // skins still on the table
+  money: number[];
+};
+
+// Holes are settled in the order played (wrapping for a shotgun start) and stop at the
+// first hole someone hasn't finished
+export function computeSkins(
+  cfg: SkinsConfig,
+  players: GamePlayer[],
+  numHoles: number,
+  order: number[] = playOrder(numHoles, 1)
+): SkinsResult {
+  const holes: (SkinHole | null)[] = Array(numHoles).fill(null);
+  const won = players.map(() => 0);
+  let pot = 0;
+  for (const h of order) {
+    const scores = players.map((p) => holeScore(p, h, cfg.net));
+    if (players.length < 2 || scores.some((s) => !s)) break;
+    pot += 1;
+    const low = Math.min(...scores);
+    const winners = scores.flatMap((s, i) => (s === low ? [i] : []));
+    if (winners.length === 1) {
+      won[winners[0]] += pot;
+      holes[h] = { winner: winners[0], skins: pot };
+      pot = 0;
+    } else {
+      holes[h] = { winner: null, skins: pot };
+      if (!cfg.carryover) pot = 0;
+    }
+  }
+  const total = won.reduce((a, b) => a + b, 0);
+  // Each skin is paid by every other player
+  const money = won.map((w) => cfg.stake * (w * (players.length - 1) - (total - w)));
+  return { holes, won, carried: pot, money };
+}
+
+// ---------- Nassau ----------
+
+export type NassauBet = {
+  kind: "front" | "back" | "overall" | "match" | "press"; // a press starts on its first hole
+  holes: number[]; // hole indexes in the order played
+  up: number; // positive = first player of the pair ahead
+  thru: number; // holes played in this bet
+};
+
+export type NassauPair = {
+  a: number;
+  b: number;
+  bets: NassauBet[];
+};
+
+export type NassauResult = {
+  pairs: NassauPair[];
+  money: number[];
+};
+
+// A press covers the rest of the bet's holes from the next one played
+function playNassauBets(
+  cfg: NassauConfig,
+  a: GamePlayer,
+  b: GamePlayer,
+  kind: NassauBet["kind"],
+  holes: number[],
+  allowPress: boolean
+): NassauBet[] {
+  const bets: NassauBet[] = [{ kind, holes, up: 0, thru: 0 }];
+  for (const [i, h] of holes.entries()) {
+    const sa = holeScore(a, h, cfg.net);
+    const sb = holeScore(b, h, cfg.net);
+    if (!sa || !sb) break;
+    const delta = sa < sb ? 1 : sb < sa ? -1 : 0;
+    bets.forEach((bet) => {
+      if (bet.holes.includes(h)) {
+        bet.up += delta;
+        bet.thru++;
+      }
+    });
+    const latest = bets[bets.length - 1];
+    const rest = holes.slice(i + 1);
+    if (allowPress && cfg.presses && rest.length && Math.abs(latest.up) >= Math.max(1, cfg.pressDown)) {
+      bets.push({ kind: "press", holes: rest, up: 0, thru: 0 });
+    }
+  }
+  return bets;
+}
+
+// Front and back are holes 1-9 and 10-18 whatever the starting hole, each played in order from the start
+export function computeNassau(
+  cfg: NassauConfig,
+  players: GamePlayer[],
+  numHoles: number,
+  order: number[] = playOrder(numHoles, 1)
+): NassauResult {
+  const pairs: NassauPair[] = [];
+  const money = players.map(() => 0);
+  const front = order.filter((h) => h < 9);
+  const back = order.filter((h) => h >= 9);
+  for (let a = 0; a < players.length; a++) {
+    for (let b = a + 1; b < players.length; b++) {
+      const pa = players[a];
+      const pb = players[b];
+      const bets =
+        numHoles > 9
+          ? [
+              ...playNassauBets(cfg, pa, pb, "front", front, true),
+              ...playNassauBets(cfg, pa, pb, "back", back, true),
+              ...playNassauBets(cfg, pa, pb, "overall", order, false),
+            ]
+          : playNassauBets(cfg, pa, pb, "match", order, true);
+      bets.forEach((bet) => {
+        const sign = Math.sign(bet.up);
+        money[a] += sign * cfg.stake;
+        money[b] -= sign * cfg.stake;
+      });
+      pairs.push({ a, b, bets });
+    }
+  }
+  return { pairs, money };
+}
+
+// ---------- Wolf ----------
+
+export type WolfHole = {
+  wolf: number;
+  partner: number | null; // null = lone wolf
+  result: "wolf" | "field" | "halved" | null; // null = incomplete or no pick yet
+  money: number[];
+};
+
+export type WolfResult = {
+  holes: WolfHole[];
+  money: number[];
+};
+
+// The wolf for the nth hole played
+export function wolfForHole(order: number[], n: number): number {
+  return order[n % order.length];
+}
+
+// Two-on-two (or 2v1): the better ball wins one stake from each opponent.
+// A lone wolf plays for double against everyone. Holes are indexed by hole number,
+// but the wolf rotates from the first hole played.
+export function computeWolf(
+  cfg: WolfConfig,
+  players: GamePlayer[],
+  numHoles: number,
+  holeOrder: number[] = playOrder(numHoles, 1)
+): WolfResult {
+  const n = players.length;
+  const order = cfg.order.filter((i) => i < n);
+  const money = players.map(() => 0);
+  const holes: WolfHole[] = [];
+  if (n < 3 || order.length === 0) return { holes, money };
+
+  for (const [played, h] of holeOrder.entries()) {
+    const wolf = wolfForHole(order, played);
+    const pick = cfg.picks[h] ?? null;
+    const partner = pick == null || pick === LONE_WOLF || pick >= n ? null : pick;
+    const hole: WolfHole = { wolf, partner, result: null, money: players.map(() => 0) };
+    holes[h] = hole;
+    const scores = players.map((p) => holeScore(p, h, cfg.net));
+    // A pick left over from a different wolf order is ignored until re-chosen
+    if (pick == null || pick === wolf || scores.some((s) => !s)) continue;
+
+    const wolfSide = partner == null ? [wolf] : [wolf, partner];
+    const field = players.map((_, i) => i).filter((i) => !wolfSide.includes(i));
+    const best = (side: number[]) => Math.min(...side.map((i) => scores[i]));
+    const diff = best(field) - best(wolfSide);
+    // NaN when both sides picked up
+    if (!diff) {
+      hole.result = "halved";
+      continue;
+    }
+    hole.result = diff > 0 ? "wolf" : "field";
+    const winners = diff > 0 ? wolfSide : field;
+    const losers = diff > 0 ? field : wolfSide;
+    const unit = cfg.stake * (partner == null ? 2 : 1);
+    // Every loser pays every winner one unit
+    winners.forEach((w) => {
+      losers.forEach((l) => {
+        hole.money[w] += unit;
+        hole.money[l] -= unit;
+      });
+    });
+    hole.money.forEach((m, i) => (money[i] += m));
+  }
+  return { holes, money };
+}
+
+export function formatMoney(n: number): string {
+  const abs = Math.abs(n);
+  const s = Number.isInteger(abs) ? `$${abs}` : `$${abs.toFixed(2)}`;
+  return n > 0 ? `+${s}` : n < 0 ? `−${s}` : "$0";
+}
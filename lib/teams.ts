@@ -0,0 +1,163 @@
+// Pairs and team formats: better ball from individual rows, or one team ball per hole.
+
+import { allocateStrokes, stablefordPoints } from "@/lib/scoring";
+import type { PointsTable } from "@/lib/scoring";
+
+export type TeamFormat = "none" | "fourball" | "scramble" | "foursomes" | "texas";
+
+export type TeamFormatInfo = {
+  id: TeamFormat;
+  label: string;
+  sharedBall: boolean; // one team score per hole instead of each player's row
+};
+
+export const TEAM_FORMATS: TeamFormatInfo[] = [
+  { id: "none", label: "Individual", sharedBall: false },
+  { id: "fourball", label: "Four-ball better ball", sharedBall: false },
+  { id: "scramble", label: "Scramble", sharedBall: true },
+  { id: "foursomes", label: "Foursomes", sharedBall: true },
+  { id: "texas", label: "Texas scramble", sharedBall: true },
+];
+
+export const TEAM_NAMES = ["Team A", "Team B", "Team C", "Team D"];
+
+export type TeamMember = {
+  index: number; // player row
+  scores: number[];
+  courseHandicap: number;
+  playingHandicap: number;
+};
+
+export type TeamResult = {
+  team: number;
+  name: string;
+  members: number[];
+  handicap: number; // team playing handicap (shared-ball formats)
+  holes: number[]; // per-hole team score: net (or points with Stableford), 0 = not played
+  counted: (number | null)[]; // for better ball, which member's score counted on each hole
+  gross: number;
+  net: number;
+  points: number;
+};
+
+export function findTeamFormat(id: string): TeamFormatInfo {
+  return TEAM_FORMATS.find((f) => f.id === id) ?? TEAM_FORMATS[0];
+}
+
+// Scramble weights by team size, lowest course handicap first (WHS Appendix C)
+const SCRAMBLE_WEIGHTS: Record<number, number[]> = {
+  1: [1],
+  2: [0.35, 0.15],
+  3: [0.3, 0.2, 0.1],
+  4: [0.25, 0.2, 0.15, 0.1],
+};
+
+// Texas scramble: a share of the combined handicaps, by team size
+const TEXAS_SHARE: Record<number, number> = { 1: 1, 2: 0.25, 3: 0.15, 4: 0.1 };
+
+export function teamHandicap(format: TeamFormat, courseHandicaps: number[]): number {
+  const sorted = courseHandicaps.slice().sort((a, b) => a - b);
+  const combined = sorted.reduce((a, b) => a + b, 0);
+  switch (format) {
+    case "scramble": {
+      const weights = SCRAMBLE_WEIGHTS[sorted.length] ?? SCRAMBLE_WEIGHTS[4];
+      return Math.round(sorted.reduce((a, h, i) => a + h * (weights[i] ?? 0), 0));
+    }
+    case "foursomes":
+      return Math.round(combined * 0.5);
+    case "texas":
+      return Math.round(combined * (TEXAS_SHARE[sorted.length] ?? TEXAS_SHARE[4]));
+    default:
+      return 0;
+  }
+}
+
+export function describeTeamHandicap(format: TeamFormat, size: number): string {
+  switch (format) {
+    case "scramble":
+      return (SCRAMBLE_WEIGHTS[size] ?? SCRAMBLE_WEIGHTS[4]).map((w) => `${Math.round(w * 100)}%`).join(" / ") + " (low to high)";
+    case "foursomes":
+      return "50% of combined";
+    case "texas":
+      return `${Math.round((TEXAS_SHARE[size] ?? TEXAS_SHARE[4]) * 100)}% of combined`;
+    default:
+      return "Individual playing handicaps";
+  }
+}
+
+export function computeTeams(
+  format: TeamFormat,
+  assignments: number[], // team index per player row
+  members: TeamMember[],
+  teamScores: number[][], // shared-ball formats: team gross per hole
+  pars: number[],
+  si: number[],
+  numHoles: number,
+  useStableford: boolean,
+  pointsTable: PointsTable
+): TeamResult[] {
+  if (format === "none") return [];
+  const teamIds = Array.from(new Set(members.map((m) => assignments[m.index] ?? 0))).sort((a, b) => a - b);
+  const sharedBall = findTeamFormat(format).sharedBall;
+
+  return teamIds.map((team) => {
+    const side = members.filter((m) => (assignments[m.index] ?? 0) === team);
+    const handicap = sharedBall ? teamHandicap(format, side.map((m) => m.courseHandicap)) : 0;
+    const teamStrokes = allocateStrokes(handicap, si, numHoles);
+    const memberStrokes = side.map((m) => allocateStrokes(m.playingHandicap, si, numHoles));
+    const holes: number[] = [];
+    const counted: (number | null)[] = [];
+    let gross = 0;
+    let net = 0;
+    let points = 0;
+
+    for (let h = 0; h < numHoles; h++) {
+      if (sharedBall) {
+        const g = teamScores[team]?.[h] || 0;
+        const strokes = teamStrokes[h];
+        const pts = stablefordPoints(g, pars[h], strokes, pointsTable);
+        if (g > 0) {
+          gross += g;
+          net += g - strokes;
+        }
+        points += pts;
+        holes.push(g > 0 ? (useStableford ? pts : g - strokes) : 0);
+        counted.push(null);
+        continue;
+      }
+
+      // Better ball: best net (or most points) among the side's scores on this hole
+      const balls = side.flatMap((m, mi) => {
+        const g = m.scores[h] || 0;
+        if (!g) return [];
+        const strokes = memberStrokes[mi][h];
+        return [{ index: m.index, gross: g, net: g - strokes, points: stablefordPoints(g, pars[h], strokes, pointsTable) }];
+      });
+      if (balls.length === 0) {
+        holes.push(0);
+        counted.push(null);
+        continue;
+      }
+      const bestNet = Math.min(...balls.map((b) => b.net));
+      const bestPts = Math.max(...balls.map((b) => b.points));
+      const best = useStableford ? balls.find((b) => b.points === bestPts) : balls.find((b) => b.net === bestNet);
+      gross += Math.min(...balls.map((b) => b.gross));
+      net += bestNet;
+      points += bestPts;
+      holes.push(useStableford ? bestPts : bestNet);
+      counted.push(best?.index ?? null);
+    }
+
+    return {
+      team,
+      name: TEAM_NAMES[team] ?? `Team ${team + 1}`,
+      members: side.map((m) => m.index),
+      handicap,
+      holes,
+      counted,
+      gross,
+      net,
+      points,
+    };
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { translator } from "@/lib/i18n";
+import { defaultSnapshot } from "@/lib/scorecard";
+import type { Snapshot } from "@/lib/scorecard";
+import { attachCard, computeLeaderboard, createTournament, scoreCard } from "@/lib/tournament";
+import type { LeaderboardFormat } from "@/lib/tournament";
+
+// Three scratch players: two level par, one level par with a pick-up on the last hole
+function pickupCard(patch: Partial<Snapshot> = {}): Snapshot {
+  const base = defaultSnapshot();
+  const pickups = Array(18).fill(false);
+  pickups[17] = true;
+  return {
+    ...base,
+    numPlayers: 3,
+    players: [
+      { name: "Ann", handicap: 0, scores: base.pars.slice() },
+      { name: "Bob", handicap: 0, scores: base.pars.slice() },
+      { name: "Cat", handicap: 0, scores: [...base.pars.slice(0, 17), 0], pickups },
+    ],
+    ...patch,
+  };
+}
+
+function leaderboard(snap: Snapshot, format: LeaderboardFormat = "gross") {
+  const tour = createTournament("Test", translator("en"));
+  const withCard = attachCard(tour, tour.rounds[0].id, { id: "card", label: "Group 1", snapshot: snap });
+  return computeLeaderboard({ ...withCard, format }, []).rows;
+}
+
+describe("scoreCard", () => {
+  it("makes an uncapped pick-up a no return that finishes the hole", () => {
+    const [, , cat] = scoreCard(pickupCard(), []);
+    expect(cat.noReturn).toBe(true);
+    expect(cat.played).toBe(18);
+    expect(cat.gross[17]).toBe(0);
+  });
+
+  it("scores a pick-up at net double bogey", () => {
+    const [, , cat] = scoreCard(pickupCard({ scoreCap: "ndb" }), []);
+    expect(cat.noReturn).toBe(false);
+    expect(cat.gross[17]).toBe(pickupCard().pars[17] + 2);
+  });
+
+  it("caps scores and pick-ups at the card's maximum", () => {
+    const snap = pickupCard({ scoreCap: "max", maxScore: 8 });
+    snap.players[0].scores[0] = 11;
+    const [ann, , cat] = scoreCard(snap, []);
+    expect(ann.gross[0]).toBe(8);
+    expect(cat.gross[17]).toBe(8);
+  });
+});
+
+describe("computeLeaderboard with pick-ups", () => {
+  it("keeps a no return off the ranked positions", () => {
+    const rows = leaderboard(pickupCard());
+    expect(rows.map((r) => [r.name, r.position])).toEqual([
+      ["Ann", "T1"],
+      ["Bob", "T1"],
+      ["Cat", "NR"],
+    ]);
+    expect(rows[2].noReturn).toBe(true);
+  });
+
+  it("ranks a capped pick-up on its adjusted score", () => {
+    const rows = leaderboard(pickupCard({ scoreCap: "ndb" }));
+    expect(rows.map((r) => [r.name, r.position, r.toPar])).toEqual([
+      ["Ann", "T1", 0],
+      ["Bob", "T1", 0],
+      ["Cat", "3", 2],
+    ]);
+    expect(rows[2].thru).toBe("F");
+  });
+
+  it("counts a pick-up as no points in Stableford rather than a no return", () => {
+    const rows = leaderboard(pickupCard(), "stableford");
+    expect(rows[2]).toMatchObject({ name: "Cat", position: "3", noReturn: false, total: 34 });
+  });
+});
@@ -0,0 +1,322 @@
+// Tournaments: rounds made of attached cards, a gross/net/Stableford leaderboard, a cut and countback.
+
+import { ratedHoles } from "@/lib/courses";
+import type { Course } from "@/lib/courses";
+import { calcHandicap, findAllowance, ratingForHoles } from "@/lib/handicap";
+import type { Translate } from "@/lib/i18n";
+import { parseSnapshot } from "@/lib/schema";
+import type { Snapshot } from "@/lib/scorecard";
+import { adjustedScore, allocateStrokes, holeCap, resolvePointsTable, stablefordPoints } from "@/lib/scoring";
+
+export type LeaderboardFormat = "gross" | "net" | "stableford";
+
+export type TournamentCard = {
+  id: string;
+  label: string; // "Group 2", "Archived 12 May", ...
+  snapshot: Snapshot;
+};
+
+export type TournamentRound = {
+  id: string;
+  name: string;
+  cards: TournamentCard[];
+};
+
+export type Tournament = {
+  id: string;
+  name: string;
+  rounds: TournamentRound[];
+  format: LeaderboardFormat;
+  cutAfter: number; // round number the cut is made after, 0 = no cut
+  cutSize: number; // top N and ties make the cut
+};
+
+// One player's round, hole by hole
+export type PlayerRound = {
+  gross: number[]; // adjusted to the card's cap, 0 = not played
+  net: number[];
+  points: number[];
+  pars: number[];
+  parPoints: number; // Stableford points for a net par in this card's table
+  played: number;
+  numHoles: number;
+  noReturn: boolean; // picked up with no cap to score it at
+};
+
+export type LeaderboardRow = {
+  key: string;
+  name: string;
+  position: string; // "1", "T3", "CUT", "NR"
+  rounds: (PlayerRound | null)[]; // by round index, null = no card in that round
+  total: number; // strokes (gross/net) or points
+  toPar: number; // on holes played
+  thru: string; // "F", "12", "-"
+  cut: boolean;
+  noReturn: boolean; // a gross or net round with an uncapped pick-up; not ranked
+  countback: number | null; // how a tie was split: the last n holes, 0 for the final round, null when it wasn't
+};
+
+export const TOURNAMENT_STORAGE_KEY = "golf-tournament-v1";
+export const FORMAT_LABELS: Record<LeaderboardFormat, string> = { gross: "Gross", net: "Net", stableford: "Stableford" };
+
+// Standard countback segments: last 9, 6, 3 and 1 holes of the final round
+const COUNTBACK = [9, 6, 3, 1];
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createTournament(name: string, t: Translate): Tournament {
+  return {
+    id: newId("tour"),
+    name: name.trim().slice(0, 60) || t("tournament.defaultName"),
+    rounds: [{ id: newId("rnd"), name: t("tournament.roundN", { n: 1 }), cards: [] }],
+    format: "net",
+    cutAfter: 0,
+    cutSize: 10,
+  };
+}
+
+export function addRound(tour: Tournament, t: Translate): Tournament {
+  const round = { id: newId("rnd"), name: t("tournament.roundN", { n: tour.rounds.length + 1 }), cards: [] };
+  return { ...tour, rounds: [...tour.rounds, round] };
+}
+
+export function removeRound(t: Tournament, roundId: string): Tournament {
+  const rounds = t.rounds.filter((r) => r.id !== roundId);
+  return { ...t, rounds, cutAfter: Math.min(t.cutAfter, Math.max(0, rounds.length - 1)) };
+}
+
+// Attaching a card with the same id again (an event group, an archived round) replaces the older copy
+export function attachCard(t: Tournament, roundId: string, card: TournamentCard): Tournament {
+  return {
+    ...t,
+    rounds: t.rounds.map((r) => (r.id === roundId ? { ...r, cards: [...r.cards.filter((c) => c.id !== card.id), card] } : r)),
+  };
+}
+
+export function detachCard(t: Tournament, roundId: string, cardId: string): Tournament {
+  return { ...t, rounds: t.rounds.map((r) => (r.id === roundId ? { ...r, cards: r.cards.filter((c) => c.id !== cardId) } : r)) };
+}
+
+// Roster golfers match across rounds by id, everyone else by name
+export function entrantKey(p: { id?: string; name: string }): string {
+  return p.id ? `id:${p.id}` : `name:${p.name.trim().toLowerCase()}`;
+}
+
+// Hole-by-hole gross, net and points for every player on a card, using the card's own handicap settings
+// and score cap; the tee's rating is scaled to the holes on the card, as on the page
+export function scoreCard(snap: Snapshot, courses: Course[]): PlayerRound[] {
+  const n = snap.numHoles;
+  const pars = snap.pars.slice(0, n);
+  const parTotal = pars.reduce((a, b) => a + b, 0);
+  const rating = snap.rating ? ratingForHoles(snap.rating, ratedHoles(snap, courses), n) : parTotal;
+  const percent = findAllowance(snap.allowance).percent;
+  const table = resolvePointsTable(snap.pointsTable, snap.customPoints);
+  return snap.players.slice(0, snap.numPlayers).map((p) => {
+    const playing = calcHandicap(p.handicap, snap.slope, rating, parTotal, percent, n).playing;
+    const strokes = allocateStrokes(playing, snap.si, n);
+    const raw = Array.from({ length: n }, (_, h) => p.scores[h] || 0);
+    const finished = raw.map((g, h) => g > 0 || !!p.pickups?.[h]); // a pick-up finishes the hole
+    const adjusted = raw.map((g, h) =>
+      finished[h] ? adjustedScore(g, !!p.pickups?.[h], holeCap(snap.scoreCap, snap.maxScore, pars[h], strokes[h])) : 0
+    );
+    const gross = adjusted.map((g) => g ?? 0);
+    return {
+      gross,
+      net: gross.map((g, h) => (g ? g - strokes[h] : 0)),
+      // Stableford: a pick-up scores nothing
+      points: raw.map((g, h) => (p.pickups?.[h] ? 0 : stablefordPoints(g, pars[h], strokes[h], table))),
+      parPoints: table[3],
+      pars,
+      played: finished.filter(Boolean).length,
+      numHoles: n,
+      noReturn: adjusted.includes(null),
+    };
+  });
+}
+
+function sum(arr: number[]) {
+  return arr.reduce((a, b) => a + b, 0);
+}
+
+export function roundValue(r: PlayerRound, format: LeaderboardFormat, from = 0): number {
+  const values = format === "gross" ? r.gross : format === "net" ? r.net : r.points;
+  return sum(values.slice(from));
+}
+
+// Stableford counts a net par on every hole as level, so +3 is three points better than par
+function roundToPar(r: PlayerRound, format: LeaderboardFormat): number {
+  if (format === "stableford") return roundValue(r, format) - r.parPoints * r.played;
+  const values = format === "gross" ? r.gross : r.net;
+  return values.reduce((t, v, h) => (v ? t + v - r.pars[h] : t), 0);
+}
+
+// Lower is better for strokes, higher for points; returns < 0 when a ranks ahead
+function compareValues(a: number, b: number, format: LeaderboardFormat): number {
+  return format === "stableford" ? b - a : a - b;
+}
+
+type Entrant = {
+  key: string;
+  name: string;
+  rounds: (PlayerRound | null)[];
+};
+
+function collectEntrants(t: Tournament, courses: Course[]): Entrant[] {
+  const byKey = new Map<string, Entrant>();
+  t.rounds.forEach((round, ri) => {
+    round.cards.forEach((card) => {
+      const results = scoreCard(card.snapshot, courses);
+      card.snapshot.players.slice(0, card.snapshot.numPlayers).forEach((p, pi) => {
+        const key = entrantKey(p);
+        const entrant = byKey.get(key) ?? { key, name: p.name, rounds: Array(t.rounds.length).fill(null) };
+        entrant.rounds[ri] = results[pi];
+        byKey.set(key, entrant);
+      });
+    });
+  });
+  return [...byKey.values()];
+}
+
+// Total through round `upTo` (index, inclusive)
+function totalThrough(e: Entrant, format: LeaderboardFormat, upTo: number): number {
+  return e.rounds.slice(0, upTo + 1).reduce((t, r) => t + (r ? roundValue(r, format) : 0), 0);
+}
+
+// Splits a tie between two finished players: final round, then its last 9, 6, 3 and 1 holes
+function countback(a: Entrant, b: Entrant, format: LeaderboardFormat, last: number): { order: number; holes: number | null } {
+  const ra = a.rounds[last];
+  const rb = b.rounds[last];
+  if (!ra || !rb) return { order: 0, holes: null };
+  if (last > 0) {
+    const order = compareValues(roundValue(ra, format), roundValue(rb, format), format);
+    if (order !== 0) return { order, holes: 0 };
+  }
+  for (const holes of COUNTBACK) {
+    if (holes >= ra.numHoles || holes >= rb.numHoles) continue;
+    const order = compareValues(roundValue(ra, format, ra.numHoles - holes), roundValue(rb, format, rb.numHoles - holes), format);
+    if (order !== 0) return { order, holes };
+  }
+  return { order: 0, holes: null };
+}
+
+export function computeLeaderboard(t: Tournament, courses: Course[]): { rows: LeaderboardRow[]; cutMade: boolean } {
+  const { format } = t;
+  const entrants = collectEntrants(t, courses);
+
+  // The cut applies once every card in the cut round is complete
+  const cutIdx = t.cutAfter - 1;
+  const cutMade =
+    !!t.rounds[cutIdx]?.cards.length &&
+    entrants.every((e) => {
+      const r = e.rounds[cutIdx];
+      return !r || r.played === r.numHoles;
+    });
+  // A pick-up only scores in gross or net at the card's cap; without one the player has no return
+  const noReturn = (e: Entrant) => format !== "stableford" && e.rounds.some((r) => r?.noReturn);
+  const missedCut = new Set<string>();
+  if (cutMade) {
+    const standings = entrants
+      .filter((e) => e.rounds[cutIdx] && !noReturn(e))
+      .map((e) => totalThrough(e, format, cutIdx))
+      .sort((a, b) => compareValues(a, b, format));
+    const line = standings[Math.min(t.cutSize, standings.length) - 1];
+    entrants.forEach((e) => {
+      if (!e.rounds[cutIdx] || (line !== undefined && compareValues(totalThrough(e, format, cutIdx), line, format) > 0)) missedCut.add(e.key);
+    });
+  }
+
+  const rows = entrants.map((e) => {
+    const latest = e.rounds.reduce((last, r, i) => (r ? i : last), -1);
+    const current = e.rounds[latest];
+    const finished = !!current && current.played === current.numHoles;
+    return {
+      entrant: e,
+      latest,
+      finished,
+      total: totalThrough(e, format, e.rounds.length - 1),
+      toPar: e.rounds.reduce((sumToPar, r) => sumToPar + (r ? roundToPar(r, format) : 0), 0),
+      cut: missedCut.has(e.key),
+      noReturn: noReturn(e),
+    };
+  });
+
+  // Ranked players first, then those who missed the cut, then no returns; within each, to par so
+  // players part way through a round compare fairly. Equal scores go to countback when both are finished
+  const countbacks = new Map<string, number | null>();
+  rows.sort((a, b) => {
+    if (a.noReturn !== b.noReturn) return a.noReturn ? 1 : -1;
+    if (a.cut !== b.cut) return a.cut ? 1 : -1;
+    const order = compareValues(a.toPar, b.toPar, format);
+    if (order !== 0) return order;
+    if (a.finished && b.finished && a.latest === b.latest && !a.noReturn) {
+      const cb = countback(a.entrant, b.entrant, format, a.latest);
+      if (cb.order !== 0) {
+        countbacks.set(a.entrant.key, cb.holes);
+        countbacks.set(b.entrant.key, cb.holes);
+        return cb.order;
+      }
+    }
+    return a.entrant.name.localeCompare(b.entrant.name);
+  });
+
+  // Positions: tied unless countback separated them
+  const result: LeaderboardRow[] = [];
+  rows.forEach((r, i) => {
+    const prev = rows[i - 1];
+    const next = rows[i + 1];
+    const tiedWith = (o: typeof r | undefined) =>
+      !!o &&
+      o.cut === r.cut &&
+      o.noReturn === r.noReturn &&
+      o.toPar === r.toPar &&
+      !(r.finished && o.finished && o.latest === r.latest && countback(r.entrant, o.entrant, format, r.latest).order !== 0);
+    let position = String(i + 1);
+    if (tiedWith(prev)) position = result[i - 1].position;
+    else if (tiedWith(next)) position = `T${i + 1}`;
+    const current = r.entrant.rounds[r.latest];
+    result.push({
+      key: r.entrant.key,
+      name: r.entrant.name,
+      position: r.noReturn ? "NR" : r.cut ? "CUT" : position,
+      rounds: r.entrant.rounds,
+      total: r.total,
+      toPar: r.toPar,
+      thru: !current || current.played === 0 ? "-" : r.finished ? "F" : String(current.played),
+      cut: r.cut,
+      noReturn: r.noReturn,
+      countback: countbacks.get(r.entrant.key) ?? null,
+    });
+  });
+  return { rows: result, cutMade };
+}
+
+export function formatToPar(n: number): string {
+  return n === 0 ? "E" : n > 0 ? `+${n}` : String(n);
+}
+
+export function loadTournament(): Tournament | null {
+  try {
+    const raw = localStorage.getItem(TOURNAMENT_STORAGE_KEY);
+    if (!raw) return null;
+    const t = JSON.parse(raw) as Tournament;
+    if (!Array.isArray(t.rounds)) return null;
+    // Attached cards go through the same migrations as the main card
+    const rounds = t.rounds.map((r) => ({
+      ...r,
+      cards: r.cards.flatMap((c) => {
+        const { snapshot } = parseSnapshot(c.snapshot);
+        return snapshot ? [{ ...c, snapshot }] : [];
+      }),
+    }));
+    return { ...t, rounds };
+  } catch {
+    return null;
+  }
+}
+
+export function saveTournament(t: Tournament | null) {
+  if (t) localStorage.setItem(TOURNAMENT_STORAGE_KEY, JSON.stringify(t));
+  else localStorage.removeItem(TOURNAMENT_STORAGE_KEY);
+}
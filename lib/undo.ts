@@ -0,0 +1,322 @@
+// Undo history as typed edits: rapid edits to one cell merge, the stacks are capped and survive reloads.
+// Every edit, undo and redo also goes to an audit log that is kept when the undo stack is dropped.
+
+import { emptyHoleStat } from "@/lib/holestats";
+import type { Fairway, HoleStat } from "@/lib/holestats";
+import { isMessage } from "@/lib/i18n";
+import type { Message, MessageKey, MessageVar } from "@/lib/i18n";
+import { parseSnapshot } from "@/lib/schema";
+import { markPickup } from "@/lib/scorecard";
+import type { Snapshot } from "@/lib/scorecard";
+import type { Shot } from "@/lib/shots";
+import type { SideGames } from "@/lib/sidegames";
+import { TEAM_NAMES } from "@/lib/teams";
+
+// Card settings that are a single value on the snapshot
+export type SettingField = "rating" | "slope" | "allowance" | "useStableford" | "pointsTable" | "scoreCap" | "maxScore" | "startHole";
+
+// One player's hole where a pick-up is involved: the score and the pick-up flag go together
+export type HoleEntry = { score: number; pickup: boolean };
+
+export type Change =
+  | { kind: "score"; player: number; hole: number; from: number; to: number }
+  | { kind: "holeScores"; hole: number; from: number[]; to: number[] } // one save in hole view
+  | { kind: "teamScore"; team: number; hole: number; from: number; to: number }
+  | { kind: "par" | "si"; hole: number; from: number; to: number }
+  | { kind: "name"; player: number; from: string; to: string }
+  | { kind: "handicap"; player: number; from: number; to: number }
+  | { kind: "shots"; player: number; hole: number; from: Shot[]; to: Shot[] }
+  | { kind: "pickup"; player: number; hole: number; from: HoleEntry; to: HoleEntry }
+  | { kind: "stat"; player: number; hole: number; from: HoleStat; to: HoleStat }
+  | { kind: "team"; player: number; from: number; to: number }
+  | { kind: "customPoint"; index: number; from: number; to: number }
+  | { kind: "sideGames"; from: SideGames; to: SideGames }
+  | { kind: "setting"; field: SettingField; from: string | number | boolean; to: string | number | boolean }
+  // Anything structural (course, holes, formats, imports): the whole card either side
+  | { kind: "card"; from: Snapshot; to: Snapshot | null };
+
+export type Edit = {
+  change: Change;
+  label: Message; // "Hole 7, Sam" or "Course: Mount Paul", worded when shown
+  at: number; // epoch ms of the latest edit merged into it
+};
+
+export type AuditEntry = {
+  at: number; // epoch ms
+  text: Message; // "Hole 7, Sam: 5 → 4"
+};
+
+export type UndoHistory = {
+  undo: Edit[];
+  redo: Edit[];
+  log: AuditEntry[];
+};
+
+export const UNDO_STORAGE_KEY = "golf-undo-v1";
+export const MAX_UNDO = 100;
+// Whole-card steps saved per stack; older ones are only kept until a reload
+export const MAX_SAVED_CARDS = 10;
+export const MAX_LOG = 500;
+// Keystrokes in the same cell closer together than this are one undo step
+export const COALESCE_MS = 2000;
+
+export function emptyHistory(): UndoHistory {
+  return { undo: [], redo: [], log: [] };
+}
+
+// Same cell, so a quick follow-up edit extends the previous step
+function sameTarget(a: Change, b: Change): boolean {
+  if (a.kind !== b.kind || a.kind === "card" || b.kind === "card") return false;
+  const key = (c: Change) => [
+    "player" in c ? c.player : -1,
+    "team" in c ? c.team : -1,
+    "hole" in c ? c.hole : -1,
+    "index" in c ? c.index : -1,
+    "field" in c ? c.field : "",
+  ].join(",");
+  return key(a) === key(b);
+}
+
+const FAIRWAYS: Record<Exclude<Fairway, "">, MessageKey> = { hit: "table.fairwayHit", left: "table.fairwayLeft", right: "table.fairwayRight" };
+
+// Settings whose values are list options with catalog labels
+const OPTION_SETTINGS: Partial<Record<SettingField, string>> = { allowance: "allowance", pointsTable: "pointsTable", scoreCap: "scoreCap" };
+
+function formatStat(s: HoleStat): MessageVar {
+  const parts: Message[] = [
+    ...(s.putts != null ? [{ key: "audit.putts" as const, vars: { n: s.putts } }] : []),
+    ...(s.fairway ? [{ key: "audit.fairway" as const, vars: { side: { key: FAIRWAYS[s.fairway] } } }] : []),
+    ...(s.penalties ? [{ key: "audit.penalties" as const, vars: { n: s.penalties } }] : []),
+    ...(s.sand ? [{ key: "audit.sand" as const, vars: { n: s.sand } }] : []),
+  ];
+  return parts.length ? parts.reduce((a, b) => ({ key: "audit.list", vars: { a, b } })) : "–";
+}
+
+function formatValue(c: Change, v: unknown): MessageVar {
+  if (typeof v === "boolean") return { key: v ? "audit.on" : "audit.off" };
+  if (c.kind === "shots") return { key: "audit.shots", vars: { n: (v as Shot[]).length } };
+  if (c.kind === "pickup") {
+    const e = v as HoleEntry;
+    return e.pickup ? { key: "audit.pickedUp" } : e.score ? String(e.score) : "–";
+  }
+  if (c.kind === "stat") return formatStat(v as HoleStat);
+  if (c.kind === "team") return TEAM_NAMES[v as number] ? { group: "team", id: v as number, fallback: TEAM_NAMES[v as number] } : "–";
+  if (c.kind === "customPoint") return String(v);
+  if (c.kind === "setting" && OPTION_SETTINGS[c.field]) return { group: OPTION_SETTINGS[c.field]!, id: String(v), fallback: String(v) };
+  if (c.kind === "name" || c.kind === "setting") return String(v) || "—";
+  if (Array.isArray(v)) return v.map((x) => x || "–").join(" ");
+  return v ? String(v) : "–";
+}
+
+export function describeEdit(edit: Edit): Message {
+  const c = edit.change;
+  if (c.kind === "card" || c.kind === "sideGames") return edit.label;
+  return { key: "audit.change", vars: { label: edit.label, from: formatValue(c, c.from), to: formatValue(c, c.to) } };
+}
+
+function appendLog(log: AuditEntry[], entry: AuditEntry): AuditEntry[] {
+  return [...log, entry].slice(-MAX_LOG);
+}
+
+function isNoop(c: Change): boolean {
+  return c.kind !== "card" && JSON.stringify(c.from) === JSON.stringify(c.to);
+}
+
+export function recordEdit(history: UndoHistory, edit: Edit): UndoHistory {
+  const last = history.undo[history.undo.length - 1];
+  const lastLog = history.log[history.log.length - 1];
+  // Only merge into the step the log's last line describes, never across an undo
+  if (last && history.redo.length === 0 && lastLog?.at === last.at && edit.at - last.at < COALESCE_MS && sameTarget(last.change, edit.change)) {
+    const merged = { ...edit, change: { ...edit.change, from: last.change.from } as Change };
+    const undo = history.undo.slice(0, -1);
+    const log = history.log.slice(0, -1);
+    if (isNoop(merged.change)) return { ...history, undo, log };
+    return { undo: [...undo, merged], redo: [], log: [...log, { at: merged.at, text: describeEdit(merged) }] };
+  }
+  if (isNoop(edit.change)) return history;
+  return {
+    undo: [...history.undo, edit].slice(-MAX_UNDO),
+    redo: [],
+    log: appendLog(history.log, { at: edit.at, text: describeEdit(edit) }),
+  };
+}
+
+// A note in the audit log that can't be undone (signing, unlocking)
+export function logNote(history: UndoHistory, text: Message, at = Date.now()): UndoHistory {
+  return { ...history, log: appendLog(history.log, { at, text }) };
+}
+
+// Drops undo and redo; the audit log stays
+export function clearUndo(history: UndoHistory): UndoHistory {
+  return { ...history, undo: [], redo: [] };
+}
+
+function setAt<T>(arr: T[], i: number, v: T): T[] {
+  const next = arr.slice();
+  next[i] = v;
+  return next;
+}
+
+// A full-length log, so a first shot on a later hole leaves no gaps
+function holeShots(shots: Shot[][] | undefined, numHoles: number): Shot[][] {
+  return Array.from({ length: numHoles }, (_, h) => shots?.[h] ?? []);
+}
+
+// The card with one side of the change applied
+export function applyChange(s: Snapshot, c: Change, side: "from" | "to"): Snapshot {
+  switch (c.kind) {
+    case "card":
+      return c[side] ?? s;
+    case "score":
+      return {
+        ...s,
+        players: s.players.map((p, i) => (i === c.player ? { ...p, scores: setAt(p.scores, c.hole, c[side]) } : p)),
+      };
+    case "holeScores":
+      return {
+        ...s,
+        players: s.players.map((p, i) => (i < c[side].length ? { ...p, scores: setAt(p.scores, c.hole, c[side][i]) } : p)),
+      };
+    case "teamScore":
+      return { ...s, teamScores: s.teamScores.map((row, t) => (t === c.team ? setAt(row, c.hole, c[side]) : row)) };
+    case "par":
+      return { ...s, pars: setAt(s.pars, c.hole, c[side]) };
+    case "si":
+      return { ...s, si: setAt(s.si, c.hole, c[side]) };
+    case "name":
+      return { ...s, players: s.players.map((p, i) => (i === c.player ? { ...p, name: c[side] } : p)) };
+    case "handicap":
+      return { ...s, players: s.players.map((p, i) => (i === c.player ? { ...p, handicap: c[side] } : p)) };
+    case "shots":
+      return {
+        ...s,
+        players: s.players.map((p, i) => (i === c.player ? { ...p, shots: setAt(holeShots(p.shots, s.numHoles), c.hole, c[side]) } : p)),
+      };
+    case "pickup":
+      return {
+        ...s,
+        players: s.players.map((p, i) =>
+          i === c.player ? { ...p, scores: setAt(p.scores, c.hole, c[side].score), pickups: markPickup(p, c.hole, c[side].pickup) } : p
+        ),
+      };
+    case "stat":
+      return {
+        ...s,
+        players: s.players.map((p, i) =>
+          i === c.player
+            ? { ...p, stats: setAt(Array.from({ length: s.numHoles }, (_, h) => p.stats?.[h] ?? emptyHoleStat()), c.hole, c[side]) }
+            : p
+        ),
+      };
+    case "team":
+      return { ...s, teams: setAt(s.teams, c.player, c[side]) };
+    case "customPoint":
+      return { ...s, customPoints: setAt(s.customPoints, c.index, c[side]) };
+    case "sideGames":
+      return { ...s, sideGames: c[side] };
+    case "setting":
+      return { ...s, [c.field]: c[side] };
+  }
+}
+
+export type UndoStep = {
+  history: UndoHistory;
+  snapshot: Snapshot;
+  edit: Edit;
+};
+
+// `current` is the card as it stands, kept so a whole-card step can be redone
+export function undoEdit(history: UndoHistory, current: Snapshot, now = Date.now()): UndoStep | null {
+  const edit = history.undo[history.undo.length - 1];
+  if (!edit) return null;
+  const change = edit.change.kind === "card" ? { ...edit.change, to: current } : edit.change;
+  return {
+    history: {
+      undo: history.undo.slice(0, -1),
+      redo: [...history.redo, { ...edit, change }],
+      log: appendLog(history.log, { at: now, text: { key: "audit.undo", vars: { text: describeEdit(edit) } } }),
+    },
+    snapshot: applyChange(current, change, "from"),
+    edit,
+  };
+}
+
+export function redoEdit(history: UndoHistory, current: Snapshot, now = Date.now()): UndoStep | null {
+  const edit = history.redo[history.redo.length - 1];
+  if (!edit) return null;
+  const change = edit.change.kind === "card" ? { ...edit.change, from: current } : edit.change;
+  return {
+    history: {
+      undo: [...history.undo, { ...edit, change }],
+      redo: history.redo.slice(0, -1),
+      log: appendLog(history.log, { at: now, text: { key: "audit.redo", vars: { text: describeEdit(edit) } } }),
+    },
+    snapshot: applyChange(current, edit.change, "to"),
+    edit,
+  };
+}
+
+// Text saved before messages were kept as data is shown as it was written
+function loadMessage(v: unknown): Message | null {
+  if (typeof v === "string") return { key: "audit.text", vars: { text: v } };
+  return isMessage(v) ? v : null;
+}
+
+// Whole-card steps go through the schema so an app update can't restore a stale card
+function loadEdits(v: unknown): Edit[] {
+  if (!Array.isArray(v)) return [];
+  return v.flatMap((e): Edit[] => {
+    if (typeof e !== "object" || e === null || typeof e.at !== "number") return [];
+    const label = loadMessage(e.label);
+    const c = e.change;
+    if (!label || typeof c !== "object" || c === null || typeof c.kind !== "string") return [];
+    if (c.kind !== "card") return [{ ...e, label } as Edit];
+    const from = parseSnapshot(c.from).snapshot;
+    const to = c.to ? parseSnapshot(c.to).snapshot : null;
+    return from && (to || !c.to) ? [{ ...e, label, change: { kind: "card", from, to } } as Edit] : [];
+  });
+}
+
+export function loadUndo(): UndoHistory {
+  try {
+    const raw = localStorage.getItem(UNDO_STORAGE_KEY);
+    if (!raw) return emptyHistory();
+    const h = JSON.parse(raw) as Partial<UndoHistory>;
+    return {
+      undo: loadEdits(h.undo).slice(-MAX_UNDO),
+      redo: loadEdits(h.redo).slice(-MAX_UNDO),
+      log: Array.isArray(h.log)
+        ? h.log
+            .flatMap((l): AuditEntry[] => {
+              const text = loadMessage(l?.text);
+              return typeof l?.at === "number" && text ? [{ at: l.at, text }] : [];
+            })
+            .slice(-MAX_LOG)
+        : [],
+    };
+  } catch {
+    return emptyHistory();
+  }
+}
+
+// The latest edits, up to MAX_SAVED_CARDS whole-card steps
+function savedEdits(edits: Edit[]): Edit[] {
+  let cards = 0;
+  for (let i = edits.length - 1; i >= 0; i--) {
+    if (edits[i].change.kind === "card" && ++cards > MAX_SAVED_CARDS) return edits.slice(i + 1);
+  }
+  return edits;
+}
+
+// A full storage quota drops the undo stacks before the audit log, and never throws
+export function saveUndo(history: UndoHistory) {
+  const attempts = [{ ...history, undo: savedEdits(history.undo), redo: savedEdits(history.redo) }, clearUndo(history)];
+  for (const h of attempts) {
+    try {
+      localStorage.setItem(UNDO_STORAGE_KEY, JSON.stringify(h));
+      return;
+    } catch {
+      // try again with less
+    }
+  }
+}
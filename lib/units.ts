@@ -0,0 +1,45 @@
+// Hole distances are stored once, in yards, and converted only for display.
+
+export type DistanceUnit = "yd" | "m";
+
+export type DistanceUnitOption = {
+  id: DistanceUnit;
+  label: string;
+  short: string;
+};
+
+export const DISTANCE_UNITS: DistanceUnitOption[] = [
+  { id: "yd", label: "Yards", short: "yds" },
+  { id: "m", label: "Metres", short: "m" },
+];
+
+export const METRES_TO_YARDS = 1.09361;
+
+export function findDistanceUnit(id: string): DistanceUnitOption {
+  return DISTANCE_UNITS.find((u) => u.id === id) ?? DISTANCE_UNITS[0];
+}
+
+// A yard is shorter than a metre, so entering metres and showing them again gives back the same number
+export function toDisplay(yards: number, unit: DistanceUnit): number {
+  return unit === "m" ? Math.round(yards / METRES_TO_YARDS) : yards;
+}
+
+export function fromDisplay(value: number, unit: DistanceUnit): number {
+  return Math.round(unit === "m" ? value * METRES_TO_YARDS : value);
+}
+
+// GPS distances are measured in metres
+export function fromMetres(metres: number, unit: DistanceUnit): number {
+  return Math.round(unit === "m" ? metres : metres * METRES_TO_YARDS);
+}
+
+export const FEET_PER_METRE = 3.28084;
+
+// Putts are logged in feet, or metres to a tenth
+export function feetToDisplay(feet: number, unit: DistanceUnit): number {
+  return unit === "m" ? Math.round((feet / FEET_PER_METRE) * 10) / 10 : feet;
+}
+
+export function feetFromDisplay(value: number, unit: DistanceUnit): number {
+  return Math.round((unit === "m" ? value * FEET_PER_METRE : value) * 10) / 10;
+}
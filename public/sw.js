@@ -0,0 +1,61 @@
+// Offline support: precaches the exported app shell and serves it cache-first.
+// `npm run build` replaces the two placeholders below (scripts/precache.mjs); a new
+// build changes this file, which is how the browser notices an update.
+
+const VERSION = "__PRECACHE_VERSION__";
+const PRECACHE = "__PRECACHE_FILES__"; // array of paths relative to this file after the build
+const CACHE = `golf-scorecard-${VERSION}`;
+
+const scope = new URL("./", self.location.href);
+const precached = new Set(Array.isArray(PRECACHE) ? PRECACHE.map((p) => new URL(p, scope).href) : []);
+const shell = new URL("./", scope).href;
+
+self.addEventListener("install", (event) => {
+  // Wait for the page to ask (SKIP_WAITING) so an update never reloads mid-round
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll([...precached])));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("golf-scorecard-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== scope.origin) return; // relay server, fonts CDN, etc.
+
+  // Every page load gets the cached shell; ?s= share codes are read on the client
+  if (request.mode === "navigate") {
+    event.respondWith(caches.match(shell).then((hit) => hit ?? fetch(request)));
+    return;
+  }
+
+  url.search = "";
+  if (precached.has(url.href)) {
+    event.respondWith(caches.match(url.href).then((hit) => hit ?? fetch(request)));
+    return;
+  }
+
+  // Anything else from this origin: network first, keep a copy for next time offline
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(() => caches.match(request).then((hit) => hit ?? Response.error()))
+  );
+});
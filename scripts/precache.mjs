@@ -0,0 +1,37 @@
+// Post-build step: lists every file of the static export and writes that list,
+// plus a content hash as the cache version, into out/sw.js (see public/sw.js).
+
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+
+const OUT = process.argv[2] ?? "out";
+const SKIP = new Set(["sw.js", "404.html", "404/index.html"]);
+
+function walk(dir) {
+  return readdirSync(dir).flatMap((name) => {
+    const full = join(dir, name);
+    return statSync(full).isDirectory() ? walk(full) : [full];
+  });
+}
+
+const hash = createHash("sha256");
+const files = walk(OUT)
+  .map((full) => ({ full, path: relative(OUT, full).split(sep).join("/") }))
+  .filter(({ path }) => !SKIP.has(path) && !path.endsWith(".map"))
+  .sort((a, b) => a.path.localeCompare(b.path))
+  .map(({ full, path }) => {
+    hash.update(path).update(readFileSync(full));
+    // The shell is requested as the directory, not index.html
+    return path === "index.html" ? "./" : `./${path}`;
+  });
+
+const swPath = join(OUT, "sw.js");
+const sw = readFileSync(swPath, "utf8");
+if (!sw.includes('"__PRECACHE_FILES__"')) throw new Error(`${swPath} has no precache placeholder`);
+const version = hash.digest("hex").slice(0, 12);
+writeFileSync(
+  swPath,
+  sw.replace('"__PRECACHE_VERSION__"', JSON.stringify(version)).replace('"__PRECACHE_FILES__"', JSON.stringify(files))
+);
+console.log(`Precaching ${files.length} files in ${swPath} (version ${version})`);
@@ -0,0 +1,77 @@
+// Minimal relay for live scoring sessions (lib/livesync.ts).
+// GET  /sessions/<code>  opens a server-sent event stream for that session.
+// POST /sessions/<code>  fans the JSON body out to every stream in the session.
+// Nothing is stored; run it on the course wifi or a laptop: `npm run relay`.
+
+import http from "node:http";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const MAX_BODY = 256 * 1024;
+const KEEPALIVE_MS = 25000;
+
+const sessions = new Map(); // code -> Set of open responses
+
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+function subscribe(code, req, res) {
+  res.writeHead(200, { ...CORS, "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  res.write(": connected\n\n");
+  const listeners = sessions.get(code) ?? new Set();
+  listeners.add(res);
+  sessions.set(code, listeners);
+  req.on("close", () => {
+    listeners.delete(res);
+    if (listeners.size === 0) sessions.delete(code);
+  });
+}
+
+function publish(code, req, res) {
+  let body = "";
+  req.setEncoding("utf8");
+  req.on("data", (chunk) => {
+    body += chunk;
+    if (body.length > MAX_BODY && !res.headersSent) {
+      res.writeHead(413, CORS).end();
+      req.destroy();
+    }
+  });
+  req.on("end", () => {
+    try {
+      JSON.parse(body);
+    } catch {
+      res.writeHead(400, CORS).end("Expected JSON");
+      return;
+    }
+    const line = `data: ${body.replace(/\n/g, "")}\n\n`;
+    sessions.get(code)?.forEach((listener) => listener.write(line));
+    res.writeHead(204, CORS).end();
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const match = /^\/sessions\/([A-Za-z0-9]{1,32})$/.exec(new URL(req.url ?? "/", "http://relay").pathname);
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS).end();
+  } else if (!match) {
+    res.writeHead(404, CORS).end("Not found");
+  } else if (req.method === "GET") {
+    subscribe(match[1], req, res);
+  } else if (req.method === "POST") {
+    publish(match[1], req, res);
+  } else {
+    res.writeHead(405, CORS).end();
+  }
+});
+
+// Proxies and phones drop idle streams; a comment line keeps them open
+setInterval(() => {
+  sessions.forEach((listeners) => listeners.forEach((res) => res.write(": ping\n\n")));
+}, KEEPALIVE_MS).unref();
+
+server.listen(PORT, () => {
+  console.log(`Golf scorecard relay listening on http://localhost:${PORT}`);
+});